@@ -0,0 +1,79 @@
+import {
+  ALERT_LOOKBACK_HOURS,
+  buildAlertEmail,
+  detectAlerts,
+  loadAlertThresholds,
+} from "../shared/blood_sugar_alerts.ts";
+import {
+  buildCreatedSinceFilter,
+  describeNotionError,
+  fetchNotionPages,
+  NotionApiError,
+  type NotionPage,
+} from "../shared/notion.ts";
+import { loadDisplayUnit } from "../shared/glucose_units.ts";
+import { parsePages } from "../shared/notion_schema.ts";
+import {
+  getAlertedPageIds,
+  getLastAlertCheck,
+  initAlertSchema,
+  recordSentAlerts,
+  setLastAlertCheck,
+} from "../storage/alerts.ts";
+import { failCollectorRun, finishCollectorRun, startCollectorRun } from "../storage/collector_runs.ts";
+import { bloodSugarTracker } from "../trackers/blood_sugar.ts";
+import { getTrackerNotionConfig, sendReport } from "./tracker_runner.ts";
+
+const ALERT_CHECK_NAME = "blood_sugar";
+// Notion rounds created_time to the minute, so re-check the boundary minute of the last run.
+const CHECK_OVERLAP_MS = 60_000;
+
+// Frequent blood sugar alerts (schedule every 15–30 minutes): email as soon as a new reading is out of range.
+export default async function handler(): Promise<Response> {
+  const notionConfig = getTrackerNotionConfig(bloodSugarTracker);
+  if (!notionConfig) {
+    return new Response(`Missing required secrets (NOTION_TOKEN, ${bloodSugarTracker.databaseEnv}).`, { status: 500 });
+  }
+  const thresholds = loadAlertThresholds();
+  const checkedAt = new Date().toISOString();
+  const run = await startCollectorRun("blood_sugar_alerts", `blood_sugar_alerts-${checkedAt}`);
+
+  try {
+    await initAlertSchema();
+    const lastCheck = await getLastAlertCheck(ALERT_CHECK_NAME);
+    // Fetch a day of earlier readings too, so a high trend can span the previous check.
+    const lookback = new Date(Date.parse(checkedAt) - ALERT_LOOKBACK_HOURS * 3_600_000).toISOString();
+    const newSince = lastCheck ? new Date(Date.parse(lastCheck) - CHECK_OVERLAP_MS).toISOString() : lookback;
+    const pages = await fetchNotionPages<NotionPage>(notionConfig.databaseId, notionConfig.token, (cursor) => ({
+      filter: buildCreatedSinceFilter(newSince < lookback ? newSince : lookback),
+      sorts: [{ timestamp: "created_time", direction: "ascending" }],
+      ...(cursor ? { start_cursor: cursor } : {}),
+    }));
+
+    const createdAt = new Map(pages.map((page) => [page.id, page.created_time ?? ""]));
+    const parsed = parsePages(pages, (page) => bloodSugarTracker.parseEntry(page, notionConfig.propertyMap));
+    const fresh = parsed.entries.filter((entry) => entry.pageId && (createdAt.get(entry.pageId) ?? "") >= newSince);
+    const alreadyAlerted = await getAlertedPageIds(fresh.map((entry) => entry.pageId as string));
+    const candidates = new Set(fresh.map((entry) => entry.pageId as string).filter((id) => !alreadyAlerted.has(id)));
+    const alerts = detectAlerts(parsed.entries, (entry) => candidates.has(entry.pageId as string), thresholds);
+
+    if (alerts.length) {
+      // Record only after the email goes out, so a failed send is retried on the next check.
+      await sendReport(buildAlertEmail(alerts, thresholds, loadDisplayUnit()));
+      await recordSentAlerts(alerts, checkedAt);
+    }
+    await setLastAlertCheck(ALERT_CHECK_NAME, checkedAt);
+    await finishCollectorRun(run, {
+      status: "success",
+      pageCount: parsed.pageCount,
+      entryCount: fresh.length,
+      parseFailures: parsed.skipped,
+    });
+    return new Response(alerts.length ? `Sent ${alerts.length} alert(s).` : "No alerts.", { status: 200 });
+  } catch (error) {
+    await failCollectorRun(run, error);
+    if (!(error instanceof NotionApiError)) throw error;
+    console.error("Notion request failed", describeNotionError(error));
+    return new Response(`Blood sugar alerts skipped: ${error.message}`, { status: 502 });
+  }
+}
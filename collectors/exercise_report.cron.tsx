@@ -0,0 +1,7 @@
+import { exerciseTracker } from "../trackers/exercise.ts";
+import { runTrackerCollector } from "./tracker_runner.ts";
+
+// Weekly exercise rollup: active minutes, sessions, and streak against the weekly target.
+export default async function handler(): Promise<Response> {
+  return await runTrackerCollector(exerciseTracker);
+}
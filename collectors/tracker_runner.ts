@@ -0,0 +1,303 @@
+import { email } from "https://esm.town/v/std/email";
+import { buildRunId, filterEntriesInRange, getWeeklyRange } from "../shared/date.ts";
+import {
+  describeNotionError,
+  fetchNotionPages,
+  NotionApiError,
+  type NotionDatabase,
+  type NotionPage,
+  updateNotionPage,
+} from "../shared/notion.ts";
+import {
+  buildDateRangeFilter,
+  buildPreferredDateRangeFilter,
+  buildTextPropertyValue,
+  type PropertyMap,
+  readTextProperty,
+} from "../shared/property_mapping.ts";
+import {
+  assertDatabaseSchema,
+  assertPagesParsed,
+  NotionSchemaError,
+  type ParseResult,
+  parsePages,
+} from "../shared/notion_schema.ts";
+import { buildBadgeEvents, classifyBadgeAwards, formatBadgeHighlight, selectNewAwards } from "../shared/badge_history.ts";
+import { type Rollup } from "../shared/monthly_report.ts";
+import { getWeeklyReportsConfig, publishWeeklyReport, type WeeklyNotionReport } from "../shared/notion_report.ts";
+import {
+  type DataQualityIssue,
+  type TrackerContext,
+  type TrackerDescriptor,
+  type TrackerEntry,
+} from "../shared/tracker.ts";
+import { getSyncMode, loadSyncedPages, type SyncMode } from "../storage/notion_sync.ts";
+import { loadRewardRules } from "../shared/reward_rules.ts";
+import { buildLevelUpdate, formatLevelUp } from "../shared/xp_levels.ts";
+import {
+  getBadgeEvents,
+  getRollupHistory,
+  initRollupSchema,
+  replaceBadgeEvents,
+  upsertWeeklyRollup,
+} from "../storage/rollups.ts";
+import {
+  failCollectorRun,
+  finishCollectorRun,
+  replaceNotionEntries,
+  startCollectorRun,
+} from "../storage/collector_runs.ts";
+
+// Shared weekly collector: every registered tracker runs through the same fetch → rollup → email → persist steps.
+
+export type TrackerNotionConfig<TMap> = {
+  token: string;
+  databaseId: string;
+  syncMode: SyncMode;
+  propertyMap: TMap;
+};
+
+export type FetchedEntries<TEntry> = ParseResult<TEntry> & {
+  pages: NotionPage[];
+  // Pages parseEntry skipped (any date in incremental mode), for data-quality checks.
+  unparsedPages: NotionPage[];
+};
+
+export type TrackerRunOptions<TEntry, TMap> = {
+  // Runs on the parsed week before the rollup is built (e.g. food enrichment); a returned note is appended to the response.
+  prepare?: (entries: TEntry[], config: TrackerNotionConfig<TMap>, context: TrackerContext) => Promise<string | void>;
+};
+
+type EmailConfig = {
+  fromEmail?: string;
+  fromName?: string;
+  replyTo?: string;
+};
+
+export async function runTrackerCollector<
+  TEntry extends TrackerEntry,
+  TMap extends PropertyMap<string>,
+  TRollup extends Rollup,
+>(
+  tracker: TrackerDescriptor<TEntry, TMap, TRollup>,
+  options: TrackerRunOptions<TEntry, TMap> = {},
+): Promise<Response> {
+  const notionConfig = getTrackerNotionConfig(tracker);
+  if (!notionConfig) {
+    return new Response(`Missing required secrets (NOTION_TOKEN, ${tracker.databaseEnv}).`, { status: 500 });
+  }
+
+  // Use a fixed 7-day range ending today (UTC) for weekly rollups.
+  const { start, end } = getWeeklyRange();
+  console.log(`${tracker.label} range: ${start} to ${end}`);
+  const run = await startCollectorRun(tracker.category, buildRunId(tracker.category, start, end));
+  let fetched: FetchedEntries<TEntry>;
+  let database: NotionDatabase;
+  try {
+    database = await assertDatabaseSchema(
+      notionConfig.databaseId,
+      notionConfig.token,
+      tracker.expectedProperties(notionConfig.propertyMap),
+    );
+    fetched = await fetchTrackerEntries(tracker, start, end, notionConfig, database);
+  } catch (error) {
+    await failCollectorRun(run, error);
+    // Report Notion failures instead of rolling up an empty week.
+    if (error instanceof NotionSchemaError) {
+      console.error(error.message);
+      return new Response(`${tracker.label} run skipped: ${error.message}`, { status: 500 });
+    }
+    if (!(error instanceof NotionApiError)) throw error;
+    console.error("Notion request failed", describeNotionError(error));
+    return new Response(`${tracker.label} run skipped: ${error.message}`, { status: 502 });
+  }
+  console.log(`Fetched ${fetched.entries.length} ${tracker.label} entries from Notion`);
+  const review = tracker.reviewEntries?.(fetched.entries, fetched.unparsedPages, notionConfig.propertyMap, { start, end });
+  const entries = review?.entries ?? fetched.entries;
+  if (review?.issues.length) console.log(`${tracker.label}: ${review.issues.length} data-quality issues.`);
+
+  let note: string | void = undefined;
+  let rollup: TRollup;
+  let context: TrackerContext = { start, end, quality: review?.issues };
+  try {
+    await initRollupSchema();
+    // Every stored rollup, including other categories' runs for this same week, feeds the all-tracker XP level;
+    // the tracker itself sees only its own earlier weeks.
+    const allHistory = await getRollupHistory();
+    context = {
+      ...context,
+      history: allHistory.filter((row) => row.category === tracker.category && row.periodEnd < start),
+    };
+    note = await options.prepare?.(entries, notionConfig, context);
+    rollup = tracker.buildRollup(entries, start, end, context.history);
+    // Compare against earlier periods only, so a re-run week keeps its first-ever and comeback highlights.
+    const awards = classifyBadgeAwards(rollup, await getBadgeEvents(tracker.category));
+    const levels = buildLevelUpdate(rollup, allHistory, tracker.label);
+    context = { ...context, awards, levels };
+    const newAwards = selectNewAwards(awards);
+    if (newAwards.length) console.log(`${tracker.label} new badges: ${newAwards.map(formatBadgeHighlight).join("; ")}`);
+    for (const change of [levels.category, levels.overall]) {
+      if (change.leveledUp) console.log(formatLevelUp(change));
+    }
+    const report = tracker.buildEmail?.(entries, rollup, context);
+    if (report) {
+      console.log("Report subject:", report.subject);
+      await sendReport(report);
+    }
+
+    // Snapshot the pages behind this rollup so it can be traced back later.
+    await replaceNotionEntries(run, fetched.pages);
+    await upsertWeeklyRollup(rollup);
+    await replaceBadgeEvents(
+      rollup.category,
+      rollup.periodStart,
+      buildBadgeEvents(rollup, awards, loadRewardRules(tracker.category), new Date().toISOString()),
+    );
+  } catch (error) {
+    await failCollectorRun(run, error);
+    throw error;
+  }
+  await finishCollectorRun(run, {
+    status: "success",
+    pageCount: fetched.pageCount,
+    entryCount: entries.length,
+    parseFailures: fetched.skipped,
+  });
+
+  const notionReport = tracker.buildNotionReport?.(entries, rollup, context);
+  if (notionReport) await publishReport(rollup, notionReport);
+  const flagProperty = tracker.qualityFlagProperty?.(notionConfig.propertyMap);
+  if (review && flagProperty && database.properties[flagProperty.name]) {
+    const flaggedIds = new Set(review.issues.map((issue) => issue.pageId));
+    const pages = [...fetched.pages, ...fetched.unparsedPages.filter((page) => flaggedIds.has(page.id))];
+    await writeQualityFlags(pages, review.issues, flagProperty, notionConfig.token);
+  }
+
+  const summary = tracker.buildEmail ? "Weekly report sent." : `Weekly ${tracker.category} entries logged.`;
+  return new Response(note ? `${summary} ${note}` : summary, { status: 200 });
+}
+
+export function getTrackerNotionConfig<TMap extends PropertyMap<string>>(
+  tracker: Pick<TrackerDescriptor<TrackerEntry, TMap>, "databaseEnv" | "loadPropertyMap">,
+): TrackerNotionConfig<TMap> | null {
+  const token = Deno.env.get("NOTION_TOKEN");
+  const databaseId = Deno.env.get(tracker.databaseEnv);
+  if (!token || !databaseId) return null;
+  return { token, databaseId, syncMode: getSyncMode(), propertyMap: tracker.loadPropertyMap() };
+}
+
+// Read the week's pages (window query, or the local mirror in incremental mode) and parse them into entries.
+// Pass the database definition to let the window use the tracker's preferred date property when it exists.
+export async function fetchTrackerEntries<TEntry extends TrackerEntry, TMap extends PropertyMap<string>>(
+  tracker: Pick<
+    TrackerDescriptor<TEntry, TMap>,
+    "label" | "dateProperty" | "preferredDateProperty" | "parseEntry" | "isIncompleteEntry"
+  >,
+  start: string,
+  end: string,
+  config: TrackerNotionConfig<TMap>,
+  database?: NotionDatabase,
+): Promise<FetchedEntries<TEntry>> {
+  const dateProperty = tracker.dateProperty(config.propertyMap);
+  const preferred = tracker.preferredDateProperty?.(config.propertyMap);
+  const filter = preferred && database?.properties[preferred.name]
+    ? buildPreferredDateRangeFilter(preferred, dateProperty, start, end)
+    : buildDateRangeFilter(dateProperty, start, end);
+  // Incremental mode reads the local mirror, so narrow to the window after parsing.
+  const pages = config.syncMode === "incremental"
+    ? await loadSyncedPages<NotionPage>(config.databaseId, config.token)
+    : await fetchNotionPages<NotionPage>(config.databaseId, config.token, (cursor) => ({
+      filter,
+      sorts: [{ property: dateProperty.name, direction: "ascending" }],
+      ...(cursor ? { start_cursor: cursor } : {}),
+    }));
+
+  const isIncomplete = tracker.isIncompleteEntry;
+  const result = parsePages(
+    pages,
+    (page) => tracker.parseEntry(page, config.propertyMap),
+    isIncomplete ? (page) => isIncomplete(page, config.propertyMap) : undefined,
+  );
+  assertPagesParsed(result, tracker.label);
+  const entries = filterEntriesInRange(result.entries, start, end);
+  const pageIds = new Set(entries.map((entry) => entry.pageId));
+  const parsedIds = new Set(result.entries.map((entry) => entry.pageId));
+  return {
+    ...result,
+    entries,
+    pages: pages.filter((page) => pageIds.has(page.id)),
+    unparsedPages: pages.filter((page) => !parsedIds.has(page.id)),
+  };
+}
+
+// Publishing is optional: a Notion failure is logged but doesn't fail a run whose rollup is already saved.
+async function publishReport(rollup: Rollup, report: WeeklyNotionReport) {
+  const config = getWeeklyReportsConfig();
+  if (!config) return;
+  try {
+    const { pageId, created } = await publishWeeklyReport(config, rollup, report);
+    console.log(`${created ? "Created" : "Updated"} Notion weekly report page ${pageId}.`);
+  } catch (error) {
+    if (error instanceof NotionSchemaError) {
+      console.error(`Weekly report not published: ${error.message}`);
+      return;
+    }
+    if (!(error instanceof NotionApiError)) throw error;
+    console.error("Weekly report not published", describeNotionError(error));
+  }
+}
+
+// Keep each page's flag column in step with its issues: write new ones, clear fixed ones, skip unchanged pages.
+// Like report publishing, a Notion failure is logged without failing the run.
+async function writeQualityFlags(
+  pages: NotionPage[],
+  issues: DataQualityIssue[],
+  property: { name: string; type: string },
+  token: string,
+) {
+  let updated = 0;
+  for (const page of pages) {
+    const details = issues.filter((issue) => issue.pageId === page.id).map((issue) => issue.detail).join("; ");
+    // Select options can't contain commas and cap out at 100 characters.
+    const flag = property.type === "select" ? details.replaceAll(",", "").slice(0, 100) : details;
+    if ((readTextProperty(page.properties?.[property.name]) ?? "") === flag) continue;
+    try {
+      await updateNotionPage(page.id, token, { [property.name]: buildTextPropertyValue(property.type, flag) });
+      updated += 1;
+    } catch (error) {
+      if (!(error instanceof NotionApiError)) throw error;
+      console.error(`Data-quality flag not written for ${page.id}`, describeNotionError(error));
+    }
+  }
+  if (updated) console.log(`Updated data-quality flags on ${updated} Notion pages.`);
+}
+
+// Email via std/email with the optional REPORT_FROM_* sender settings.
+export async function sendReport(report: { subject: string; text: string; html: string }) {
+  const emailConfig = getEmailConfig();
+  console.log("Sending email to Val Town account owner (free tier default).");
+  // Build the payload to match Val Town's std/email expectations.
+  await email({
+    subject: report.subject,
+    text: report.text,
+    html: report.html,
+    ...(buildFrom(emailConfig?.fromEmail, emailConfig?.fromName) ?? {}),
+    ...(emailConfig?.replyTo ? { replyTo: emailConfig.replyTo } : {}),
+  });
+  console.log("Email sent.");
+}
+
+function buildFrom(email?: string | null, name?: string | null) {
+  if (!email) return null;
+  return {
+    from: name ? { email, name } : { email },
+  };
+}
+
+function getEmailConfig(): EmailConfig | null {
+  const fromEmail = Deno.env.get("REPORT_FROM_EMAIL") ?? undefined;
+  const fromName = Deno.env.get("REPORT_FROM_NAME") ?? undefined;
+  const replyTo = Deno.env.get("REPORT_REPLY_TO") ?? undefined;
+  if (!fromEmail && !fromName && !replyTo) return null;
+  return { fromEmail, fromName, replyTo };
+}
@@ -0,0 +1,149 @@
+import React from "https://esm.sh/react@18.2.0";
+import { renderToString } from "https://esm.sh/react-dom@18.2.0/server";
+import { type BadgeCaseEntry, summarizeBadgeCase } from "../shared/badge_history.ts";
+import { loadRewardRules } from "../shared/reward_rules.ts";
+import { getBadgeEvents, initRollupSchema } from "../storage/rollups.ts";
+import { TRACKERS } from "../trackers/registry.ts";
+
+// HTTP val that renders the badge case: every badge per tracker, how often it was earned, and when.
+export default async function (_req: Request) {
+  await initRollupSchema();
+  const events = await getBadgeEvents();
+  const shelves = TRACKERS.map((tracker) => ({
+    title: tracker.label,
+    entries: summarizeBadgeCase(tracker.category, loadRewardRules(tracker.category), events),
+  }));
+
+  const html = renderToString(<BadgeCasePage shelves={shelves} />);
+  return new Response(`<!doctype html>${html}`, {
+    headers: { "Content-Type": "text/html; charset=utf-8" },
+  });
+}
+
+function BadgeCasePage(props: { shelves: { title: string; entries: BadgeCaseEntry[] }[] }) {
+  const title = "Praise Cage Badge Case";
+  const earned = props.shelves.reduce((sum, shelf) => sum + shelf.entries.filter((entry) => entry.count).length, 0);
+  const total = props.shelves.reduce((sum, shelf) => sum + shelf.entries.length, 0);
+  return (
+    <html lang="en">
+      <head>
+        <meta charSet="utf-8" />
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <title>{title}</title>
+        <style>{`
+          :root {
+            --ink: #1b1b1f;
+            --sun: #ffd84d;
+            --paper: #fff4d6;
+            --rose: #ff8aa1;
+          }
+          * { box-sizing: border-box; }
+          body {
+            margin: 0;
+            background: linear-gradient(135deg, #fff1b8, #ffe4ef 35%, #dff6ff 75%);
+            color: var(--ink);
+            font-family: "Futura", "Trebuchet MS", "Gill Sans", "Segoe UI", sans-serif;
+          }
+          .wrap {
+            max-width: 980px;
+            margin: 0 auto;
+            padding: 32px 20px 48px;
+          }
+          .header {
+            border: 4px solid var(--ink);
+            background: var(--sun);
+            padding: 18px 22px;
+            box-shadow: 8px 8px 0 var(--ink);
+          }
+          .header h1 {
+            margin: 0;
+            font-size: 34px;
+            letter-spacing: 1px;
+            text-transform: uppercase;
+          }
+          .sub {
+            margin: 8px 0 0;
+            font-size: 13px;
+            font-weight: 800;
+          }
+          .card {
+            margin-top: 20px;
+            background: white;
+            border: 3px solid var(--ink);
+            box-shadow: 6px 6px 0 var(--ink);
+            padding: 16px 18px;
+          }
+          .card h2 {
+            margin: 0 0 12px;
+            font-size: 20px;
+            text-transform: uppercase;
+            border-bottom: 3px solid var(--ink);
+            padding-bottom: 6px;
+          }
+          .shelf {
+            display: grid;
+            grid-template-columns: repeat(auto-fit, minmax(220px, 1fr));
+            gap: 12px;
+          }
+          .trophy {
+            background: var(--paper);
+            border: 3px solid var(--ink);
+            padding: 10px 12px;
+            font-size: 13px;
+          }
+          .trophy.locked {
+            opacity: 0.55;
+            border-style: dashed;
+          }
+          .badge {
+            display: inline-block;
+            padding: 6px 8px;
+            background: var(--rose);
+            border: 2px solid var(--ink);
+            font-weight: 800;
+            font-size: 12px;
+            text-transform: uppercase;
+          }
+          .count {
+            margin-top: 8px;
+            font-size: 16px;
+            font-weight: 800;
+          }
+          .dates {
+            font-size: 12px;
+            font-weight: 700;
+          }
+        `}</style>
+      </head>
+      <body>
+        <div className="wrap">
+          <header className="header">
+            <h1>{title}</h1>
+            <div className="sub">{earned} of {total} badges earned so far. Data from badge events in Val Town SQLite.</div>
+          </header>
+          {props.shelves.map((shelf) => (
+            <section className="card" key={shelf.title}>
+              <h2>{shelf.title}</h2>
+              {shelf.entries.length === 0 && <div>No badges defined yet.</div>}
+              <div className="shelf">
+                {shelf.entries.map((entry) => <Trophy key={entry.badge} entry={entry} />)}
+              </div>
+            </section>
+          ))}
+        </div>
+      </body>
+    </html>
+  );
+}
+
+function Trophy(props: { entry: BadgeCaseEntry }) {
+  const { badge, description, count, firstEarned, lastEarned } = props.entry;
+  return (
+    <div className={count ? "trophy" : "trophy locked"}>
+      <span className="badge">{badge}</span>
+      <div>{description}</div>
+      <div className="count">{count ? `Earned ${count} time${count === 1 ? "" : "s"}` : "Not earned yet"}</div>
+      {count > 0 && <div className="dates">First: week ending {firstEarned} · Last: week ending {lastEarned}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import React from "https://esm.sh/react@18.2.0";
+import { renderToString } from "https://esm.sh/react-dom@18.2.0/server";
+import { OpenAI } from "https://esm.town/v/std/openai";
+import { fetchTrackerEntries, getTrackerNotionConfig } from "../collectors/tracker_runner.ts";
+import { getWeeklyRange } from "../shared/date.ts";
+import { getFatSecretConfig, type FoodMatch, requestAccessToken } from "../shared/fatsecret.ts";
+import { MACRO_KEYS, type MacroKey } from "../shared/food_enrich.ts";
+import {
+  type EnrichmentDiff,
+  estimateNutrition,
+  hasEnrichmentUpdate,
+  planEnrichment,
+} from "../shared/food_nutrition.ts";
+import { describeNotionError, NotionApiError } from "../shared/notion.ts";
+import { NotionSchemaError } from "../shared/notion_schema.ts";
+import { foodTracker } from "../trackers/food.ts";
+
+// HTTP val that previews food enrichment for the current week without writing to Notion.
+// Add `?format=json` for the raw per-entry diff.
+export default async function (req: Request) {
+  const url = new URL(req.url);
+  const notionConfig = getTrackerNotionConfig(foodTracker);
+  const fatSecretConfig = getFatSecretConfig();
+  if (!notionConfig || !fatSecretConfig) {
+    return new Response("Missing Notion or FatSecret secrets.", { status: 500 });
+  }
+
+  const { start, end } = getWeeklyRange();
+  let diffs: EnrichmentDiff[];
+  try {
+    const { entries } = await fetchTrackerEntries(foodTracker, start, end, notionConfig);
+    const openai = new OpenAI();
+    const token = await requestAccessToken(fatSecretConfig);
+    diffs = await planEnrichment(entries, (food) => estimateNutrition(food, openai, token), notionConfig.propertyMap);
+  } catch (error) {
+    if (error instanceof NotionApiError) {
+      console.error("Notion request failed", describeNotionError(error));
+      return new Response(`Preview failed: ${error.message}`, { status: 502 });
+    }
+    if (error instanceof NotionSchemaError) {
+      return new Response(`Preview failed: ${error.message}`, { status: 500 });
+    }
+    throw error;
+  }
+
+  if (url.searchParams.get("format") === "json") {
+    return Response.json({ start, end, dryRun: true, entries: diffs });
+  }
+  const html = renderToString(<PreviewPage start={start} end={end} diffs={diffs} />);
+  return new Response(`<!doctype html>${html}`, {
+    headers: { "Content-Type": "text/html; charset=utf-8" },
+  });
+}
+
+function PreviewPage(props: { start: string; end: string; diffs: EnrichmentDiff[] }) {
+  const { start, end, diffs } = props;
+  const updates = diffs.filter(hasEnrichmentUpdate).length;
+  return (
+    <html lang="en">
+      <head>
+        <meta charSet="utf-8" />
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <title>Food Enrichment Preview</title>
+        <style>{`
+          body { margin: 0; padding: 24px; font-family: "Trebuchet MS", "Segoe UI", sans-serif; background: #fff4d6; color: #1b1b1f; }
+          h1 { margin: 0 0 6px; text-transform: uppercase; }
+          .sub { font-size: 13px; font-weight: 700; margin-bottom: 16px; }
+          table { width: 100%; border-collapse: collapse; background: white; border: 3px solid #1b1b1f; }
+          th, td { padding: 8px; border-bottom: 1px solid #1b1b1f; text-align: left; vertical-align: top; font-size: 13px; }
+          th { background: #ffd84d; }
+          ul { margin: 0; padding-left: 16px; }
+          .muted { color: #6b6b75; }
+          .changed { font-weight: 800; }
+        `}</style>
+      </head>
+      <body>
+        <h1>Food Enrichment Preview</h1>
+        <div className="sub">
+          {start} → {end} · {diffs.length} entries need macros · {updates} would be updated · nothing is written
+        </div>
+        <table>
+          <thead>
+            <tr>
+              <th>Food</th>
+              <th>Parsed items → FatSecret match</th>
+              <th>Current</th>
+              <th>Would write</th>
+            </tr>
+          </thead>
+          <tbody>
+            {diffs.map((diff) => (
+              <tr key={diff.pageId}>
+                <td>
+                  <div>{diff.food}</div>
+                  <div className="muted">{diff.loggedAt}</div>
+                </td>
+                <td>
+                  {diff.estimate
+                    ? (
+                      <ul>
+                        {diff.estimate.items.map((item, index) => (
+                          <li key={`${item.name}-${index}`}>
+                            {item.name} × {item.servings} → {describeMatch(item.match)}
+                          </li>
+                        ))}
+                        {diff.estimate.fallback && <li>Whole entry → {describeMatch(diff.estimate.fallback)}</li>}
+                      </ul>
+                    )
+                    : <span className="muted">No estimate</span>}
+                </td>
+                <td>{formatMacros(diff.current)}</td>
+                <td className={hasEnrichmentUpdate(diff) ? "changed" : "muted"}>
+                  {hasEnrichmentUpdate(diff) ? formatMacros(diff.estimate?.macros ?? {}) : "No change"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </body>
+    </html>
+  );
+}
+
+function describeMatch(match: FoodMatch | null): string {
+  if (!match) return "no match";
+  const name = match.brandName ? `${match.foodName} (${match.brandName})` : match.foodName ?? "unnamed food";
+  return `${name} [${match.source}]`;
+}
+
+function formatMacros(macros: Partial<Record<MacroKey, number>>): string {
+  const parts = MACRO_KEYS.filter((key) => macros[key] !== undefined).map((key) => `${key} ${macros[key]}`);
+  return parts.length ? parts.join(", ") : "—";
+}
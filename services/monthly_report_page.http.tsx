@@ -1,12 +1,12 @@
 import React from "https://esm.sh/react@18.2.0";
 import { renderToString } from "https://esm.sh/react-dom@18.2.0/server";
 import { sqlite } from "../storage/sqlite.ts";
-import {
-  aggregateBloodSugarMonth,
-  aggregateFoodMonth,
-  resolveMonthRange,
-  type Rollup,
-} from "../shared/monthly_report.ts";
+import { getRollupHistory, parseWeeklyRollupRow } from "../storage/rollups.ts";
+import { resolveMonthRange, type Rollup } from "../shared/monthly_report.ts";
+import { type MonthlySection, type StackedBar } from "../shared/tracker.ts";
+import { buildStreakSection } from "../shared/streaks.ts";
+import { buildLevelSection } from "../shared/xp_levels.ts";
+import { TRACKERS } from "../trackers/registry.ts";
 
 // HTTP val that renders a monthly dashboard directly from the val-scoped DB.
 export default async function (req: Request) {
@@ -20,14 +20,19 @@ export default async function (req: Request) {
   const includePartialWeeks = url.searchParams.get("partial") === "true";
   const monthOptions = buildMonthOptions(startYear, now);
 
-  // Pull all rollups for the requested month window, then split by category.
+  // Pull all rollups for the requested month window, then let each tracker summarize its own category.
   const rollups = await fetchRollups(start, end, includePartialWeeks);
-  const bloodSugar = aggregateBloodSugarMonth(rollups.filter((r) => r.category === "blood_sugar"), start, end, {
-    includePartialWeeks,
-  });
-  const food = aggregateFoodMonth(rollups.filter((r) => r.category === "food"), start, end, {
-    includePartialWeeks,
-  });
+  // Longer-term history (e.g. the 90-day A1C estimate) reads every rollup up to the end of the month.
+  const history = await getRollupHistory(end);
+  const sections = TRACKERS.map((tracker) =>
+    tracker.summarizeMonth(rollups.filter((r) => r.category === tracker.category), start, end, {
+      includePartialWeeks,
+      history: history.filter((r) => r.category === tracker.category),
+    })
+  );
+  // Lifetime levels and all-time streaks come from every stored week, not just this month's.
+  sections.push(buildLevelSection(history, start, end, TRACKERS));
+  sections.push(buildStreakSection(history, end, TRACKERS));
 
   // Render a full HTML page as a string (server-side React).
   const html = renderToString(
@@ -37,8 +42,7 @@ export default async function (req: Request) {
       includePartialWeeks={includePartialWeeks}
       selectedMonth={selectedMonth}
       monthOptions={monthOptions}
-      bloodSugar={bloodSugar}
-      food={food}
+      sections={sections}
     />,
   );
 
@@ -73,65 +77,7 @@ async function fetchRollups(start: string, end: string, includePartialWeeks: boo
     args,
   });
 
-  return result.rows.map((row) => rowToRollup(row as Record<string, unknown> | unknown[]));
-}
-
-// Convert SQLite array or object rows into typed rollup objects.
-// (The SQLite client can return either shape depending on context.)
-function rowToRollup(row: Record<string, unknown> | unknown[]): Rollup {
-  const values = Array.isArray(row) ? row : [
-    row.category,
-    row.period_start,
-    row.period_end,
-    row.streak,
-    row.completion_rate,
-    row.xp,
-    row.badges_json,
-    row.stats_json,
-    row.run_id,
-  ];
-  const [
-    category,
-    periodStart,
-    periodEnd,
-    streak,
-    completionRate,
-    xp,
-    badgesJson,
-    statsJson,
-    runId,
-  ] = values;
-  return {
-    category: String(category),
-    periodStart: String(periodStart),
-    periodEnd: String(periodEnd),
-    streak: Number(streak ?? 0),
-    completionRate: Number(completionRate ?? 0),
-    xp: Number(xp ?? 0),
-    badges: safeParseJsonArray(badgesJson),
-    stats: safeParseJsonObject(statsJson),
-    runId: String(runId),
-  };
-}
-
-function safeParseJsonArray(value: unknown): string[] {
-  const parsed = safeParseJson(value);
-  return Array.isArray(parsed) ? parsed.map(String) : [];
-}
-
-function safeParseJsonObject(value: unknown): Record<string, unknown> {
-  const parsed = safeParseJson(value);
-  return parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>) : {};
-}
-
-// Guard against invalid JSON in stored rollup columns.
-function safeParseJson(value: unknown) {
-  if (typeof value !== "string") return null;
-  try {
-    return JSON.parse(value);
-  } catch {
-    return null;
-  }
+  return result.rows.map(parseWeeklyRollupRow);
 }
 
 // Present the monthly report as a static HTML page.
@@ -141,10 +87,9 @@ function ReportPage(props: {
   includePartialWeeks: boolean;
   selectedMonth: string;
   monthOptions: string[];
-  bloodSugar: ReturnType<typeof aggregateBloodSugarMonth>;
-  food: ReturnType<typeof aggregateFoodMonth>;
+  sections: MonthlySection[];
 }) {
-  const { monthStart, monthEnd, includePartialWeeks, selectedMonth, monthOptions, bloodSugar, food } = props;
+  const { monthStart, monthEnd, includePartialWeeks, selectedMonth, monthOptions, sections } = props;
   const title = "Praise Cage Monthly Rollup";
   return (
     <html lang="en">
@@ -339,6 +284,38 @@ function ReportPage(props: {
             margin-top: 10px;
             font-size: 13px;
           }
+          .bar {
+            display: flex;
+            height: 22px;
+            margin-top: 6px;
+            border: 2px solid var(--ink);
+            background: white;
+          }
+          .bar span {
+            height: 100%;
+          }
+          .legend {
+            margin-top: 6px;
+            font-size: 12px;
+            font-weight: 700;
+          }
+          .legend i {
+            display: inline-block;
+            width: 10px;
+            height: 10px;
+            margin: 0 4px 0 8px;
+            border: 1px solid var(--ink);
+          }
+          .hint {
+            margin-bottom: 4px;
+            font-size: 12px;
+            font-weight: 600;
+          }
+          .footnote {
+            margin-top: 10px;
+            font-size: 11px;
+            font-weight: 600;
+          }
           .footer {
             margin-top: 24px;
             font-size: 12px;
@@ -414,46 +391,9 @@ function ReportPage(props: {
             </form>
           </header>
 
-          {/* Main content: two summary cards */}
+          {/* Main content: one summary card per registered tracker */}
           <main className="grid" aria-label="Monthly report summary">
-            <section className="card">
-              <h2>Blood Sugar</h2>
-              <Stat label="Entries" value={bloodSugar.totalEntries} />
-              <Stat label="Average" value={bloodSugar.average} />
-              <Stat label="Min" value={bloodSugar.min} />
-              <Stat label="Max" value={bloodSugar.max} />
-              <Stat label="Completion" value={`${bloodSugar.completionRate}%`} />
-              <Stat label="Streak" value={`${bloodSugar.streak} day${bloodSugar.streak === 1 ? "" : "s"}`} />
-              <Stat label="XP" value={bloodSugar.xp} />
-              <div>
-                {(bloodSugar.badges.length ? bloodSugar.badges : ["No badges yet"]).map((badge) => (
-                  <span className="badge" key={badge}>
-                    {badge}
-                  </span>
-                ))}
-              </div>
-            </section>
-
-            <section className="card">
-              <h2>Food Log</h2>
-              <Stat label="Entries" value={food.totalEntries} />
-              <Stat label="Unique days" value={food.uniqueDays} />
-              <Stat label="Avg/day" value={food.avgEntriesPerDay} />
-              <Stat label="Min/day" value={food.minEntriesPerDay} />
-              <Stat label="Max/day" value={food.maxEntriesPerDay} />
-              <Stat label="Completion" value={`${food.completionRate}%`} />
-              <Stat label="Streak" value={`${food.streak} day${food.streak === 1 ? "" : "s"}`} />
-              <div className="macro">
-                <strong>Macro averages (per entry)</strong>
-                {Object.keys(food.macroSummary).length === 0 && <div>No macro data yet.</div>}
-                {Object.entries(food.macroSummary).map(([key, value]) => (
-                  <div key={key} className="stat">
-                    <span>{key}</span>
-                    <span>{value.avg}</span>
-                  </div>
-                ))}
-              </div>
-            </section>
+            {sections.map((section) => <TrackerCard key={section.title} section={section} />)}
           </main>
 
           <div className="footer">
@@ -486,6 +426,72 @@ function ReportPage(props: {
   );
 }
 
+function TrackerCard(props: { section: MonthlySection }) {
+  const { title, stats, badges, bars, details, footnote } = props.section;
+  return (
+    <section className="card">
+      <h2>{title}</h2>
+      {stats.map((stat) => <Stat key={stat.label} label={stat.label} value={stat.value} />)}
+      {badges && (
+        <div>
+          {(badges.length ? badges : ["No badges yet"]).map((badge) => (
+            <span className="badge" key={badge}>
+              {badge}
+            </span>
+          ))}
+        </div>
+      )}
+      {bars?.map((bar) => <StackedBarChart key={bar.title} bar={bar} />)}
+      {details?.map((detail) => (
+        <div className="macro" key={detail.title}>
+          <strong>{detail.title}</strong>
+          {detail.rows.length === 0 && <div>{detail.emptyText}</div>}
+          {detail.rows.map((row) => (
+            <div key={row.label}>
+              <Stat label={row.label} value={row.value} />
+              {row.hint && <div className="hint">{row.hint}</div>}
+            </div>
+          ))}
+        </div>
+      ))}
+      {footnote && <div className="footnote">{footnote}</div>}
+    </section>
+  );
+}
+
+function StackedBarChart(props: { bar: StackedBar }) {
+  const { title, segments, emptyText } = props.bar;
+  const visible = segments.filter((segment) => segment.percent > 0);
+  const description = visible.map((segment) => `${segment.label} ${segment.percent}%`).join(", ");
+  return (
+    <div className="macro">
+      <strong>{title}</strong>
+      {visible.length === 0 && <div>{emptyText}</div>}
+      {visible.length > 0 && (
+        <>
+          <div className="bar" role="img" aria-label={description}>
+            {visible.map((segment) => (
+              <span
+                key={segment.label}
+                title={`${segment.label} ${segment.percent}%`}
+                style={{ width: `${segment.percent}%`, background: segment.color }}
+              />
+            ))}
+          </div>
+          <div className="legend">
+            {segments.map((segment) => (
+              <span key={segment.label}>
+                <i style={{ background: segment.color }} />
+                {segment.label} {segment.percent}%
+              </span>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
 function Stat(props: { label: string; value: string | number }) {
   return (
     <div className="stat">
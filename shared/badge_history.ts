@@ -0,0 +1,102 @@
+import { addDays } from "./date.ts";
+import { type Rollup, selectNonOverlappingRollups } from "./monthly_report.ts";
+import { type RewardRules } from "./reward_rules.ts";
+
+// Badge history: which of a week's badges are first-ever or comebacks, the events stored for them, and the badge case.
+
+// Matches a row of badge_events_1 (dates are the rollup's period).
+export type BadgeEvent = {
+  category: string;
+  badge: string;
+  periodStart: string; // YYYY-MM-DD
+  periodEnd: string; // YYYY-MM-DD
+  awardedAt: string; // ISO timestamp
+  reason?: string;
+};
+
+// A badge not earned in the 4 weeks before this one counts as a comeback.
+export const COMEBACK_GAP_DAYS = 28;
+
+export type BadgeAwardKind = "first" | "comeback" | "repeat";
+
+export type BadgeAward = {
+  badge: string;
+  kind: BadgeAwardKind;
+  // End of the period the badge was last earned in before this week.
+  lastEarned: string | null;
+};
+
+export type BadgeCaseEntry = {
+  category: string;
+  badge: string;
+  description: string;
+  count: number;
+  firstEarned: string | null;
+  lastEarned: string | null;
+};
+
+// Classify each of the rollup's badges against events from periods that started earlier, including overlapping
+// windows from more frequent runs (later or same-period events are ignored, so re-running a week gives the same answer).
+export function classifyBadgeAwards(rollup: Rollup, events: BadgeEvent[]): BadgeAward[] {
+  const earlier = events.filter((event) => event.category === rollup.category && event.periodStart < rollup.periodStart);
+  const comebackBefore = addDays(rollup.periodStart, -COMEBACK_GAP_DAYS);
+  return rollup.badges.map((badge) => {
+    const lastEarned = earlier
+      .filter((event) => event.badge === badge)
+      .reduce<string | null>((latest, event) => (!latest || event.periodEnd > latest ? event.periodEnd : latest), null);
+    const kind: BadgeAwardKind = !lastEarned ? "first" : lastEarned < comebackBefore ? "comeback" : "repeat";
+    return { badge, kind, lastEarned };
+  });
+}
+
+// First-ever and comeback awards, the ones worth calling out.
+export function selectNewAwards(awards: BadgeAward[]): BadgeAward[] {
+  return awards.filter((award) => award.kind !== "repeat");
+}
+
+// One event per badge in the rollup; the reason is the rule's description, prefixed for first-ever and comeback awards.
+export function buildBadgeEvents(
+  rollup: Rollup,
+  awards: BadgeAward[],
+  rules: RewardRules,
+  awardedAt: string,
+): BadgeEvent[] {
+  return awards.map((award) => {
+    const description = rules.badges.find((rule) => rule.name === award.badge)?.description ?? "";
+    const prefix = award.kind === "first" ? "First time" : award.kind === "comeback" ? "Comeback" : "";
+    return {
+      category: rollup.category,
+      badge: award.badge,
+      periodStart: rollup.periodStart,
+      periodEnd: rollup.periodEnd,
+      awardedAt,
+      reason: [prefix, description].filter(Boolean).join(": ") || undefined,
+    };
+  });
+}
+
+// e.g. "First time: Cage Match: Full Week" or "Comeback: Mandy-Mode Consistency (last earned 2026-01-04)".
+export function formatBadgeHighlight(award: BadgeAward): string {
+  if (award.kind === "first") return `First time: ${award.badge}`;
+  if (award.kind === "comeback") return `Comeback: ${award.badge} (last earned ${award.lastEarned})`;
+  return award.badge;
+}
+
+// Every badge the category's rules define (in rule order), then any retired badges still in the history.
+// Overlapping windows (e.g. daily runs of a rolling week) count as one earning, like the monthly page's rollups.
+export function summarizeBadgeCase(category: string, rules: RewardRules, events: BadgeEvent[]): BadgeCaseEntry[] {
+  const earned = events.filter((event) => event.category === category);
+  const names = [...rules.badges.map((rule) => rule.name), ...earned.map((event) => event.badge)];
+  return [...new Set(names)].map((badge) => {
+    const badgeEvents = earned.filter((event) => event.badge === badge);
+    const periods = badgeEvents.map((event) => event.periodEnd).sort();
+    return {
+      category,
+      badge,
+      description: rules.badges.find((rule) => rule.name === badge)?.description ?? "Retired badge.",
+      count: selectNonOverlappingRollups(badgeEvents).length,
+      firstEarned: periods[0] ?? null,
+      lastEarned: periods.at(-1) ?? null,
+    };
+  });
+}
@@ -0,0 +1,163 @@
+import { type Entry, sortByRecordedAt } from "./blood_sugar_logic.ts";
+import { escapeHtml } from "./html.ts";
+import { CANONICAL_UNIT, formatGlucose, formatReading, type GlucoseUnit, loadDisplayUnit, toMgdl } from "./glucose_units.ts";
+
+// Out-of-range alerts for new readings: hypo/hyper crossings and runs of consecutive high readings.
+
+export type AlertKind = "hypo" | "hyper" | "trend_high";
+
+export type AlertThresholds = {
+  // Alert below this value (mg/dL).
+  low: number;
+  // Alert above this value (mg/dL).
+  high: number;
+  // `trendCount` consecutive readings above `trendHigh` alert even when none crosses `high`.
+  trendHigh: number;
+  trendCount: number;
+};
+
+// One alert per reading; `readings` holds the run behind a trend alert (just the reading otherwise).
+export type ReadingAlert = {
+  pageId: string;
+  kind: AlertKind;
+  value: number;
+  recordedAt: string | null;
+  readings: Entry[];
+};
+
+export const DEFAULT_ALERT_THRESHOLDS: AlertThresholds = {
+  low: 70,
+  high: 250,
+  trendHigh: 180,
+  trendCount: 3,
+};
+
+// Earlier readings are fetched this far back so a trend can span the previous check.
+export const ALERT_LOOKBACK_HOURS = 24;
+
+const ALERT_DISCLAIMER =
+  "Not medical advice. Follow your care plan and contact your care team or emergency services if you feel unwell.";
+
+const ALERT_LABELS: Record<AlertKind, string> = {
+  hypo: "Low reading",
+  hyper: "High reading",
+  trend_high: "Trending high",
+};
+
+// Load threshold overrides from JSON (glucose values in the display unit), e.g. {"low": 65, "trendCount": 4}.
+export function loadAlertThresholds(): AlertThresholds {
+  const raw = Deno.env.get("BLOOD_SUGAR_ALERT_THRESHOLDS");
+  if (!raw) return DEFAULT_ALERT_THRESHOLDS;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error("BLOOD_SUGAR_ALERT_THRESHOLDS must be a JSON object like {\"low\": 70, \"high\": 250}.");
+  }
+  return mergeAlertThresholds(parsed, DEFAULT_ALERT_THRESHOLDS, loadDisplayUnit());
+}
+
+// Glucose overrides are given in `unit` and stored as mg/dL; trendCount is a plain count.
+export function mergeAlertThresholds(
+  overrides: unknown,
+  defaults: AlertThresholds,
+  unit: GlucoseUnit = CANONICAL_UNIT,
+): AlertThresholds {
+  if (!overrides || typeof overrides !== "object" || Array.isArray(overrides)) {
+    throw new Error("BLOOD_SUGAR_ALERT_THRESHOLDS must be a JSON object like {\"low\": 70, \"high\": 250}.");
+  }
+  const merged = { ...defaults };
+  for (const [key, value] of Object.entries(overrides as Record<string, unknown>)) {
+    if (!(key in defaults)) {
+      throw new Error(`BLOOD_SUGAR_ALERT_THRESHOLDS has unknown key "${key}". Expected low, high, trendHigh, trendCount.`);
+    }
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      throw new Error(`BLOOD_SUGAR_ALERT_THRESHOLDS "${key}" must be a number.`);
+    }
+    merged[key as keyof AlertThresholds] = key === "trendCount" ? value : toMgdl(value, unit);
+  }
+  if (merged.low >= merged.high || merged.trendHigh >= merged.high) {
+    throw new Error("BLOOD_SUGAR_ALERT_THRESHOLDS must satisfy low < high and trendHigh < high.");
+  }
+  if (!Number.isInteger(merged.trendCount) || merged.trendCount < 2) {
+    throw new Error("BLOOD_SUGAR_ALERT_THRESHOLDS trendCount must be a whole number of at least 2.");
+  }
+  return merged;
+}
+
+// Check each candidate reading in time order; `readings` also carries earlier ones so trends span checks.
+// A reading raises at most one alert: hypo, then hyper, then trend.
+export function detectAlerts(
+  readings: Entry[],
+  isCandidate: (entry: Entry) => boolean,
+  thresholds: AlertThresholds = DEFAULT_ALERT_THRESHOLDS,
+): ReadingAlert[] {
+  const ordered = sortByRecordedAt(readings);
+  const alerts: ReadingAlert[] = [];
+  ordered.forEach((entry, index) => {
+    if (!entry.pageId || !isCandidate(entry)) return;
+    const alert = (kind: AlertKind, run: Entry[] = [entry]): ReadingAlert => ({
+      pageId: entry.pageId as string,
+      kind,
+      value: entry.value,
+      recordedAt: entry.recordedAt ?? null,
+      readings: run,
+    });
+    if (entry.value < thresholds.low) {
+      alerts.push(alert("hypo"));
+    } else if (entry.value > thresholds.high) {
+      alerts.push(alert("hyper"));
+    } else {
+      const run = ordered.slice(Math.max(0, index - thresholds.trendCount + 1), index + 1);
+      if (run.length === thresholds.trendCount && run.every((item) => item.value > thresholds.trendHigh)) {
+        alerts.push(alert("trend_high", run));
+      }
+    }
+  });
+  return alerts;
+}
+
+export function describeAlert(
+  alert: ReadingAlert,
+  thresholds: AlertThresholds,
+  unit: GlucoseUnit = CANONICAL_UNIT,
+): string {
+  const when = alert.recordedAt ?? "unknown time";
+  const value = `${formatReading(alert.value, unit)} ${unit}`;
+  if (alert.kind === "hypo") {
+    return `${ALERT_LABELS.hypo}: ${value} at ${when} (below ${formatGlucose(thresholds.low, unit)})`;
+  }
+  if (alert.kind === "hyper") {
+    return `${ALERT_LABELS.hyper}: ${value} at ${when} (above ${formatGlucose(thresholds.high, unit)})`;
+  }
+  return `${ALERT_LABELS.trend_high}: ${alert.readings.length} readings in a row above ` +
+    `${formatGlucose(thresholds.trendHigh, unit)} ${unit} ` +
+    `(${alert.readings.map((reading) => formatReading(reading.value, unit)).join(", ")}), latest at ${when}`;
+}
+
+export function buildAlertEmail(
+  alerts: ReadingAlert[],
+  thresholds: AlertThresholds,
+  unit: GlucoseUnit = CANONICAL_UNIT,
+) {
+  const kinds = Array.from(new Set(alerts.map((alert) => ALERT_LABELS[alert.kind])));
+  const subject = `Blood Sugar Alert: ${kinds.join(", ")}`;
+  const lines = alerts.map((alert) => describeAlert(alert, thresholds, unit));
+  const text = [
+    ...lines,
+    "",
+    ALERT_DISCLAIMER,
+  ].join("\n");
+  const html = `
+    <div style="font-family: Arial, Helvetica, sans-serif; line-height: 1.4; padding: 16px; border: 3px solid #1f1b3a;">
+      <div style="font-size: 18px; font-weight: 800; margin-bottom: 8px;">${escapeHtml(subject)}</div>
+      <ul style="margin: 0; padding-left: 18px;">
+        ${lines.map((line) => `<li style="margin-bottom: 4px;">${escapeHtml(line)}</li>`).join("")}
+      </ul>
+      <div style="margin-top: 10px; font-size: 12px; color: #444444;">
+        ${ALERT_DISCLAIMER}
+      </div>
+    </div>
+  `;
+  return { subject, text, html };
+}
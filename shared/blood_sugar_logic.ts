@@ -1,27 +1,103 @@
-import { calculateCurrentStreak, countEntriesByDate, listDateRange } from "./date.ts";
-import { type NotionCreatedTimeProperty, type NotionNumberProperty, type NotionTextProperty } from "./notion.ts";
+import { buildRunId, countEntriesByDate, listDateRange } from "./date.ts";
+import { type Rollup } from "./monthly_report.ts";
+import { calculateAllTimeStreaks } from "./streaks.ts";
+import { type NotionPage } from "./notion.ts";
+import { type ExpectedProperty } from "./notion_schema.ts";
+import { buildVariability, type GlycemicVariability } from "./glycemic_variability.ts";
+import { buildHourBuckets, type HourBuckets } from "./time_of_day.ts";
+import { assignSlots, DEFAULT_READING_SCHEDULE, type ReadingSchedule } from "./reading_schedule.ts";
+import { CANONICAL_UNIT, formatReading, type GlucoseUnit, parseGlucoseUnit, toMgdl } from "./glucose_units.ts";
+import {
+  BLOOD_SUGAR_REWARD_RULES,
+  collectRewardFacts,
+  evaluateRewards,
+  type RewardRules,
+} from "./reward_rules.ts";
+import {
+  loadPropertyMap,
+  type PropertyMap,
+  readNumberProperty,
+  readTextProperty,
+  readTimestampProperty,
+  toExpectedProperty,
+} from "./property_mapping.ts";
+import {
+  type ContextStatsMap,
+  type ContextTargets,
+  DEFAULT_CONTEXT_TARGETS,
+  parseReadingContext,
+  type ReadingContext,
+  summarizeContexts,
+} from "./reading_context.ts";
+import {
+  buildTimeInRange,
+  DEFAULT_TIME_IN_RANGE_THRESHOLDS,
+  type TimeInRange,
+  type TimeInRangeThresholds,
+} from "./time_in_range.ts";
 
 const REPORT_TIMEZONE = "America/New_York";
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
 
-// Scoring constants for XP and bonuses.
-const XP_PER_ENTRY = 12;
-const STREAK_BONUS_MULTIPLIER = 1.2;
-const HEALTHY_AVG_BONUS_MULTIPLIER = 1.2;
-const HEALTHY_AVG_THRESHOLD = 100;
+// Readings expected each day under the default schedule; BLOOD_SUGAR_READING_SCHEDULE can change it.
+export const EXPECTED_READINGS_PER_DAY = DEFAULT_READING_SCHEDULE.length;
 
-// Notion page shape and normalized entry types.
-export type BloodSugarNotionPage = {
-  id: string;
-  properties: {
-    "Blood Sugar Level"?: NotionNumberProperty;
-    "Created time"?: NotionCreatedTimeProperty | NotionTextProperty;
-  };
+// Notion columns for each field; override with NOTION_BLOOD_SUGAR_PROPERTY_MAP.
+// `measuredAt` is optional: when filled in, it dates the reading instead of `timestamp` (for backdated entries).
+// `context` is an optional select tagging the reading (fasting, pre-meal, post-meal, bedtime, random).
+// `unit` is an optional select (mg/dL or mmol/L) for readings logged in a different unit.
+// `qualityFlag` is an optional text column the weekly run fills with data-quality issues.
+export type BloodSugarPropertyMap = PropertyMap<"value" | "timestamp" | "measuredAt" | "context" | "unit" | "qualityFlag">;
+
+export const DEFAULT_PROPERTY_MAP: BloodSugarPropertyMap = {
+  value: { name: "Blood Sugar Level", type: "number" },
+  timestamp: { name: "Created time", type: "created_time" },
+  measuredAt: { name: "Measured at", type: "date" },
+  context: { name: "Context", type: "select" },
+  unit: { name: "Unit", type: "select" },
+  qualityFlag: { name: "Data quality", type: "rich_text" },
 };
 
+export function loadBloodSugarPropertyMap(): BloodSugarPropertyMap {
+  return loadPropertyMap("NOTION_BLOOD_SUGAR_PROPERTY_MAP", DEFAULT_PROPERTY_MAP);
+}
+
+// Properties parseEntry reads, checked against the database before each run.
+export function buildExpectedProperties(propertyMap = DEFAULT_PROPERTY_MAP): ExpectedProperty[] {
+  return [
+    toExpectedProperty(propertyMap.value),
+    toExpectedProperty(propertyMap.timestamp),
+    toExpectedProperty(propertyMap.measuredAt, false),
+    toExpectedProperty(propertyMap.context, false),
+    toExpectedProperty(propertyMap.unit, false),
+    toExpectedProperty(propertyMap.qualityFlag, false),
+  ];
+}
+
+// Notion page shape and normalized entry types. Property names come from the property map, so the page's
+// properties are keyed by whatever columns it names and read through the mapping helpers.
+export type BloodSugarNotionPage = Pick<NotionPage, "id" | "properties">;
+
 export type Entry = {
+  pageId?: string;
   date: string;
   createdTime: string | null;
+  // Always mg/dL; readings logged in mmol/L are converted when parsed.
   value: number;
+  context?: ReadingContext | null;
+  // Raw timestamp (ISO or date-only) the reading is dated by; sorts readings in time order.
+  recordedAt?: string;
+};
+
+// Tunables for the weekly rollup (defaults match the email's documented ranges).
+export type BloodSugarRollupOptions = {
+  contextTargets?: ContextTargets;
+  timeInRangeThresholds?: TimeInRangeThresholds;
+  schedule?: ReadingSchedule;
+  // XP and badge rules; REWARD_RULES can override the defaults.
+  rewardRules?: RewardRules;
+  // Earlier blood sugar rollups, so the streak can run back past this week.
+  history?: Rollup[];
 };
 
 export type BloodSugarRollup = {
@@ -38,38 +114,76 @@ export type BloodSugarRollup = {
     min: number;
     max: number;
     entriesByDate: Record<string, number>;
+    // All-time longest streak, and the streak as of the day before this week (for milestone badges).
+    longestStreak: number;
+    streakBeforeWeek: number;
+    // Expected and missing count schedule slots, not raw readings.
     expected: number;
     missing: number;
+    slotsPerDay: number;
+    slotsByDate: Record<string, number>;
+    // Days each slot went unfilled, keyed by slot label in schedule order.
+    missingBySlot: Record<string, number>;
+    byContext: ContextStatsMap;
+    timeInRange: TimeInRange;
+    variability: GlycemicVariability;
+    byHour: HourBuckets;
   };
   runId: string;
 };
 
+// A page with a timestamp but an empty value column.
+export type MissingReading = {
+  pageId: string;
+  date: string;
+  createdTime: string | null;
+};
+
+// One day's readings by schedule slot (index-aligned with the schedule).
 export type GroupedEntries = {
   date: string;
-  am: Entry[];
-  pm: Entry[];
+  slots: Entry[][];
+  unscheduled: Entry[];
 };
 
 // Parse a Notion page into a normalized entry.
-export function parseEntry(page: BloodSugarNotionPage): Entry | null {
+// `inputUnit` applies to readings whose Unit column is empty.
+export function parseEntry(
+  page: BloodSugarNotionPage,
+  propertyMap = DEFAULT_PROPERTY_MAP,
+  inputUnit: GlucoseUnit = CANONICAL_UNIT,
+): Entry | null {
   // Normalize a Notion page into the minimal shape used by the report.
   const props = page.properties ?? {};
-  const value = props["Blood Sugar Level"]?.number ?? null;
-  const createdProp = props["Created time"];
-  const createdTimeRaw = isCreatedTimeProperty(createdProp)
-    ? createdProp.created_time
-    : isTextProperty(createdProp)
-    ? createdProp.rich_text?.[0]?.plain_text ?? null
-    : null;
-  if (!createdTimeRaw || typeof value !== "number") return null;
+  const rawValue = readNumberProperty(props[propertyMap.value.name]);
+  // Prefer the backdated measurement time when present, otherwise when the page was created.
+  const createdTimeRaw = readTimestampProperty(props[propertyMap.measuredAt.name]) ??
+    readTimestampProperty(props[propertyMap.timestamp.name]);
+  if (!createdTimeRaw || typeof rawValue !== "number") return null;
   const date = extractDate(createdTimeRaw);
   if (!date) return null;
   const createdTime = formatCreatedTime(createdTimeRaw);
-  return { date, createdTime, value };
+  const unit = parseGlucoseUnit(readTextProperty(props[propertyMap.unit.name])) ?? inputUnit;
+  const value = toMgdl(rawValue, unit);
+  const context = parseReadingContext(readTextProperty(props[propertyMap.context.name]));
+  return { pageId: page.id, date, createdTime, value, context, recordedAt: createdTimeRaw };
+}
+
+// A page that is dated but has no value, so parseEntry skipped it; null for anything else.
+export function parseMissingReading(page: BloodSugarNotionPage, propertyMap = DEFAULT_PROPERTY_MAP): MissingReading | null {
+  const props = page.properties ?? {};
+  if (readNumberProperty(props[propertyMap.value.name]) !== null) return null;
+  const createdTimeRaw = readTimestampProperty(props[propertyMap.measuredAt.name]) ??
+    readTimestampProperty(props[propertyMap.timestamp.name]);
+  const date = createdTimeRaw ? extractDate(createdTimeRaw) : null;
+  if (!createdTimeRaw || !date) return null;
+  return { pageId: page.id, date, createdTime: formatCreatedTime(createdTimeRaw) };
 }
 
 function extractDate(value: string): string | null {
   const trimmed = value.trim();
+  // Date-only values (a Notion date without a time) are already local days.
+  if (DATE_ONLY_PATTERN.test(trimmed)) return trimmed;
   const textMatch = trimmed.match(
     /^(January|February|March|April|May|June|July|August|September|October|November|December)\s+(\d{1,2}),\s*(\d{4})\s+(\d{1,2}):(\d{2})\s*([AP]M)$/i,
   );
@@ -104,6 +218,7 @@ function extractDate(value: string): string | null {
 export function formatCreatedTime(value: string | null): string | null {
   if (!value) return null;
   const trimmed = value.trim();
+  if (DATE_ONLY_PATTERN.test(trimmed)) return null;
   const timeMatch = trimmed.match(/(\d{1,2}:\d{2}\s*[AP]M)/i);
   if (timeMatch) {
     return timeMatch[1].toUpperCase().replace(/\s+/, " ");
@@ -132,37 +247,61 @@ function formatDateInTimeZone(date: Date, timeZone: string): string {
   return `${lookup.year}-${lookup.month}-${lookup.day}`;
 }
 
-// Perfect streak means 2+ readings per day for a full week.
-export function hasPerfectWeekStreak(dateRange: string[], dateCounts: Record<string, number>): boolean {
-  return dateRange.length >= 7 && dateRange.every((date) => (dateCounts[date] ?? 0) >= 2);
-}
-
-// XP is weighted by streak and healthy average bonuses.
-export function calculateXp(totalCount: number, avg: number, perfectWeekStreak: boolean): number {
-  const baseXp = totalCount * XP_PER_ENTRY;
-  if (baseXp === 0) return 0;
-  const streakBonus = perfectWeekStreak ? STREAK_BONUS_MULTIPLIER : 1;
-  const healthyAvgBonus = avg > 0 && avg < HEALTHY_AVG_THRESHOLD ? HEALTHY_AVG_BONUS_MULTIPLIER : 1;
-  return Math.round(baseXp * streakBonus * healthyAvgBonus);
+// Perfect streak means every slot filled on every day of a full week; pass filled slots per date.
+export function hasPerfectWeekStreak(
+  dateRange: string[],
+  dateCounts: Record<string, number>,
+  slotsPerDay = EXPECTED_READINGS_PER_DAY,
+): boolean {
+  return dateRange.length >= 7 && dateRange.every((date) => (dateCounts[date] ?? 0) >= slotsPerDay);
 }
 
 // Build the weekly rollup stored in SQLite.
-export function buildBloodSugarRollup(entries: Entry[], start: string, end: string): BloodSugarRollup {
+export function buildBloodSugarRollup(
+  entries: Entry[],
+  start: string,
+  end: string,
+  options: BloodSugarRollupOptions = {},
+): BloodSugarRollup {
   const values = entries.map((entry) => entry.value);
   const count = values.length;
+  const timeOrdered = sortByRecordedAt(entries).map((entry) => entry.value);
   const avg = count ? Math.round((values.reduce((a, b) => a + b, 0) / count) * 10) / 10 : 0;
   const min = count ? Math.min(...values) : 0;
   const max = count ? Math.max(...values) : 0;
 
   const dateCounts = countEntriesByDate(entries);
   const dateRange = listDateRange(start, end);
-  const expected = dateRange.length * 2;
-  const missing = Math.max(0, expected - count);
-  const completionRate = expected ? Math.round((count / expected) * 100) : 0;
-  const currentStreak = calculateCurrentStreak(dateRange, dateCounts);
-  const perfectWeekStreak = hasPerfectWeekStreak(dateRange, dateCounts);
-  const badges = buildBadges(dateRange, dateCounts, count, avg, perfectWeekStreak);
-  const xp = calculateXp(count, avg, perfectWeekStreak);
+  const schedule = options.schedule ?? DEFAULT_READING_SCHEDULE;
+  const { slotsByDate, missingBySlot } = countFilledSlots(groupEntriesByDate(entries, dateRange, schedule), schedule);
+  const filled = Object.values(slotsByDate).reduce((sum, slots) => sum + slots, 0);
+  const expected = dateRange.length * schedule.length;
+  const missing = Math.max(0, expected - filled);
+  const completionRate = expected ? Math.round((filled / expected) * 100) : 0;
+  const { current: currentStreak, longest, beforeWeek } = calculateAllTimeStreaks(options.history ?? [], dateCounts, start, end);
+  const perfectWeekStreak = hasPerfectWeekStreak(dateRange, slotsByDate, schedule.length);
+  const stats: BloodSugarRollup["stats"] = {
+    totalEntries: count,
+    avg,
+    min,
+    max,
+    entriesByDate: dateCounts,
+    longestStreak: longest,
+    streakBeforeWeek: beforeWeek,
+    expected,
+    missing,
+    slotsPerDay: schedule.length,
+    slotsByDate,
+    missingBySlot,
+    byContext: summarizeContexts(entries, options.contextTargets ?? DEFAULT_CONTEXT_TARGETS),
+    timeInRange: buildTimeInRange(values, options.timeInRangeThresholds ?? DEFAULT_TIME_IN_RANGE_THRESHOLDS),
+    variability: buildVariability(timeOrdered),
+    byHour: buildHourBuckets(entries.map((entry) => ({ hour: getReadingHour(entry.createdTime), value: entry.value }))),
+  };
+  const { xp, badges } = evaluateRewards(
+    options.rewardRules ?? BLOOD_SUGAR_REWARD_RULES,
+    collectRewardFacts({ streak: currentStreak, completionRate, stats }, { perfectWeek: perfectWeekStreak }),
+  );
 
   return {
     category: "blood_sugar",
@@ -172,33 +311,24 @@ export function buildBloodSugarRollup(entries: Entry[], start: string, end: stri
     completionRate,
     xp,
     badges,
-    stats: {
-      totalEntries: count,
-      avg,
-      min,
-      max,
-      entriesByDate: dateCounts,
-      expected,
-      missing,
-    },
-    runId: `blood_sugar-${start}-${end}`,
+    stats,
+    runId: buildRunId("blood_sugar", start, end),
   };
 }
 
-// Decide which badges to award for the week.
-export function buildBadges(
-  _dateRange: string[],
-  _dateCounts: Record<string, number>,
-  totalCount: number,
-  avg: number,
-  perfectWeekStreak: boolean,
-): string[] {
-  const badges: string[] = [];
-  if (totalCount >= 7) badges.push("Mandy-Mode Consistency");
-  if (totalCount >= 14) badges.push("Cage Match: Full Week");
-  if (perfectWeekStreak) badges.push("Cage Match: Double-Check Champion");
-  if (avg > 0 && avg < HEALTHY_AVG_THRESHOLD) badges.push("National Treasure: Healthy Average");
-  return badges;
+// Time order by the reading's own timestamp; readings without one keep their fetched order at the end.
+export function sortByRecordedAt<T extends Pick<Entry, "recordedAt">>(readings: T[]): T[] {
+  return readings
+    .map((entry, index) => ({ entry, index }))
+    .sort((a, b) => {
+      const aTime = a.entry.recordedAt ? Date.parse(a.entry.recordedAt) : Number.NaN;
+      const bTime = b.entry.recordedAt ? Date.parse(b.entry.recordedAt) : Number.NaN;
+      if (Number.isNaN(aTime) && Number.isNaN(bTime)) return a.index - b.index;
+      if (Number.isNaN(aTime)) return 1;
+      if (Number.isNaN(bTime)) return -1;
+      return aTime - bTime || a.index - b.index;
+    })
+    .map(({ entry }) => entry);
 }
 
 // Short motivational copy for emails.
@@ -210,82 +340,46 @@ export function buildEncouragement(completionRate: number, streak: number): stri
   return "Every entry helps — you’ve got this.";
 }
 
-// Group entries into a per-day AM/PM structure for reports.
-export function groupEntriesByDate(entries: Entry[], dateRange: string[]): GroupedEntries[] {
-  // Bucket entries by date and AM/PM for consistent report formatting.
-  const buckets: Record<string, { am: Entry[]; pm: Entry[] }> = {};
-  for (const date of dateRange) {
-    buckets[date] = { am: [], pm: [] };
-  }
-  for (const entry of entries) {
-    if (!buckets[entry.date]) {
-      buckets[entry.date] = { am: [], pm: [] };
-    }
-    const meridiem = getMeridiem(entry.createdTime);
-    if (meridiem === "AM") {
-      buckets[entry.date].am.push(entry);
-    } else if (meridiem === "PM") {
-      buckets[entry.date].pm.push(entry);
-    } else {
-      buckets[entry.date].pm.push(entry);
-    }
-  }
+// Group entries into per-day schedule slots for reports.
+export function groupEntriesByDate(
+  entries: Entry[],
+  dateRange: string[],
+  schedule: ReadingSchedule = DEFAULT_READING_SCHEDULE,
+): GroupedEntries[] {
+  const byDate: Record<string, Entry[]> = {};
+  for (const entry of entries) (byDate[entry.date] ??= []).push(entry);
   return dateRange.map((date) => ({
     date,
-    am: buckets[date]?.am ?? [],
-    pm: buckets[date]?.pm ?? [],
+    ...assignSlots(orderEntries(byDate[date] ?? []), (entry) => parseTimeToMinutes(entry.createdTime), schedule),
   }));
 }
 
-// Format a single line of the daily summary table.
-export function formatGroupedEntryLine(group: GroupedEntries): string {
-  const [first, second] = formatFirstSecondText(group);
-  return `${group.date} | 1st: ${first} | 2nd: ${second}`;
-}
-
-// Type guard for Notion created_time fields.
-export function isCreatedTimeProperty(value: unknown): value is NotionCreatedTimeProperty {
-  return (
-    !!value &&
-    typeof value === "object" &&
-    "created_time" in value &&
-    typeof (value as { created_time?: unknown }).created_time === "string"
-  );
+// Format a single line of the daily summary table, e.g. "2026-01-01 | 1st: 90 | 2nd: 110 (+1)".
+export function formatGroupedEntryLine(
+  group: GroupedEntries,
+  unit: GlucoseUnit = CANONICAL_UNIT,
+  schedule: ReadingSchedule = DEFAULT_READING_SCHEDULE,
+): string {
+  const cells = formatSlotCells(group, unit);
+  const slots = schedule.map((slot, index) => `${slot.label}: ${cells[index]}`);
+  const other = group.unscheduled.length ? [`Other: ${cells[schedule.length]}`] : [];
+  return [group.date, ...slots, ...other].join(" | ");
 }
 
-// Type guard for Notion rich_text fields.
-export function isTextProperty(value: unknown): value is NotionTextProperty {
-  return (
-    !!value &&
-    typeof value === "object" &&
-    "rich_text" in value &&
-    Array.isArray((value as { rich_text?: unknown }).rich_text)
-  );
-}
-
-// Extract AM/PM from a time string if possible.
-function getMeridiem(value: string | null): "AM" | "PM" | null {
-  if (!value) return null;
-  const match = value.match(/\b(AM|PM)\b/i);
-  if (!match) return null;
-  return match[1].toUpperCase() as "AM" | "PM";
-}
-
-// Pick the first two readings (with an overflow indicator).
-function formatFirstSecondText(group: GroupedEntries): [string, string] {
-  const ordered = orderEntries(group);
-  if (!ordered.length) return ["—", "—"];
-  const first = String(ordered[0].value);
-  if (ordered.length === 1) return [first, "—"];
-  const secondValue = String(ordered[1].value);
-  const overflow = ordered.length > 2 ? ` (+${ordered.length - 2})` : "";
-  return [first, `${secondValue}${overflow}`];
+// One cell per slot (first reading plus an overflow count), then the unscheduled readings.
+export function formatSlotCells(group: GroupedEntries, unit: GlucoseUnit): string[] {
+  const cells = group.slots.map((readings) => {
+    if (!readings.length) return "—";
+    const overflow = readings.length > 1 ? ` (+${readings.length - 1})` : "";
+    return `${formatReading(readings[0].value, unit)}${overflow}`;
+  });
+  const other = group.unscheduled.map((entry) => formatReading(entry.value, unit)).join(", ");
+  return [...cells, other || "—"];
 }
 
 // Order entries by time when present (unknown times go last).
-function orderEntries(group: GroupedEntries): Entry[] {
-  const combined = [...group.am, ...group.pm];
-  return combined.sort((a, b) => {
+function orderEntries(entries: Entry[]): Entry[] {
+  return [...entries].sort((a, b) => {
     const aMinutes = parseTimeToMinutes(a.createdTime);
     const bMinutes = parseTimeToMinutes(b.createdTime);
     if (aMinutes === null && bMinutes === null) return 0;
@@ -295,6 +389,12 @@ function orderEntries(group: GroupedEntries): Entry[] {
   });
 }
 
+// Local hour (0–23) of a formatted time like "7:45 PM"; null for date-only readings.
+export function getReadingHour(createdTime: string | null): number | null {
+  const minutes = parseTimeToMinutes(createdTime);
+  return minutes === null ? null : Math.floor(minutes / 60);
+}
+
 // Convert "h:mm AM/PM" into minutes since midnight.
 function parseTimeToMinutes(value: string | null): number | null {
   if (!value) return null;
@@ -307,3 +407,17 @@ function parseTimeToMinutes(value: string | null): number | null {
   if (meridiem === "AM" && hours === 12) hours = 0;
   return hours * 60 + minutes;
 }
+
+// Filled slots per date (dates with none are left out, like entriesByDate) and days each slot was missed.
+function countFilledSlots(groups: GroupedEntries[], schedule: ReadingSchedule) {
+  const slotsByDate: Record<string, number> = {};
+  const missingBySlot: Record<string, number> = Object.fromEntries(schedule.map((slot) => [slot.label, 0]));
+  for (const group of groups) {
+    const filled = group.slots.filter((readings) => readings.length > 0).length;
+    if (filled) slotsByDate[group.date] = filled;
+    group.slots.forEach((readings, index) => {
+      if (!readings.length) missingBySlot[schedule[index].label] += 1;
+    });
+  }
+  return { slotsByDate, missingBySlot };
+}
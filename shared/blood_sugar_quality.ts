@@ -0,0 +1,148 @@
+import { type Entry, type MissingReading, sortByRecordedAt } from "./blood_sugar_logic.ts";
+import {
+  CANONICAL_UNIT,
+  formatGlucoseRange,
+  formatReading,
+  type GlucoseUnit,
+  loadDisplayUnit,
+  toMgdl,
+} from "./glucose_units.ts";
+import { type DataQualityIssue, type EntryReview } from "./tracker.ts";
+
+// Data-quality pass over a week of readings: double-tapped entries, impossible values, and pages with no value.
+
+export type QualityIssueKind = "duplicate" | "implausible" | "missing_value";
+
+// Values in mg/dL. Flagged readings are listed either way; `exclude*` decides whether they still count.
+export type DataQualityConfig = {
+  duplicateMinutes: number;
+  duplicateTolerance: number;
+  min: number;
+  max: number;
+  excludeDuplicates: boolean;
+  excludeImplausible: boolean;
+};
+
+// Most meters read 20–600 mg/dL; two readings 5 minutes apart within 10 mg/dL are almost always one check.
+export const DEFAULT_DATA_QUALITY_CONFIG: DataQualityConfig = {
+  duplicateMinutes: 5,
+  duplicateTolerance: 10,
+  min: 20,
+  max: 600,
+  excludeDuplicates: true,
+  excludeImplausible: true,
+};
+
+const GLUCOSE_KEYS = ["duplicateTolerance", "min", "max"] as const;
+const BOOLEAN_KEYS = ["excludeDuplicates", "excludeImplausible"] as const;
+
+// Load overrides from JSON with glucose values in the display unit, e.g. {"max": 500, "excludeDuplicates": false}.
+export function loadDataQualityConfig(): DataQualityConfig {
+  const raw = Deno.env.get("BLOOD_SUGAR_DATA_QUALITY");
+  if (!raw) return DEFAULT_DATA_QUALITY_CONFIG;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error("BLOOD_SUGAR_DATA_QUALITY must be a JSON object like {\"max\": 500}.");
+  }
+  return mergeDataQualityConfig(parsed, DEFAULT_DATA_QUALITY_CONFIG, loadDisplayUnit());
+}
+
+// Glucose overrides are given in `unit` and stored as mg/dL.
+export function mergeDataQualityConfig(
+  overrides: unknown,
+  defaults: DataQualityConfig,
+  unit: GlucoseUnit = CANONICAL_UNIT,
+): DataQualityConfig {
+  if (!overrides || typeof overrides !== "object" || Array.isArray(overrides)) {
+    throw new Error("BLOOD_SUGAR_DATA_QUALITY must be a JSON object like {\"max\": 500}.");
+  }
+  const merged = { ...defaults };
+  for (const [key, value] of Object.entries(overrides as Record<string, unknown>)) {
+    if ((BOOLEAN_KEYS as readonly string[]).includes(key)) {
+      if (typeof value !== "boolean") throw new Error(`BLOOD_SUGAR_DATA_QUALITY "${key}" must be true or false.`);
+      merged[key as typeof BOOLEAN_KEYS[number]] = value;
+      continue;
+    }
+    if (!(key in defaults)) {
+      throw new Error(
+        `BLOOD_SUGAR_DATA_QUALITY has unknown key "${key}". Expected one of: ${Object.keys(defaults).join(", ")}.`,
+      );
+    }
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+      throw new Error(`BLOOD_SUGAR_DATA_QUALITY "${key}" must be a non-negative number.`);
+    }
+    const isGlucose = (GLUCOSE_KEYS as readonly string[]).includes(key);
+    merged[key as "duplicateMinutes" | typeof GLUCOSE_KEYS[number]] = isGlucose ? toMgdl(value, unit) : value;
+  }
+  if (merged.min >= merged.max) throw new Error("BLOOD_SUGAR_DATA_QUALITY must satisfy min < max.");
+  return merged;
+}
+
+// Flag implausible values first, then near-duplicates among the remaining timed readings (the first one stays).
+export function reviewReadings(
+  entries: Entry[],
+  missing: MissingReading[] = [],
+  config: DataQualityConfig = DEFAULT_DATA_QUALITY_CONFIG,
+  unit: GlucoseUnit = CANONICAL_UNIT,
+): EntryReview<Entry> {
+  const issues: DataQualityIssue[] = [];
+  const excluded = new Set<Entry>();
+  const flag = (entry: Entry, kind: QualityIssueKind, detail: string, exclude: boolean) => {
+    issues.push({ pageId: entry.pageId ?? "", date: entry.date, kind, detail, excluded: exclude });
+    if (exclude) excluded.add(entry);
+  };
+
+  const plausible: Entry[] = [];
+  for (const entry of entries) {
+    if (entry.value >= config.min && entry.value <= config.max) {
+      plausible.push(entry);
+      continue;
+    }
+    flag(
+      entry,
+      "implausible",
+      `${describeReading(entry, unit)} is outside the plausible ${formatGlucoseRange(config.min, config.max, unit)} ${unit}`,
+      config.excludeImplausible,
+    );
+  }
+
+  const timed = sortByRecordedAt(plausible.filter((entry) => entry.createdTime && entry.recordedAt));
+  for (let index = 1; index < timed.length; index += 1) {
+    const previous = timed[index - 1];
+    const entry = timed[index];
+    const minutesApart = (Date.parse(entry.recordedAt as string) - Date.parse(previous.recordedAt as string)) / 60_000;
+    if (!(minutesApart >= 0 && minutesApart <= config.duplicateMinutes)) continue;
+    if (Math.abs(entry.value - previous.value) > config.duplicateTolerance) continue;
+    flag(
+      entry,
+      "duplicate",
+      `${describeReading(entry, unit)} looks like a repeat of ${describeReading(previous, unit)}`,
+      config.excludeDuplicates,
+    );
+  }
+
+  for (const reading of missing) {
+    issues.push({
+      pageId: reading.pageId,
+      date: reading.date,
+      kind: "missing_value",
+      detail: `No value entered${reading.createdTime ? ` at ${reading.createdTime}` : ""}`,
+      excluded: false,
+    });
+  }
+
+  issues.sort((a, b) => (a.date ?? "").localeCompare(b.date ?? ""));
+  return { entries: entries.filter((entry) => !excluded.has(entry)), issues };
+}
+
+// e.g. "2026-01-05: 1120 mg/dL at 8:02 AM is outside the plausible 20–600 mg/dL (excluded from stats)".
+export function formatQualityLine(issue: DataQualityIssue): string {
+  return `${issue.date ?? "Unknown date"}: ${issue.detail}${issue.excluded ? " (excluded from stats)" : ""}`;
+}
+
+function describeReading(entry: Entry, unit: GlucoseUnit): string {
+  const value = `${formatReading(entry.value, unit)} ${unit}`;
+  return entry.createdTime ? `${value} at ${entry.createdTime}` : value;
+}
@@ -0,0 +1,613 @@
+import { type BadgeAward, formatBadgeHighlight, selectNewAwards } from "./badge_history.ts";
+import { formatQualityLine } from "./blood_sugar_quality.ts";
+import { listDateRange } from "./date.ts";
+import {
+  buildGlucoseTrend,
+  formatChange,
+  formatEstimateLine,
+  type GlucoseEstimateTrend,
+} from "./glucose_estimate.ts";
+import {
+  formatMage,
+  formatVariabilityLines,
+  type GlycemicVariability,
+  VARIABILITY_EXPLANATIONS,
+} from "./glycemic_variability.ts";
+import { CANONICAL_UNIT, formatGlucose, formatGlucoseRange, fromMgdl, type GlucoseUnit } from "./glucose_units.ts";
+import { type Rollup } from "./monthly_report.ts";
+import {
+  buildRollupStats,
+  bulletedListBlocks,
+  headingBlock,
+  paragraphBlock,
+  tableBlock,
+  type WeeklyNotionReport,
+} from "./notion_report.ts";
+import {
+  buildEncouragement,
+  buildBloodSugarRollup,
+  type BloodSugarRollup,
+  type Entry,
+  formatGroupedEntryLine,
+  formatSlotCells,
+  type GroupedEntries,
+  groupEntriesByDate,
+  hasPerfectWeekStreak,
+} from "./blood_sugar_logic.ts";
+import { escapeHtml } from "./html.ts";
+import { DEFAULT_READING_SCHEDULE, formatSlotLabel, type ReadingSchedule } from "./reading_schedule.ts";
+import { type DataQualityIssue, formatDays } from "./tracker.ts";
+import {
+  CONTEXT_LABELS,
+  type ContextStatsMap,
+  formatContextLine,
+  READING_CONTEXTS,
+} from "./reading_context.ts";
+import {
+  collectPatternBuckets,
+  detectPatterns,
+  formatPatternLine,
+  PATTERN_WINDOW_DAYS,
+} from "./time_of_day.ts";
+import {
+  formatTimeInRangeLine,
+  TIME_IN_RANGE_BANDS,
+  TIME_IN_RANGE_COLORS,
+  TIME_IN_RANGE_LABELS,
+  type TimeInRange,
+} from "./time_in_range.ts";
+import {
+  BASELINE_WEEKS,
+  buildWeekComparison,
+  COMPARISON_LABELS,
+  formatComparisonLine,
+  formatDelta,
+  type WeekComparison,
+} from "./week_comparison.ts";
+import { formatLevelLine, formatLevelUp, type LevelUpdate } from "./xp_levels.ts";
+
+export const DISCLAIMER =
+  "Not medical advice. Educational info only. Source: https://www.ynhhs.org/articles/what-is-healthy-blood-sugar";
+
+export type BloodSugarReportOptions = {
+  // Stored rollups before this week, used for the 90-day A1C estimate and the week-over-week comparison.
+  history?: Rollup[];
+  // Display unit; entries and rollups stay in mg/dL.
+  unit?: GlucoseUnit;
+  // Slots for the entries table; should match the schedule the rollup was built with.
+  schedule?: ReadingSchedule;
+  // Issues from the data-quality pass; the section is left out when this isn't given.
+  quality?: DataQualityIssue[];
+  // This week's badges classified against the badge history; first-ever and comeback ones are highlighted.
+  awards?: BadgeAward[];
+  // Lifetime XP levels before and after this week; adds level lines and a level-up callout.
+  levels?: LevelUpdate;
+};
+
+// Weekly blood sugar email (plain text + HTML) built from a rollup and its entries.
+export function buildReport(
+  entries: Entry[],
+  start: string,
+  end: string,
+  rollup: BloodSugarRollup = buildBloodSugarRollup(entries, start, end),
+  options: BloodSugarReportOptions = {},
+) {
+  const unit = options.unit ?? CANONICAL_UNIT;
+  const schedule = options.schedule ?? DEFAULT_READING_SCHEDULE;
+  // Compute summary stats and derive copy for email-friendly output.
+  const subject = `Blood Sugar Weekly Rollup (${start} → ${end})`;
+  const dateRange = listDateRange(start, end);
+  const groupedEntries = groupEntriesByDate(entries, dateRange, schedule);
+  const perfectWeekStreak = hasPerfectWeekStreak(dateRange, rollup.stats.slotsByDate, rollup.stats.slotsPerDay);
+  const encouragement = buildEncouragement(rollup.completionRate, rollup.streak);
+  const contextLines = formatContextLines(rollup.stats.byContext, unit);
+  const estimate = buildGlucoseTrend([...(options.history ?? []), rollup], end);
+  const patternLines = detectPatterns(collectPatternBuckets([...(options.history ?? []), rollup], end))
+    .map((pattern) => formatPatternLine(pattern, unit));
+  const qualityLines = options.quality?.map(formatQualityLine);
+  const comparison = buildWeekComparison(rollup, options.history ?? []);
+  const newAwards = selectNewAwards(options.awards ?? []);
+  const levelChanges = options.levels ? [options.levels.category, options.levels.overall] : [];
+  const levelUps = levelChanges.filter((change) => change.leveledUp).map(formatLevelUp);
+
+  const lines = [
+    `Range: ${start} to ${end}`,
+    `Units: ${unit}`,
+    `Entries: ${rollup.stats.totalEntries} (expected ${rollup.stats.expected}, missing ${rollup.stats.missing})`,
+    formatMissedSlotsLine(rollup.stats.missingBySlot),
+    `Average: ${formatGlucose(rollup.stats.avg, unit)}`,
+    `Min: ${formatGlucose(rollup.stats.min, unit)}`,
+    `Max: ${formatGlucose(rollup.stats.max, unit)}`,
+    formatTimeInRangeLine(rollup.stats.timeInRange, unit),
+    "Variability:",
+    ...formatVariabilityLines(rollup.stats.variability, unit).map((line) => `- ${line}`),
+    `Completion: ${rollup.completionRate}%`,
+    `Current streak: ${rollup.streak} day${rollup.streak === 1 ? "" : "s"}`,
+    `Longest streak (all-time): ${formatDays(rollup.stats.longestStreak)}`,
+    `Perfect week streak: ${perfectWeekStreak ? "Yes" : "No"}`,
+    `XP earned: ${rollup.xp}`,
+    ...levelChanges.map((change) => `${change.label} level: ${formatLevelLine(change.after)}`),
+    ...levelUps,
+    `Badges: ${rollup.badges.length ? rollup.badges.join(", ") : "No badges yet"}`,
+    ...(newAwards.length ? ["New badges:", ...newAwards.map((award) => `- ${formatBadgeHighlight(award)}`)] : []),
+    `Compared with last week and the ${BASELINE_WEEKS}-week average:`,
+    ...(comparison.baselineWeeks
+      ? comparison.metrics.map((metric) => formatComparisonLine(metric, unit))
+      : ["No earlier weeks stored yet"]).map((line) => `- ${line}`),
+    ...(contextLines.length ? ["By context:", ...contextLines.map((line) => `- ${line}`)] : []),
+    `Patterns noticed (last ${PATTERN_WINDOW_DAYS / 7} weeks):`,
+    ...(patternLines.length ? patternLines : ["None so far"]).map((line) => `- ${line}`),
+    ...(qualityLines
+      ? ["Data quality:", ...(qualityLines.length ? qualityLines : ["No issues found"]).map((line) => `- ${line}`)]
+      : []),
+    `Encouragement: ${encouragement}`,
+    formatEstimateLine(estimate, unit),
+    `Disclaimer: ${DISCLAIMER}`,
+    "",
+    "Entries:",
+    ...groupedEntries.map((group) => formatGroupedEntryLine(group, unit, schedule)),
+  ];
+
+  const text = lines.join("\n");
+  const html = renderHtmlReport(groupedEntries, {
+    schedule,
+    missingBySlot: rollup.stats.missingBySlot,
+    start,
+    end,
+    count: rollup.stats.totalEntries,
+    expected: rollup.stats.expected,
+    missing: rollup.stats.missing,
+    avg: fromMgdl(rollup.stats.avg, unit),
+    min: fromMgdl(rollup.stats.min, unit),
+    max: fromMgdl(rollup.stats.max, unit),
+    completionRate: rollup.completionRate,
+    currentStreak: rollup.streak,
+    longestStreak: rollup.stats.longestStreak,
+    badges: rollup.badges,
+    newAwards,
+    levelLines: levelChanges.map((change) => `${change.label}: ${formatLevelLine(change.after)}`),
+    levelUps,
+    encouragement,
+    disclaimer: DISCLAIMER,
+    xp: rollup.xp,
+    perfectWeekStreak,
+    byContext: rollup.stats.byContext,
+    timeInRange: rollup.stats.timeInRange,
+    variability: rollup.stats.variability,
+    patterns: patternLines,
+    quality: qualityLines,
+    comparison,
+    estimate,
+    unit,
+  });
+
+  return { subject, text, html, rollup };
+}
+
+// Weekly report page for the Notion "Weekly Reports" database.
+export function buildNotionReport(
+  entries: Entry[],
+  start: string,
+  end: string,
+  rollup: BloodSugarRollup = buildBloodSugarRollup(entries, start, end),
+  options: Pick<BloodSugarReportOptions, "unit" | "schedule"> = {},
+): WeeklyNotionReport {
+  const unit = options.unit ?? CANONICAL_UNIT;
+  const schedule = options.schedule ?? DEFAULT_READING_SCHEDULE;
+  const groupedEntries = groupEntriesByDate(entries, listDateRange(start, end), schedule);
+  const columns = buildSlotColumns(groupedEntries, schedule);
+  const contextLines = formatContextLines(rollup.stats.byContext, unit);
+  return {
+    title: `Blood Sugar ${start} → ${end}`,
+    stats: {
+      ...buildRollupStats(rollup),
+      Entries: rollup.stats.totalEntries,
+      Average: fromMgdl(rollup.stats.avg, unit),
+      Min: fromMgdl(rollup.stats.min, unit),
+      Max: fromMgdl(rollup.stats.max, unit),
+      "Time in Range": rollup.stats.timeInRange.percents.inRange,
+    },
+    blocks: [
+      headingBlock(`Daily readings (${unit})`),
+      tableBlock(
+        ["Date", ...columns.headers],
+        groupedEntries.map((group) => [group.date, ...formatSlotCells(group, unit).slice(0, columns.count)]),
+      ),
+      paragraphBlock(formatTimeInRangeLine(rollup.stats.timeInRange, unit)),
+      ...(contextLines.length ? [headingBlock("By reading context"), ...bulletedListBlocks(contextLines)] : []),
+      headingBlock("Variability"),
+      ...bulletedListBlocks(formatVariabilityLines(rollup.stats.variability, unit)),
+      headingBlock("Badges"),
+      ...(rollup.badges.length ? bulletedListBlocks(rollup.badges) : [paragraphBlock("No badges yet")]),
+      headingBlock("Encouragement"),
+      paragraphBlock(buildEncouragement(rollup.completionRate, rollup.streak)),
+      paragraphBlock(DISCLAIMER),
+    ],
+  };
+}
+
+// One line per tagged context, in a fixed order; empty when nothing is tagged.
+function formatContextLines(byContext: ContextStatsMap, unit: GlucoseUnit): string[] {
+  return READING_CONTEXTS.flatMap((context) => {
+    const stats = byContext[context];
+    return stats ? [formatContextLine(context, stats, unit)] : [];
+  });
+}
+
+// Header per slot, plus "Other" only when some reading fell outside every timed slot.
+function buildSlotColumns(groups: GroupedEntries[], schedule: ReadingSchedule) {
+  const hasOther = groups.some((group) => group.unscheduled.length > 0);
+  const headers = [...schedule.map(formatSlotLabel), ...(hasOther ? ["Other"] : [])];
+  return { headers, count: headers.length };
+}
+
+// e.g. "Missed slots: Fasting 2 days, Bedtime 1 day" (or "none").
+function formatMissedSlotsLine(missingBySlot: Record<string, number> = {}): string {
+  const missed = Object.entries(missingBySlot)
+    .filter(([, days]) => days > 0)
+    .map(([label, days]) => `${label} ${days} day${days === 1 ? "" : "s"}`);
+  return `Missed slots: ${missed.length ? missed.join(", ") : "none"}`;
+}
+
+export function renderHtmlReport(
+  groupedEntries: GroupedEntries[],
+  stats: {
+    start: string;
+    end: string;
+    count: number;
+    expected: number;
+    missing: number;
+    avg: number;
+    min: number;
+    max: number;
+    completionRate: number;
+    currentStreak: number;
+    // All-time longest streak, shown under the current one.
+    longestStreak?: number;
+    badges: string[];
+    // First-ever and comeback awards, highlighted in the badge list.
+    newAwards?: BadgeAward[];
+    // Lifetime level lines and "Level up!" callouts.
+    levelLines?: string[];
+    levelUps?: string[];
+    encouragement: string;
+    disclaimer: string;
+    xp: number;
+    perfectWeekStreak: boolean;
+    byContext?: ContextStatsMap;
+    timeInRange?: TimeInRange;
+    variability?: GlycemicVariability;
+    // Pre-formatted "patterns noticed" lines across recent weeks.
+    patterns?: string[];
+    // Pre-formatted data-quality lines for the week.
+    quality?: string[];
+    comparison?: WeekComparison;
+    estimate?: GlucoseEstimateTrend;
+    // Unit the stats are already converted to; also used for readings, targets, and thresholds.
+    unit?: GlucoseUnit;
+    schedule?: ReadingSchedule;
+    missingBySlot?: Record<string, number>;
+  },
+): string {
+  const unit = stats.unit ?? CANONICAL_UNIT;
+  const columns = buildSlotColumns(groupedEntries, stats.schedule ?? DEFAULT_READING_SCHEDULE);
+  // Simple HTML table for quick scanning in email clients.
+  const rows = groupedEntries
+    .map((group) => {
+      const cells = [group.date, ...formatSlotCells(group, unit).slice(0, columns.count)]
+        .map((cell) =>
+          `<td style="padding: 6px; border-bottom: 1px solid #1f1b3a; font-size: 12px; word-break: break-word;">${escapeHtml(cell)}</td>`
+        )
+        .join("");
+      return `<tr>${cells}</tr>`;
+    })
+    .join("");
+
+  return `
+    <div style="font-family: Arial, Helvetica, sans-serif; line-height: 1.4; background: #f7f5ff; padding: 16px;">
+      <table style="width: 100%; border-collapse: collapse; background: #ffffff; border: 3px solid #1f1b3a; table-layout: fixed;">
+        <tr>
+          <td style="padding: 14px 16px; background: #ffdf3b; border-bottom: 3px solid #1f1b3a;">
+            <div style="font-size: 20px; font-weight: 800; letter-spacing: 0.5px;">Blood Sugar Weekly Rollup</div>
+            <div style="font-size: 12px; margin-top: 4px;">${stats.start} to ${stats.end} · ${unit}</div>
+          </td>
+        </tr>
+        <tr>
+          <td style="padding: 8px 16px; background: #1f1b3a; color: #ffffff; font-size: 12px; letter-spacing: 1px;">
+            🔺 🔷 〰️ 🟢 〰️ 🔶 〰️ 🟡 〰️ 🟣 🔺 🔵 〰️
+          </td>
+        </tr>
+        <tr>
+          <td style="padding: 16px;">
+            <table style="width: 100%; border-collapse: collapse;">
+              <tr>
+                <td style="padding: 8px;">
+                  <div style="background: #ff7a59; color: #1f1b3a; font-weight: 800; border: 2px solid #1f1b3a; border-radius: 14px; padding: 10px;">
+                    <div style="font-size: 11px; text-transform: uppercase; letter-spacing: 0.6px;">Avg</div>
+                    <div style="font-size: 18px;">${stats.avg}</div>
+                  </div>
+                </td>
+                <td style="padding: 8px;">
+                  <div style="background: #7dd3fc; color: #1f1b3a; font-weight: 800; border: 2px solid #1f1b3a; border-radius: 14px; padding: 10px;">
+                    <div style="font-size: 11px; text-transform: uppercase; letter-spacing: 0.6px;">Min</div>
+                    <div style="font-size: 18px;">${stats.min}</div>
+                  </div>
+                </td>
+                <td style="padding: 8px;">
+                  <div style="background: #a7f3d0; color: #1f1b3a; font-weight: 800; border: 2px solid #1f1b3a; border-radius: 14px; padding: 10px;">
+                    <div style="font-size: 11px; text-transform: uppercase; letter-spacing: 0.6px;">Max</div>
+                    <div style="font-size: 18px;">${stats.max}</div>
+                  </div>
+                </td>
+              </tr>
+            </table>
+            <table style="width: 100%; border-collapse: collapse; margin-top: 4px;">
+              <tr>
+                <td style="padding: 8px;">
+                  <div style="background: #f472b6; color: #1f1b3a; font-weight: 800; border: 2px solid #1f1b3a; border-radius: 999px; padding: 10px 12px;">
+                    <div style="font-size: 11px; text-transform: uppercase; letter-spacing: 0.6px;">Entries</div>
+                    <div style="font-size: 16px;">${stats.count}/${stats.expected}</div>
+                  </div>
+                </td>
+                <td style="padding: 8px;">
+                  <div style="background: #fde047; color: #1f1b3a; font-weight: 800; border: 2px solid #1f1b3a; border-radius: 999px; padding: 10px 12px;">
+                    <div style="font-size: 11px; text-transform: uppercase; letter-spacing: 0.6px;">Completion</div>
+                    <div style="font-size: 16px;">${stats.completionRate}%</div>
+                  </div>
+                </td>
+              </tr>
+              <tr>
+                <td style="padding: 8px;">
+                  <div style="background: #c4b5fd; color: #1f1b3a; font-weight: 800; border: 2px solid #1f1b3a; border-radius: 22px; padding: 10px 12px;">
+                    <div style="font-size: 11px; text-transform: uppercase; letter-spacing: 0.6px;">Streak</div>
+                    <div style="font-size: 16px;">${stats.currentStreak} day${stats.currentStreak === 1 ? "" : "s"}</div>
+                    ${stats.longestStreak !== undefined ? `<div style="font-size: 11px;">Longest: ${formatDays(stats.longestStreak)}</div>` : ""}
+                  </div>
+                </td>
+                <td style="padding: 8px;">
+                  <div style="background: #f9a8d4; color: #1f1b3a; font-weight: 800; border: 2px solid #1f1b3a; border-radius: 22px; padding: 10px 12px;">
+                    <div style="font-size: 11px; text-transform: uppercase; letter-spacing: 0.6px;">XP</div>
+                    <div style="font-size: 16px;">${stats.xp}</div>
+                  </div>
+                </td>
+              </tr>
+            </table>
+            ${renderLevels(stats.levelLines ?? [], stats.levelUps ?? [])}
+            ${stats.timeInRange ? renderTimeInRangeBar(stats.timeInRange, unit) : ""}
+            <div style="margin-top: 12px; padding: 10px; background: #e2e8f0; border: 2px dashed #1f1b3a;">
+              <strong>Perfect Week Streak:</strong> ${stats.perfectWeekStreak ? "Yes" : "No"}
+              ${stats.missingBySlot ? `<div style="font-size: 12px; margin-top: 4px;">${escapeHtml(formatMissedSlotsLine(stats.missingBySlot))}</div>` : ""}
+            </div>
+            ${stats.comparison ? renderComparisonTable(stats.comparison, unit) : ""}
+            ${renderContextTable(stats.byContext ?? {}, unit)}
+            ${stats.variability ? renderVariabilityTable(stats.variability, unit) : ""}
+            ${stats.patterns ? renderPatterns(stats.patterns) : ""}
+            ${stats.quality ? renderDataQuality(stats.quality) : ""}
+            <div style="margin-top: 10px;">
+              <strong>Badges:</strong>
+              <div style="margin-top: 6px;">
+                ${
+                  stats.badges.length
+                    ? stats.badges
+                        .map((badge) => {
+                          const award = stats.newAwards?.find((candidate) => candidate.badge === badge);
+                          const marker = award ? `${award.kind === "first" ? "NEW" : "BACK"} · ` : "";
+                          return `<span style="display: inline-block; margin: 4px 6px 0 0; padding: 6px 8px; background: ${award ? "#fde047" : "#ffffff"}; border: 2px solid #1f1b3a; font-weight: 700;">${marker}${escapeHtml(badge)}</span>`;
+                        })
+                        .join("")
+                    : `<span style="display: inline-block; margin-top: 4px;">No badges yet</span>`
+                }
+              </div>
+              ${
+                stats.newAwards?.length
+                  ? `<div style="margin-top: 6px; font-size: 12px;">${
+                    stats.newAwards.map((award) => escapeHtml(formatBadgeHighlight(award))).join("<br />")
+                  }</div>`
+                  : ""
+              }
+            </div>
+            <div style="margin-top: 12px; padding: 10px; background: #1f1b3a; color: #ffffff;">
+              ${escapeHtml(stats.encouragement)}
+            </div>
+            ${stats.estimate ? renderEstimate(stats.estimate, unit) : ""}
+            <div style="margin-top: 8px; font-size: 12px; color: #444444;">
+              ${escapeHtml(stats.disclaimer)}
+            </div>
+          </td>
+        </tr>
+        <tr>
+          <td style="padding: 12px 16px; background: #1f1b3a; color: #ffffff; font-weight: 700;">
+            Entries
+          </td>
+        </tr>
+        <tr>
+          <td style="padding: 0 16px 16px 16px;">
+            <table style="border-collapse: collapse; width: 100%; border: 2px solid #1f1b3a; table-layout: fixed;">
+              <thead>
+                <tr style="background: #ffdf3b;">
+                  ${
+    ["Date", ...columns.headers]
+      .map((header) =>
+        `<th style="text-align: left; border-bottom: 2px solid #1f1b3a; padding: 6px; font-size: 12px;">${escapeHtml(header)}</th>`
+      )
+      .join("")
+  }
+                </tr>
+              </thead>
+              <tbody>
+                ${rows || `<tr><td colspan="${columns.count + 1}" style="padding: 8px; font-size: 12px;">No entries</td></tr>`}
+              </tbody>
+            </table>
+          </td>
+        </tr>
+      </table>
+    </div>
+  `;
+}
+
+// Sits directly above the disclaimer: the estimate is never shown without it.
+function renderEstimate(trend: GlucoseEstimateTrend, unit: GlucoseUnit): string {
+  const { current } = trend;
+  if (!current) {
+    return `<div style="margin-top: 12px; font-size: 13px;"><strong>Estimated A1C:</strong> not enough history yet</div>`;
+  }
+  const limited = current.limitedData ? ` · limited data (${current.days} days)` : "";
+  return `<div style="margin-top: 12px; padding: 10px; background: #ffffff; border: 2px solid #1f1b3a;">
+              <div style="font-size: 11px; text-transform: uppercase; letter-spacing: 0.6px; font-weight: 800;">Estimated A1C (90 days)</div>
+              <div style="font-size: 18px; font-weight: 800;">${current.a1c}% <span style="font-size: 13px;">· GMI ${current.gmi}%</span></div>
+              <div style="font-size: 12px;">Mean ${formatGlucose(current.mean, unit)} ${unit} from ${current.readings} readings${limited} · ${
+    escapeHtml(formatChange(trend.a1cChange))
+  }</div>
+            </div>`;
+}
+
+// Email-safe stacked bar: one table row whose cell widths are the band percents.
+function renderTimeInRangeBar(tir: TimeInRange, unit: GlucoseUnit): string {
+  const visible = TIME_IN_RANGE_BANDS.filter((band) => tir.percents[band] > 0);
+  const title = `Time in range (${formatGlucoseRange(tir.thresholds.low, tir.thresholds.high, unit)})`;
+  if (!visible.length) {
+    return `<div style="margin-top: 12px;"><strong>${title}:</strong> no readings</div>`;
+  }
+  const cells = visible
+    .map((band) =>
+      `<td style="width: ${tir.percents[band]}%; height: 18px; padding: 0; background: ${TIME_IN_RANGE_COLORS[band]};" title="${
+        TIME_IN_RANGE_LABELS[band]
+      } ${tir.percents[band]}%"></td>`
+    )
+    .join("");
+  const legend = TIME_IN_RANGE_BANDS
+    .map((band) =>
+      `<span style="display: inline-block; margin: 4px 10px 0 0;"><span style="display: inline-block; width: 10px; height: 10px; border: 1px solid #1f1b3a; background: ${
+        TIME_IN_RANGE_COLORS[band]
+      };"></span> ${TIME_IN_RANGE_LABELS[band]} ${tir.percents[band]}%</span>`
+    )
+    .join("");
+  return `<div style="margin-top: 12px;">
+              <strong>${title}:</strong>
+              <table style="width: 100%; border-collapse: collapse; margin-top: 6px; border: 2px solid #1f1b3a; table-layout: fixed;">
+                <tr>${cells}</tr>
+              </table>
+              <div style="font-size: 12px; font-weight: 700;">${legend}</div>
+            </div>`;
+}
+
+function renderContextTable(byContext: ContextStatsMap, unit: GlucoseUnit): string {
+  const rows = READING_CONTEXTS.flatMap((context) => {
+    const stats = byContext[context];
+    if (!stats) return [];
+    const cells = [
+      CONTEXT_LABELS[context],
+      formatGlucose(stats.avg, unit),
+      formatGlucoseRange(stats.min, stats.max, unit),
+      formatGlucoseRange(stats.target.low, stats.target.high, unit),
+      `${stats.inRange}/${stats.count} (${stats.inRangeRate}%)`,
+    ];
+    return [`<tr>${
+      cells.map((cell) => `<td style="padding: 6px; border-bottom: 1px solid #1f1b3a; font-size: 12px;">${escapeHtml(cell)}</td>`)
+        .join("")
+    }</tr>`];
+  });
+  if (!rows.length) return "";
+  const headers = ["Context", "Avg", "Min–Max", "Target", "In range"]
+    .map((header) =>
+      `<th style="text-align: left; border-bottom: 2px solid #1f1b3a; padding: 6px; font-size: 12px;">${header}</th>`
+    )
+    .join("");
+  return `<div style="margin-top: 12px;">
+              <strong>By reading context:</strong>
+              <table style="border-collapse: collapse; width: 100%; margin-top: 6px; border: 2px solid #1f1b3a;">
+                <thead><tr style="background: #a7f3d0;">${headers}</tr></thead>
+                <tbody>${rows.join("")}</tbody>
+              </table>
+            </div>`;
+}
+
+function renderLevels(lines: string[], levelUps: string[]): string {
+  if (!lines.length) return "";
+  const callouts = levelUps
+    .map((line) =>
+      `<div style="margin-bottom: 6px; padding: 8px 10px; background: #fde047; border: 2px solid #1f1b3a; font-weight: 800;">🎉 ${escapeHtml(line)}</div>`
+    )
+    .join("");
+  return `<div style="margin-top: 12px;">
+              ${callouts}
+              <div style="font-size: 12px;">${lines.map(escapeHtml).join("<br />")}</div>
+            </div>`;
+}
+
+function renderComparisonTable(comparison: WeekComparison, unit: GlucoseUnit): string {
+  if (!comparison.baselineWeeks) {
+    return `<div style="margin-top: 12px;"><strong>Compared with earlier weeks:</strong> no earlier weeks stored yet</div>`;
+  }
+  const cell = (value: string) =>
+    `<td style="padding: 6px; border-bottom: 1px solid #1f1b3a; font-size: 12px;">${escapeHtml(value)}</td>`;
+  const rows = comparison.metrics
+    .map((metric) =>
+      `<tr>${
+        [
+          COMPARISON_LABELS[metric.metric],
+          metric.lastWeek === null ? "no data" : formatDelta(metric.metric, metric.lastWeekDelta, unit),
+          metric.baseline === null ? "no data" : formatDelta(metric.metric, metric.baselineDelta, unit),
+        ].map(cell).join("")
+      }</tr>`
+    )
+    .join("");
+  const headers = ["", "vs last week", `vs ${BASELINE_WEEKS}-week avg`]
+    .map((header) =>
+      `<th style="text-align: left; border-bottom: 2px solid #1f1b3a; padding: 6px; font-size: 12px;">${header}</th>`
+    )
+    .join("");
+  return `<div style="margin-top: 12px;">
+              <strong>Compared with earlier weeks:</strong>
+              <table style="border-collapse: collapse; width: 100%; margin-top: 6px; border: 2px solid #1f1b3a;">
+                <thead><tr>${headers}</tr></thead>
+                <tbody>${rows}</tbody>
+              </table>
+            </div>`;
+}
+
+// Each metric carries its plain-language meaning so the numbers read without a glossary.
+function renderVariabilityTable(variability: GlycemicVariability, unit: GlucoseUnit): string {
+  if (variability.count < 2) {
+    return `<div style="margin-top: 12px;"><strong>Variability:</strong> needs at least 2 readings</div>`;
+  }
+  const rows = [
+    ["SD", `${formatGlucose(variability.sd, unit)} ${unit}`, VARIABILITY_EXPLANATIONS.sd],
+    ["CV", `${variability.cv}%`, VARIABILITY_EXPLANATIONS.cv],
+    ["IQR", `${formatGlucoseRange(variability.q1, variability.q3, unit)} ${unit}`, VARIABILITY_EXPLANATIONS.iqr],
+    ["Avg swing", formatMage(variability, unit), VARIABILITY_EXPLANATIONS.mage],
+  ]
+    .map((cells) =>
+      `<tr>${
+        cells.map((cell) => `<td style="padding: 6px; border-bottom: 1px solid #1f1b3a; font-size: 12px;">${escapeHtml(cell)}</td>`)
+          .join("")
+      }</tr>`
+    )
+    .join("");
+  return `<div style="margin-top: 12px;">
+              <strong>Variability:</strong>
+              <table style="border-collapse: collapse; width: 100%; margin-top: 6px; border: 2px solid #1f1b3a;">
+                <tbody>${rows}</tbody>
+              </table>
+            </div>`;
+}
+
+function renderPatterns(lines: string[]): string {
+  const items = lines.length
+    ? lines.map((line) => `<li style="margin-bottom: 4px;">${escapeHtml(line)}</li>`).join("")
+    : `<li>None so far</li>`;
+  return `<div style="margin-top: 12px; padding: 10px; background: #fef3c7; border: 2px solid #1f1b3a;">
+              <strong>Patterns noticed (last ${PATTERN_WINDOW_DAYS / 7} weeks):</strong>
+              <ul style="margin: 6px 0 0 0; padding-left: 18px; font-size: 12px;">${items}</ul>
+            </div>`;
+}
+
+function renderDataQuality(lines: string[]): string {
+  const items = lines.length
+    ? lines.map((line) => `<li style="margin-bottom: 4px;">${escapeHtml(line)}</li>`).join("")
+    : `<li>No issues found</li>`;
+  return `<div style="margin-top: 12px; padding: 10px; background: #e0f2fe; border: 2px solid #1f1b3a;">
+              <strong>Data quality:</strong>
+              <ul style="margin: 6px 0 0 0; padding-left: 18px; font-size: 12px;">${items}</ul>
+            </div>`;
+}
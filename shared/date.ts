@@ -8,11 +8,23 @@ export function getWeeklyRange(): { start: string; end: string } {
   return { start, end };
 }
 
+// Deterministic run id for a category's window, shared by rollups and collector run history.
+export function buildRunId(category: string, start: string, end: string): string {
+  return `${category}-${start}-${end}`;
+}
+
 // Convert a Date into YYYY-MM-DD (UTC).
 export function toDateOnly(date: Date): string {
   return date.toISOString().slice(0, 10);
 }
 
+// Shift a YYYY-MM-DD value by whole days (negative to go back).
+export function addDays(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return toDateOnly(shifted);
+}
+
 // Count days between two YYYY-MM-DD values, inclusive.
 export function daysBetweenInclusive(start: string, end: string): number {
   const startDate = new Date(`${start}T00:00:00Z`);
@@ -34,6 +46,11 @@ export function listDateRange(start: string, end: string): string[] {
   return dates;
 }
 
+// Keep entries whose date falls inside an inclusive YYYY-MM-DD window.
+export function filterEntriesInRange<T extends { date: string }>(entries: T[], start: string, end: string): T[] {
+  return entries.filter((entry) => entry.date >= start && entry.date <= end);
+}
+
 // Tally entries per date for quick rollup math.
 export function countEntriesByDate<T extends { date: string }>(entries: T[]): Record<string, number> {
   return entries.reduce<Record<string, number>>((acc, entry) => {
@@ -0,0 +1,155 @@
+import { buildRunId, countEntriesByDate, listDateRange } from "./date.ts";
+import { type Rollup } from "./monthly_report.ts";
+import { calculateAllTimeStreaks } from "./streaks.ts";
+import { type NotionPage } from "./notion.ts";
+import { type ExpectedProperty } from "./notion_schema.ts";
+import { collectRewardFacts, DEFAULT_REWARD_RULES, evaluateRewards, type RewardRules } from "./reward_rules.ts";
+import {
+  loadPropertyMap,
+  type PropertyMap,
+  readNumberProperty,
+  readTextProperty,
+  readTimestampProperty,
+  toExpectedProperty,
+} from "./property_mapping.ts";
+
+// Default weekly goal (the common 150 active minutes guideline); override with EXERCISE_WEEKLY_TARGET_MINUTES.
+export const DEFAULT_WEEKLY_TARGET_MINUTES = 150;
+
+// Notion columns for each field; override with NOTION_EXERCISE_PROPERTY_MAP.
+export type ExercisePropertyMap = PropertyMap<"activity" | "duration" | "intensity" | "date">;
+
+export const DEFAULT_PROPERTY_MAP: ExercisePropertyMap = {
+  activity: { name: "Activity", type: "title" },
+  duration: { name: "Duration (min)", type: "number" },
+  intensity: { name: "Intensity", type: "select" },
+  date: { name: "Date", type: "date" },
+};
+
+export type Entry = {
+  pageId: string;
+  date: string;
+  activity: string;
+  durationMinutes: number;
+  intensity: string | null;
+};
+
+export type ExerciseStats = {
+  totalEntries: number;
+  activeMinutes: number;
+  targetMinutes: number;
+  activeDays: number;
+  entriesByDate: Record<string, number>;
+  // All-time longest streak, and the streak as of the day before this week (for milestone badges).
+  longestStreak: number;
+  streakBeforeWeek: number;
+  minutesByDate: Record<string, number>;
+  minutesByIntensity: Record<string, number>;
+};
+
+export type ExerciseRollup = {
+  category: string;
+  periodStart: string;
+  periodEnd: string;
+  streak: number;
+  completionRate: number;
+  xp: number;
+  badges: string[];
+  stats: ExerciseStats;
+  runId: string;
+};
+
+export function loadExercisePropertyMap(): ExercisePropertyMap {
+  return loadPropertyMap("NOTION_EXERCISE_PROPERTY_MAP", DEFAULT_PROPERTY_MAP);
+}
+
+// Weekly active-minute goal used for completion.
+export function getWeeklyTargetMinutes(): number {
+  const raw = Deno.env.get("EXERCISE_WEEKLY_TARGET_MINUTES");
+  if (!raw) return DEFAULT_WEEKLY_TARGET_MINUTES;
+  const parsed = Number(raw);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error("EXERCISE_WEEKLY_TARGET_MINUTES must be a positive number of minutes.");
+  }
+  return parsed;
+}
+
+// Properties parseEntry reads; intensity is optional.
+export function buildExpectedProperties(propertyMap = DEFAULT_PROPERTY_MAP): ExpectedProperty[] {
+  return [
+    toExpectedProperty(propertyMap.activity),
+    toExpectedProperty(propertyMap.duration),
+    toExpectedProperty(propertyMap.date),
+    toExpectedProperty(propertyMap.intensity, false),
+  ];
+}
+
+// Parse a Notion workout page; sessions without a duration still count, with 0 minutes.
+export function parseEntry(page: NotionPage, propertyMap = DEFAULT_PROPERTY_MAP): Entry | null {
+  const props = page.properties ?? {};
+  const timestamp = readTimestampProperty(props[propertyMap.date.name]);
+  if (!timestamp) return null;
+  const duration = readNumberProperty(props[propertyMap.duration.name]);
+
+  return {
+    pageId: page.id,
+    date: timestamp.slice(0, 10),
+    activity: readTextProperty(props[propertyMap.activity.name]) ?? "Workout",
+    durationMinutes: duration !== null && duration > 0 ? duration : 0,
+    intensity: readTextProperty(props[propertyMap.intensity.name]),
+  };
+}
+
+// Build the weekly exercise rollup stored in SQLite.
+export function buildExerciseRollup(
+  entries: Entry[],
+  start: string,
+  end: string,
+  targetMinutes = DEFAULT_WEEKLY_TARGET_MINUTES,
+  rewardRules: RewardRules = DEFAULT_REWARD_RULES.exercise,
+  history: Rollup[] = [],
+): ExerciseRollup {
+  const dateRange = listDateRange(start, end);
+  const entriesByDate = countEntriesByDate(entries);
+  const minutesByDate: Record<string, number> = {};
+  const minutesByIntensity: Record<string, number> = {};
+  for (const entry of entries) {
+    minutesByDate[entry.date] = (minutesByDate[entry.date] ?? 0) + entry.durationMinutes;
+    const intensity = entry.intensity ?? "Unspecified";
+    minutesByIntensity[intensity] = (minutesByIntensity[intensity] ?? 0) + entry.durationMinutes;
+  }
+  const activeMinutes = entries.reduce((sum, entry) => sum + entry.durationMinutes, 0);
+  const activeDays = dateRange.filter((date) => (entriesByDate[date] ?? 0) > 0).length;
+  const { current: streak, longest, beforeWeek } = calculateAllTimeStreaks(history, entriesByDate, start, end);
+  const completionRate = calculateTargetCompletion(activeMinutes, targetMinutes);
+  const stats: ExerciseStats = {
+    totalEntries: entries.length,
+    activeMinutes,
+    targetMinutes,
+    activeDays,
+    entriesByDate,
+    longestStreak: longest,
+    streakBeforeWeek: beforeWeek,
+    minutesByDate,
+    minutesByIntensity,
+  };
+  const { xp, badges } = evaluateRewards(rewardRules, collectRewardFacts({ streak, completionRate, stats }));
+
+  return {
+    category: "exercise",
+    periodStart: start,
+    periodEnd: end,
+    streak,
+    completionRate,
+    xp,
+    badges,
+    stats,
+    runId: buildRunId("exercise", start, end),
+  };
+}
+
+// Percent of the active-minute target reached, capped at 100.
+export function calculateTargetCompletion(activeMinutes: number, targetMinutes: number): number {
+  if (targetMinutes <= 0) return 0;
+  return Math.min(100, Math.round((activeMinutes / targetMinutes) * 100));
+}
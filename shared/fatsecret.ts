@@ -41,39 +41,37 @@ export async function requestAccessToken(config: FatSecretConfig): Promise<strin
   return token;
 }
 
+// The FatSecret food a search term resolved to, and where its macros came from.
+export type FoodMatch = {
+  foodId: string | null;
+  foodName: string | null;
+  brandName: string | null;
+  source: "food.get" | "search";
+  macros: Partial<Record<MacroKey, number>>;
+};
+
 export async function fetchFoodMacros(
   term: string,
   token: string,
 ): Promise<Partial<Record<MacroKey, number>> | null> {
-  const foodId = await fetchFoodId(term, token);
-  if (foodId) {
-    const detailed = await fetchFoodDetails(foodId, token);
-    if (detailed && Object.keys(detailed).length) return detailed;
-  }
-
-  const params = new URLSearchParams({
-    search_expression: term,
-    max_results: "1",
-    format: "json",
-  });
-  const resp = await fetch(`${SEARCH_URL}?${params.toString()}`, {
-    method: "GET",
-    headers: {
-      "Authorization": `Bearer ${token}`,
-    },
-  });
+  const match = await fetchFoodMatch(term, token);
+  return match?.macros ?? null;
+}
 
-  const text = await resp.text();
-  if (!resp.ok) {
-    throw new Error(`FatSecret search failed: ${resp.status} ${resp.statusText} ${text}`);
+// Look up the top search hit, preferring detailed food.get nutrition over the search description.
+export async function fetchFoodMatch(term: string, token: string): Promise<FoodMatch | null> {
+  const food = await searchFirstFood(term, token);
+  if (!food) return null;
+  const identity = {
+    foodId: typeof food.food_id === "string" ? food.food_id : null,
+    foodName: typeof food.food_name === "string" ? food.food_name : null,
+    brandName: typeof food.brand_name === "string" ? food.brand_name : null,
+  };
+  if (identity.foodId) {
+    const detailed = await fetchFoodDetails(identity.foodId, token);
+    if (detailed && Object.keys(detailed).length) return { ...identity, source: "food.get", macros: detailed };
   }
-  const payload = text ? JSON.parse(text) as Record<string, unknown> : {};
-  const foods = payload.foods as Record<string, unknown> | undefined;
-  const list = foods?.food;
-  const first = Array.isArray(list) ? list[0] : list;
-  if (!first || typeof first !== "object") return null;
 
-  const food = first as Record<string, string>;
   const nutrition = parseFoodDescription(food.food_description);
   if (!nutrition) return null;
 
@@ -85,17 +83,17 @@ export async function fetchFoodMacros(
   if (nutrition.fiber !== undefined) macros.fiber = roundNumber(nutrition.fiber);
   if (nutrition.sugar !== undefined) macros.sugar = roundNumber(nutrition.sugar);
   if (nutrition.sodium !== undefined) macros.sodium = roundNumber(nutrition.sodium);
-  return Object.keys(macros).length ? macros : null;
+  return Object.keys(macros).length ? { ...identity, source: "search", macros } : null;
 }
 
 export function sumIfComplete(values: Array<number | undefined>): number | undefined {
   if (!values.length) return undefined;
   if (values.some((value) => typeof value !== "number")) return undefined;
-  const total = values.reduce((acc, value) => acc + (value ?? 0), 0);
+  const total = values.reduce<number>((acc, value) => acc + (value ?? 0), 0);
   return roundNumber(total);
 }
 
-async function fetchFoodId(term: string, token: string): Promise<string | null> {
+async function searchFirstFood(term: string, token: string): Promise<Record<string, string> | null> {
   const params = new URLSearchParams({
     search_expression: term,
     max_results: "1",
@@ -117,8 +115,7 @@ async function fetchFoodId(term: string, token: string): Promise<string | null>
   const list = foods?.food;
   const first = Array.isArray(list) ? list[0] : list;
   if (!first || typeof first !== "object") return null;
-  const food = first as Record<string, string>;
-  return typeof food.food_id === "string" ? food.food_id : null;
+  return first as Record<string, string>;
 }
 
 async function fetchFoodDetails(foodId: string, token: string): Promise<Partial<Record<MacroKey, number>> | null> {
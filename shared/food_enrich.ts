@@ -1,12 +1,23 @@
 import {
-  type NotionCreatedTimeProperty,
   type NotionDateProperty,
   type NotionNumberProperty,
   type NotionPage,
   type NotionTextProperty,
   type NotionTitleProperty,
 } from "./notion.ts";
-import { calculateCurrentStreak, countEntriesByDate, listDateRange } from "./date.ts";
+import { type ExpectedProperty } from "./notion_schema.ts";
+import {
+  loadPropertyMap,
+  type PropertyMap,
+  readNumberProperty,
+  readTimestampProperty,
+  toExpectedProperty,
+} from "./property_mapping.ts";
+import { buildRunId, countEntriesByDate, listDateRange } from "./date.ts";
+import { type Rollup } from "./monthly_report.ts";
+import { calculateAllTimeStreaks } from "./streaks.ts";
+import { collectRewardFacts, evaluateRewards, FOOD_REWARD_RULES, type RewardRules } from "./reward_rules.ts";
+import { countGoalDays, DEFAULT_FOOD_GOALS, type FoodGoals, isCompleteEntry } from "./food_goals.ts";
 
 // Macro keys and entry types for the food log.
 export type MacroKey = "calories" | "protein" | "carbs" | "fat" | "fiber" | "sugar" | "sodium";
@@ -29,10 +40,27 @@ export type FoodStats = {
   totalEntries: number;
   uniqueDays: number;
   entriesByDate: Record<string, number>;
+  // All-time longest streak, and the streak as of the day before this week (for milestone badges).
+  longestStreak: number;
+  streakBeforeWeek: number;
   avgEntriesPerDay: number;
   minEntriesPerDay: number;
   maxEntriesPerDay: number;
   macroSummary: Partial<Record<MacroKey, MacroStats>>;
+  // Entries with every macro filled in, and their share of all entries.
+  completeEntries: number;
+  completeRate: number;
+  // The daily goals in effect and how many logged days met each one.
+  goals: FoodGoals;
+  goalDays: Partial<Record<MacroKey, number>>;
+};
+
+export type FoodRollupOptions = {
+  // XP and badge rules; REWARD_RULES can override the defaults.
+  rewardRules?: RewardRules;
+  // Earlier food rollups, so the streak can run back past this week.
+  history?: Rollup[];
+  goals?: FoodGoals;
 };
 
 export type FoodRollup = {
@@ -62,23 +90,48 @@ export const PROPERTY_NAMES = {
   },
 };
 
+// Notion columns for each field; override with NOTION_FOOD_PROPERTY_MAP.
+export type FoodPropertyMap = PropertyMap<"title" | "loggedAt" | MacroKey>;
+
+export const DEFAULT_PROPERTY_MAP: FoodPropertyMap = {
+  title: { name: PROPERTY_NAMES.title, type: "title" },
+  loggedAt: { name: PROPERTY_NAMES.loggedAt, type: "created_time" },
+  ...(Object.fromEntries(
+    Object.entries(PROPERTY_NAMES.macros).map(([key, name]) => [key, { name, type: "number" }]),
+  ) as PropertyMap<MacroKey>),
+};
+
+export const MACRO_KEYS = Object.keys(PROPERTY_NAMES.macros) as MacroKey[];
+
+export function loadFoodPropertyMap(): FoodPropertyMap {
+  const propertyMap = loadPropertyMap("NOTION_FOOD_PROPERTY_MAP", DEFAULT_PROPERTY_MAP);
+  // Macros are written back by the enricher, so they must stay plain number columns.
+  for (const key of MACRO_KEYS) {
+    if (propertyMap[key].type !== "number") {
+      throw new Error(`NOTION_FOOD_PROPERTY_MAP field "${key}" must be a number property.`);
+    }
+  }
+  return propertyMap;
+}
+
+// Properties the collector reads (title, timestamp) and writes (macros).
+export function buildExpectedProperties(propertyMap = DEFAULT_PROPERTY_MAP): ExpectedProperty[] {
+  return [
+    toExpectedProperty(propertyMap.title),
+    toExpectedProperty(propertyMap.loggedAt),
+    ...MACRO_KEYS.map((key) => toExpectedProperty(propertyMap[key])),
+  ];
+}
+
 // Parse a Notion page into a normalized food entry.
-export function parseEntry(page: NotionPage): Entry | null {
+export function parseEntry(page: NotionPage, propertyMap = DEFAULT_PROPERTY_MAP): Entry | null {
   const props = page.properties ?? {};
-  const loggedAtProp = props[PROPERTY_NAMES.loggedAt] as
-    | NotionDateProperty
-    | NotionCreatedTimeProperty
-    | undefined;
-  let loggedAt: string | null = null;
-  if (loggedAtProp) {
-    if ("date" in loggedAtProp) loggedAt = loggedAtProp.date?.start ?? null;
-    if ("created_time" in loggedAtProp) loggedAt = loggedAtProp.created_time ?? null;
-  }
+  const loggedAt = readTimestampProperty(props[propertyMap.loggedAt.name]);
   if (!loggedAt) return null;
 
-  const foodProp = props[PROPERTY_NAMES.title] as NotionTitleProperty | NotionTextProperty | undefined;
+  const foodProp = props[propertyMap.title.name] as NotionTitleProperty | NotionTextProperty | undefined;
   const food = extractFoodName(foodProp) ?? "Unknown";
-  const macros = extractMacros(props);
+  const macros = extractMacros(props, propertyMap);
 
   return {
     pageId: page.id,
@@ -112,11 +165,11 @@ export function extractFoodName(
 // Read macro number properties from a Notion page.
 export function extractMacros(
   props: Record<string, NotionDateProperty | NotionNumberProperty | NotionTextProperty | NotionTitleProperty | unknown>,
+  propertyMap = DEFAULT_PROPERTY_MAP,
 ): Partial<Record<MacroKey, number>> {
   const macros: Partial<Record<MacroKey, number>> = {};
-  for (const key of Object.keys(PROPERTY_NAMES.macros) as MacroKey[]) {
-    const propName = PROPERTY_NAMES.macros[key];
-    const value = (props[propName] as NotionNumberProperty | undefined)?.number;
+  for (const key of MACRO_KEYS) {
+    const value = readNumberProperty(props[propertyMap[key].name]);
     if (typeof value === "number") macros[key] = value;
   }
   return macros;
@@ -133,20 +186,24 @@ export function shouldEnrich(entry: Entry): boolean {
 }
 
 // Shape Notion property updates for numeric columns only.
-export function buildNutritionProperties(macros: Partial<Record<MacroKey, number>>): Record<string, unknown> {
+export function buildNutritionProperties(
+  macros: Partial<Record<MacroKey, number>>,
+  propertyMap = DEFAULT_PROPERTY_MAP,
+): Record<string, unknown> {
   const props: Record<string, unknown> = {};
-  if (macros.calories !== undefined) props[PROPERTY_NAMES.macros.calories] = { number: macros.calories };
-  if (macros.protein !== undefined) props[PROPERTY_NAMES.macros.protein] = { number: macros.protein };
-  if (macros.carbs !== undefined) props[PROPERTY_NAMES.macros.carbs] = { number: macros.carbs };
-  if (macros.fat !== undefined) props[PROPERTY_NAMES.macros.fat] = { number: macros.fat };
-  if (macros.fiber !== undefined) props[PROPERTY_NAMES.macros.fiber] = { number: macros.fiber };
-  if (macros.sugar !== undefined) props[PROPERTY_NAMES.macros.sugar] = { number: macros.sugar };
-  if (macros.sodium !== undefined) props[PROPERTY_NAMES.macros.sodium] = { number: macros.sodium };
+  for (const key of MACRO_KEYS) {
+    if (macros[key] !== undefined) props[propertyMap[key].name] = { number: macros[key] };
+  }
   return props;
 }
 
 // Build the weekly food rollup stored in SQLite.
-export function buildFoodRollup(entries: Entry[], start: string, end: string): FoodRollup {
+export function buildFoodRollup(
+  entries: Entry[],
+  start: string,
+  end: string,
+  options: FoodRollupOptions = {},
+): FoodRollup {
   const dateRange = listDateRange(start, end);
   const entriesByDate = countEntriesByDate(entries);
   const uniqueDays = dateRange.filter((date) => (entriesByDate[date] ?? 0) > 0).length;
@@ -159,10 +216,33 @@ export function buildFoodRollup(entries: Entry[], start: string, end: string): F
     ? Math.max(...dateRange.map((date) => entriesByDate[date] ?? 0))
     : 0;
   const completionRate = dateRange.length ? Math.round((uniqueDays / dateRange.length) * 100) : 0;
-  const streak = calculateCurrentStreak(dateRange, entriesByDate);
+  const { current: streak, longest, beforeWeek } = calculateAllTimeStreaks(
+    options.history ?? [],
+    entriesByDate,
+    start,
+    end,
+  );
   const macroSummary = calculateMacroSummary(entries);
+  const completeEntries = entries.filter(isCompleteEntry).length;
+  const goals = options.goals ?? DEFAULT_FOOD_GOALS;
 
-  const runId = `food-${start}-${end}`;
+  const runId = buildRunId("food", start, end);
+  const stats: FoodStats = {
+    totalEntries,
+    uniqueDays,
+    entriesByDate,
+    longestStreak: longest,
+    streakBeforeWeek: beforeWeek,
+    avgEntriesPerDay,
+    minEntriesPerDay,
+    maxEntriesPerDay,
+    macroSummary,
+    completeEntries,
+    completeRate: totalEntries ? Math.round((completeEntries / totalEntries) * 100) : 0,
+    goals,
+    goalDays: countGoalDays(entries, dateRange, goals),
+  };
+  const { xp, badges } = evaluateRewards(options.rewardRules ?? FOOD_REWARD_RULES, collectRewardFacts({ streak, completionRate, stats }));
 
   return {
     category: "food",
@@ -170,17 +250,9 @@ export function buildFoodRollup(entries: Entry[], start: string, end: string): F
     periodEnd: end,
     streak,
     completionRate,
-    xp: 0,
-    badges: [],
-    stats: {
-      totalEntries,
-      uniqueDays,
-      entriesByDate,
-      avgEntriesPerDay,
-      minEntriesPerDay,
-      maxEntriesPerDay,
-      macroSummary,
-    },
+    xp,
+    badges,
+    stats,
     runId,
   };
 }
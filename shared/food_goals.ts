@@ -0,0 +1,99 @@
+import { type Entry, type MacroKey } from "./food_enrich.ts";
+
+// Daily nutrition goals for the food log: a minimum to reach (e.g. protein) or a limit to stay under (e.g. sodium).
+
+export type FoodGoal = {
+  kind: "min" | "max";
+  amount: number;
+};
+
+export type FoodGoals = Partial<Record<MacroKey, FoodGoal>>;
+
+// Every macro the enricher fills; an entry with all of them counts as complete.
+export const COMPLETE_MACROS: MacroKey[] = ["calories", "protein", "carbs", "fat", "fiber", "sugar", "sodium"];
+
+export const MACRO_UNITS: Record<MacroKey, string> = {
+  calories: "kcal",
+  protein: "g",
+  carbs: "g",
+  fat: "g",
+  fiber: "g",
+  sugar: "g",
+  sodium: "mg",
+};
+
+// General adult guidelines; FOOD_DAILY_GOALS can change or drop any of them.
+export const DEFAULT_FOOD_GOALS: FoodGoals = {
+  protein: { kind: "min", amount: 50 },
+  fiber: { kind: "min", amount: 25 },
+  sugar: { kind: "max", amount: 50 },
+  sodium: { kind: "max", amount: 2300 },
+};
+
+export function loadFoodGoals(): FoodGoals {
+  const raw = Deno.env.get("FOOD_DAILY_GOALS");
+  if (!raw) return DEFAULT_FOOD_GOALS;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error('FOOD_DAILY_GOALS must be a JSON object like {"fiber": {"min": 30}, "sodium": {"max": 1500}}.');
+  }
+  return mergeFoodGoals(parsed, DEFAULT_FOOD_GOALS);
+}
+
+// Each macro's goal replaces the default; null removes it.
+export function mergeFoodGoals(overrides: unknown, defaults: FoodGoals): FoodGoals {
+  if (!overrides || typeof overrides !== "object" || Array.isArray(overrides)) {
+    throw new Error('FOOD_DAILY_GOALS must be a JSON object like {"fiber": {"min": 30}, "sodium": {"max": 1500}}.');
+  }
+  const merged: FoodGoals = { ...defaults };
+  for (const [key, value] of Object.entries(overrides as Record<string, unknown>)) {
+    if (!(COMPLETE_MACROS as string[]).includes(key)) {
+      throw new Error(`FOOD_DAILY_GOALS has unknown macro "${key}". Expected ${COMPLETE_MACROS.join(", ")}.`);
+    }
+    const macro = key as MacroKey;
+    if (value === null) {
+      delete merged[macro];
+      continue;
+    }
+    const goal = value as Record<string, unknown> | undefined;
+    const kinds = goal && typeof goal === "object" ? Object.keys(goal) : [];
+    const amount = kinds.length === 1 ? goal?.[kinds[0]] : undefined;
+    if ((kinds[0] !== "min" && kinds[0] !== "max") || typeof amount !== "number" || !(amount > 0)) {
+      throw new Error(`FOOD_DAILY_GOALS "${key}" must be {"min": <amount>} or {"max": <amount>} with a positive amount.`);
+    }
+    merged[macro] = { kind: kinds[0] as FoodGoal["kind"], amount };
+  }
+  return merged;
+}
+
+export function isCompleteEntry(entry: Entry): boolean {
+  return COMPLETE_MACROS.every((key) => typeof entry.macros[key] === "number");
+}
+
+// Days (among those with entries) that met each goal. A minimum counts once the known values reach it; a limit
+// only counts when every entry that day has the macro, so missing data never passes as "under".
+export function countGoalDays(entries: Entry[], dateRange: string[], goals: FoodGoals): Partial<Record<MacroKey, number>> {
+  const days: Partial<Record<MacroKey, number>> = {};
+  for (const [macro, goal] of Object.entries(goals) as [MacroKey, FoodGoal][]) {
+    days[macro] = dateRange.filter((date) => {
+      const dayEntries = entries.filter((entry) => entry.date === date);
+      return dayEntries.length > 0 && meetsGoal(dayEntries, macro, goal);
+    }).length;
+  }
+  return days;
+}
+
+export function meetsGoal(dayEntries: Entry[], macro: MacroKey, goal: FoodGoal): boolean {
+  const values = dayEntries.map((entry) => entry.macros[macro]);
+  const total = values.reduce<number>((sum, value) => sum + (value ?? 0), 0);
+  if (goal.kind === "min") return total >= goal.amount;
+  return values.every((value) => typeof value === "number") && total <= goal.amount;
+}
+
+// e.g. "Fiber ≥ 25 g/day", "Sodium ≤ 2300 mg/day".
+export function formatFoodGoal(macro: MacroKey, goal: FoodGoal): string {
+  const label = macro[0].toUpperCase() + macro.slice(1);
+  return `${label} ${goal.kind === "min" ? "≥" : "≤"} ${goal.amount} ${MACRO_UNITS[macro]}/day`;
+}
@@ -0,0 +1,192 @@
+import type { OpenAI } from "https://esm.town/v/std/openai";
+import { fetchFoodMatch, type FoodMatch, sumIfComplete } from "./fatsecret.ts";
+import {
+  buildNutritionProperties,
+  DEFAULT_PROPERTY_MAP,
+  type Entry,
+  type MacroKey,
+  roundNumber,
+  safeParseJson,
+  shouldEnrich,
+} from "./food_enrich.ts";
+
+// Macro estimation pipeline: OpenAI splits a log entry into items, FatSecret supplies per-serving macros.
+
+export type FoodItem = {
+  name: string;
+  servings: number;
+};
+
+// One normalized item, the FatSecret food it matched, and its macros scaled by servings.
+export type ItemLookup = FoodItem & {
+  match: FoodMatch | null;
+  macros: Partial<Record<MacroKey, number>> | null;
+};
+
+export type NutritionEstimate = {
+  items: ItemLookup[];
+  // Whole-entry lookup, used when the item totals are missing core macros.
+  fallback: FoodMatch | null;
+  macros: Partial<Record<MacroKey, number>> | null;
+};
+
+// What enriching one entry would do: the lookups behind it and the Notion properties it would write.
+export type EnrichmentDiff = {
+  pageId: string;
+  food: string;
+  loggedAt: string;
+  current: Partial<Record<MacroKey, number>>;
+  estimate: NutritionEstimate | null;
+  properties: Record<string, unknown>;
+};
+
+const CORE_MACROS: MacroKey[] = ["calories", "protein", "carbs", "fat"];
+const SUM_MACROS: MacroKey[] = ["calories", "protein", "carbs", "fat", "fiber", "sugar", "sodium"];
+
+// Only FOOD_ENRICH_DRY_RUN=true turns dry-run on, so a typo never silently disables writes.
+export function isEnrichmentDryRun(): boolean {
+  return Deno.env.get("FOOD_ENRICH_DRY_RUN")?.trim().toLowerCase() === "true";
+}
+
+// Estimate macros for the entries that need them, without writing anything.
+export async function planEnrichment(
+  entries: Entry[],
+  estimate: (food: string) => Promise<NutritionEstimate | null>,
+  propertyMap = DEFAULT_PROPERTY_MAP,
+): Promise<EnrichmentDiff[]> {
+  const diffs: EnrichmentDiff[] = [];
+  for (const entry of entries) {
+    // Only enrich entries missing core macros to avoid overwriting manual edits.
+    if (!shouldEnrich(entry)) continue;
+    if (!entry.food || entry.food === "Unknown") continue;
+    const result = await estimate(entry.food);
+    diffs.push({
+      pageId: entry.pageId,
+      food: entry.food,
+      loggedAt: entry.loggedAt,
+      current: entry.macros,
+      estimate: result,
+      properties: result?.macros ? buildNutritionProperties(result.macros, propertyMap) : {},
+    });
+  }
+  return diffs;
+}
+
+export function hasEnrichmentUpdate(diff: EnrichmentDiff): boolean {
+  return Object.keys(diff.properties).length > 0;
+}
+
+export async function estimateNutrition(foodName: string, openai: OpenAI, token: string): Promise<NutritionEstimate> {
+  const items = await parseFoodItems(foodName, openai);
+  const lookups: ItemLookup[] = [];
+  for (const item of items) {
+    const match = await fetchFoodMatch(item.name, token);
+    lookups.push({ ...item, match, macros: match ? scaleMacros(match.macros, item.servings) : null });
+  }
+  return await combineLookups(lookups, () => fetchFoodMatch(foodName, token));
+}
+
+// Use a lone item directly, sum complete item totals, or fall back to looking up the whole entry.
+export async function combineLookups(
+  items: ItemLookup[],
+  lookupWholeEntry: () => Promise<FoodMatch | null>,
+): Promise<NutritionEstimate> {
+  if (items.length === 1 && items[0].macros) return { items, fallback: null, macros: items[0].macros };
+  const totals = sumComponentMacros(items.map((item) => item.macros));
+  if (totals && hasCoreMacros(totals)) return { items, fallback: null, macros: totals };
+  const fallback = await lookupWholeEntry();
+  return { items, fallback, macros: fallback?.macros ?? null };
+}
+
+export async function parseFoodItems(foodName: string, openai: OpenAI): Promise<FoodItem[]> {
+  // Keep the OpenAI request compact to control costs.
+  const completion = await openai.chat.completions.create({
+    model: "gpt-5-nano",
+    messages: [
+      {
+        role: "system",
+        content:
+          "You normalize food log entries. " +
+          "Return a single JSON object: {\"items\":[{\"name\":\"...\",\"servings\":1}]}. " +
+          "Correct spelling, keep names short, and split sides when phrased as \"with\" or \"and\". " +
+          "Infer servings for a regular meal: default to 1 per item; if explicit quantities are given, " +
+          "convert to a servings multiplier. Keep brands and key ingredients. No extra text.",
+      },
+      {
+        role: "user",
+        content: `Food entry: "${foodName}".`,
+      },
+    ],
+    max_tokens: 160,
+  });
+
+  const text = completion.choices[0]?.message?.content?.trim();
+  if (!text) return [{ name: foodName, servings: 1 }];
+  const parsed = safeParseJson(text);
+  if (!parsed || typeof parsed !== "object") return [{ name: foodName, servings: 1 }];
+  const items = (parsed as Record<string, unknown>).items;
+  if (!Array.isArray(items)) return [{ name: foodName, servings: 1 }];
+  const cleaned = items
+    .map((item) => coerceFoodItem(item))
+    .filter((item): item is FoodItem => !!item)
+    .map((item) => ({
+      name: item.name.trim(),
+      servings: sanitizeServings(item.servings),
+    }))
+    .filter((item) => item.name.length > 0);
+  return cleaned.length ? cleaned : [{ name: foodName, servings: 1 }];
+}
+
+function hasCoreMacros(macros: Partial<Record<MacroKey, number>>): boolean {
+  return CORE_MACROS.every((key) => typeof macros[key] === "number");
+}
+
+function sumComponentMacros(
+  components: Array<Partial<Record<MacroKey, number>> | null>,
+): Partial<Record<MacroKey, number>> | null {
+  if (!components.length) return null;
+  if (components.some((component) => !component)) return null;
+  const entries = components as Array<Partial<Record<MacroKey, number>>>;
+  const totals: Partial<Record<MacroKey, number>> = {};
+  for (const key of SUM_MACROS) {
+    const value = sumIfComplete(entries.map((entry) => entry[key]));
+    if (value !== undefined) totals[key] = value;
+  }
+  return totals;
+}
+
+function coerceFoodItem(item: unknown): FoodItem | null {
+  if (typeof item === "string") {
+    return { name: item, servings: 1 };
+  }
+  if (!item || typeof item !== "object") return null;
+  const record = item as Record<string, unknown>;
+  const name = record.name;
+  if (typeof name !== "string") return null;
+  const servings = record.servings;
+  if (typeof servings === "number" && Number.isFinite(servings)) {
+    return { name, servings };
+  }
+  if (typeof servings === "string") {
+    const parsed = Number(servings.trim());
+    if (Number.isFinite(parsed)) return { name, servings: parsed };
+  }
+  return { name, servings: 1 };
+}
+
+function sanitizeServings(value: number): number {
+  if (!Number.isFinite(value) || value <= 0) return 1;
+  return roundNumber(value);
+}
+
+function scaleMacros(
+  macros: Partial<Record<MacroKey, number>>,
+  servings: number,
+): Partial<Record<MacroKey, number>> {
+  const scaled: Partial<Record<MacroKey, number>> = {};
+  for (const [key, value] of Object.entries(macros) as Array<[MacroKey, number]>) {
+    if (typeof value !== "number") continue;
+    scaled[key] = roundNumber(value * servings);
+  }
+  return scaled;
+}
@@ -0,0 +1,181 @@
+import { type BadgeAward, formatBadgeHighlight, selectNewAwards } from "./badge_history.ts";
+import { listDateRange } from "./date.ts";
+import { type Entry, type FoodRollup, type MacroKey, roundNumber } from "./food_enrich.ts";
+import { type FoodGoal, formatFoodGoal } from "./food_goals.ts";
+import { escapeHtml } from "./html.ts";
+import {
+  buildRollupStats,
+  bulletedListBlocks,
+  headingBlock,
+  paragraphBlock,
+  tableBlock,
+  type WeeklyNotionReport,
+} from "./notion_report.ts";
+import { formatDays, type TrackerEmail } from "./tracker.ts";
+import { formatLevelLine, formatLevelUp, type LevelUpdate } from "./xp_levels.ts";
+
+const TABLE_MACROS: MacroKey[] = ["calories", "protein", "carbs", "fat"];
+
+// Weekly report page for the Notion "Weekly Reports" database.
+export function buildFoodNotionReport(entries: Entry[], rollup: FoodRollup): WeeklyNotionReport {
+  const rows = listDateRange(rollup.periodStart, rollup.periodEnd).map((date) => {
+    const dayEntries = entries.filter((entry) => entry.date === date);
+    return [date, String(dayEntries.length), ...TABLE_MACROS.map((key) => formatDailyTotal(dayEntries, key))];
+  });
+  const calories = rollup.stats.macroSummary.calories;
+  return {
+    title: `Food Log ${rollup.periodStart} → ${rollup.periodEnd}`,
+    stats: {
+      ...buildRollupStats(rollup),
+      Entries: rollup.stats.totalEntries,
+      ...(calories ? { "Avg Calories": calories.avg } : {}),
+    },
+    blocks: [
+      headingBlock("Daily totals"),
+      tableBlock(["Date", "Entries", "Calories", "Protein", "Carbs", "Fat"], rows),
+      headingBlock("Badges"),
+      ...(rollup.badges.length ? bulletedListBlocks(rollup.badges) : [paragraphBlock("No badges yet")]),
+      headingBlock("Encouragement"),
+      paragraphBlock(buildFoodEncouragement(rollup.completionRate, rollup.streak)),
+    ],
+  };
+}
+
+export type FoodEmailOptions = {
+  // This week's badges classified against the badge history; first-ever and comeback ones are highlighted.
+  awards?: BadgeAward[];
+  // Lifetime XP levels before and after this week.
+  levels?: LevelUpdate;
+};
+
+// Weekly food email: logging consistency, complete macros, daily goals, and the week's XP and badges.
+export function buildFoodEmail(entries: Entry[], rollup: FoodRollup, options: FoodEmailOptions = {}): TrackerEmail {
+  const { periodStart: start, periodEnd: end, stats } = rollup;
+  const dateRange = listDateRange(start, end);
+  const goalLines = (Object.entries(stats.goals) as [MacroKey, FoodGoal][]).map(([macro, goal]) =>
+    `${formatFoodGoal(macro, goal)}: ${formatDays(stats.goalDays[macro] ?? 0)} of ${stats.uniqueDays} logged`
+  );
+  const newAwards = selectNewAwards(options.awards ?? []);
+  const levelChanges = options.levels ? [options.levels.category, options.levels.overall] : [];
+  const levelLines = levelChanges.map((change) => `${change.label} level: ${formatLevelLine(change.after)}`);
+  const levelUps = levelChanges.filter((change) => change.leveledUp).map(formatLevelUp);
+  const encouragement = buildFoodEncouragement(rollup.completionRate, rollup.streak);
+  const dailyRows = dateRange.map((date) => {
+    const dayEntries = entries.filter((entry) => entry.date === date);
+    return [date, String(dayEntries.length), ...TABLE_MACROS.map((key) => formatDailyTotal(dayEntries, key))];
+  });
+
+  const lines = [
+    `Range: ${start} to ${end}`,
+    `Entries: ${stats.totalEntries} on ${formatDays(stats.uniqueDays)} of ${dateRange.length}`,
+    `Complete macros: ${stats.completeEntries} of ${stats.totalEntries} entries (${stats.completeRate}%)`,
+    "Daily goals:",
+    ...(goalLines.length ? goalLines : ["No daily goals set"]).map((line) => `- ${line}`),
+    `Completion: ${rollup.completionRate}%`,
+    `Current streak: ${formatDays(rollup.streak)}`,
+    `Longest streak (all-time): ${formatDays(stats.longestStreak)}`,
+    `XP earned: ${rollup.xp}`,
+    ...levelLines,
+    ...levelUps,
+    `Badges: ${rollup.badges.length ? rollup.badges.join(", ") : "No badges yet"}`,
+    ...(newAwards.length ? ["New badges:", ...newAwards.map((award) => `- ${formatBadgeHighlight(award)}`)] : []),
+    `Encouragement: ${encouragement}`,
+    "",
+    "Daily totals (calories, protein, carbs, fat):",
+    ...dailyRows.map(([date, count, ...totals]) => `${date}: ${count} entries · ${totals.join(" / ")}`),
+  ];
+
+  const pill = (label: string, value: string, color: string) =>
+    `<td style="padding: 8px;">
+                  <div style="background: ${color}; color: #1f1b3a; font-weight: 800; border: 2px solid #1f1b3a; border-radius: 14px; padding: 10px;">
+                    <div style="font-size: 11px; text-transform: uppercase; letter-spacing: 0.6px;">${label}</div>
+                    <div style="font-size: 16px;">${escapeHtml(value)}</div>
+                  </div>
+                </td>`;
+  const cell = (value: string, tag = "td") =>
+    `<${tag} style="text-align: left; padding: 6px; border-bottom: 1px solid #1f1b3a; font-size: 12px;">${escapeHtml(value)}</${tag}>`;
+  const badges = rollup.badges.length
+    ? rollup.badges
+      .map((badge) => {
+        const award = newAwards.find((candidate) => candidate.badge === badge);
+        const marker = award ? `${award.kind === "first" ? "NEW" : "BACK"} · ` : "";
+        return `<span style="display: inline-block; margin: 4px 6px 0 0; padding: 6px 8px; background: ${award ? "#fde047" : "#ffffff"}; border: 2px solid #1f1b3a; font-weight: 700;">${marker}${escapeHtml(badge)}</span>`;
+      })
+      .join("")
+    : `<span style="display: inline-block; margin-top: 4px;">No badges yet</span>`;
+
+  const html = `
+    <div style="font-family: Arial, Helvetica, sans-serif; line-height: 1.4; background: #f7f5ff; padding: 16px;">
+      <table style="width: 100%; border-collapse: collapse; background: #ffffff; border: 3px solid #1f1b3a; table-layout: fixed;">
+        <tr>
+          <td style="padding: 14px 16px; background: #a7f3d0; border-bottom: 3px solid #1f1b3a;">
+            <div style="font-size: 20px; font-weight: 800; letter-spacing: 0.5px;">Food Log Weekly Rollup</div>
+            <div style="font-size: 12px; margin-top: 4px;">${start} to ${end}</div>
+          </td>
+        </tr>
+        <tr>
+          <td style="padding: 16px;">
+            <table style="width: 100%; border-collapse: collapse;">
+              <tr>
+                ${pill("Days logged", `${stats.uniqueDays}/${dateRange.length}`, "#f472b6")}
+                ${pill("Complete macros", `${stats.completeRate}%`, "#fde047")}
+              </tr>
+              <tr>
+                ${pill("Streak", `${formatDays(rollup.streak)} (longest ${stats.longestStreak})`, "#c4b5fd")}
+                ${pill("XP", String(rollup.xp), "#f9a8d4")}
+              </tr>
+            </table>
+            ${
+    levelUps.map((line) =>
+      `<div style="margin-top: 8px; padding: 8px 10px; background: #fde047; border: 2px solid #1f1b3a; font-weight: 800;">🎉 ${escapeHtml(line)}</div>`
+    ).join("")
+  }
+            ${levelLines.length ? `<div style="margin-top: 8px; font-size: 12px;">${levelLines.map(escapeHtml).join("<br />")}</div>` : ""}
+            <div style="margin-top: 12px;"><strong>Daily goals:</strong>
+              <div style="font-size: 12px; margin-top: 4px;">${
+    (goalLines.length ? goalLines : ["No daily goals set"]).map(escapeHtml).join("<br />")
+  }</div>
+            </div>
+            <div style="margin-top: 10px;">
+              <strong>Badges:</strong>
+              <div style="margin-top: 6px;">${badges}</div>
+              ${
+    newAwards.length
+      ? `<div style="margin-top: 6px; font-size: 12px;">${newAwards.map((award) => escapeHtml(formatBadgeHighlight(award))).join("<br />")}</div>`
+      : ""
+  }
+            </div>
+            <div style="margin-top: 12px; padding: 10px; background: #1f1b3a; color: #ffffff;">${escapeHtml(encouragement)}</div>
+          </td>
+        </tr>
+        <tr>
+          <td style="padding: 0 16px 16px 16px;">
+            <table style="border-collapse: collapse; width: 100%; border: 2px solid #1f1b3a; table-layout: fixed;">
+              <thead><tr style="background: #a7f3d0;">${
+    ["Date", "Entries", "Calories", "Protein", "Carbs", "Fat"].map((header) => cell(header, "th")).join("")
+  }</tr></thead>
+              <tbody>${dailyRows.map((row) => `<tr>${row.map((value) => cell(value)).join("")}</tr>`).join("")}</tbody>
+            </table>
+          </td>
+        </tr>
+      </table>
+    </div>
+  `;
+
+  return { subject: `Food Log Weekly Rollup (${start} → ${end})`, text: lines.join("\n"), html };
+}
+
+// Short motivational copy for the food email and report page (completion is the share of days with a meal logged).
+export function buildFoodEncouragement(completionRate: number, streak: number): string {
+  if (completionRate >= 90) return "Amazing work — you logged your meals nearly every day this week.";
+  if (completionRate >= 70) return "Great consistency — logging meals is becoming a habit.";
+  if (completionRate >= 40) return "Nice progress — a few more days of meals logged will round out the picture.";
+  if (streak >= 3) return "You’re on a logging streak — keep it going!";
+  return "Every meal you log helps — you’ve got this.";
+}
+
+// Sum a macro across a day's entries ("—" when none of them have it).
+function formatDailyTotal(entries: Entry[], key: MacroKey): string {
+  const values = entries.map((entry) => entry.macros[key]).filter((value): value is number => typeof value === "number");
+  return values.length ? String(roundNumber(values.reduce((sum, value) => sum + value, 0))) : "—";
+}
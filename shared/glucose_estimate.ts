@@ -0,0 +1,131 @@
+import { addDays, toDateOnly } from "./date.ts";
+import { CANONICAL_UNIT, formatGlucose, type GlucoseUnit } from "./glucose_units.ts";
+import { type Rollup, selectNonOverlappingRollups } from "./monthly_report.ts";
+
+// Estimated A1C and GMI (glucose management indicator) from the mean of stored weekly rollups.
+
+export const ESTIMATE_WINDOW_DAYS = 90;
+// Fewer days of readings than this and the estimate is flagged as limited data.
+export const MIN_ESTIMATE_DAYS = 14;
+
+export type GlucoseEstimate = {
+  windowStart: string;
+  windowEnd: string;
+  mean: number;
+  readings: number;
+  days: number;
+  a1c: number;
+  gmi: number;
+  limitedData: boolean;
+};
+
+export type GlucoseEstimateTrend = {
+  current: GlucoseEstimate | null;
+  previous: GlucoseEstimate | null;
+  a1cChange: number | null;
+  gmiChange: number | null;
+};
+
+type EstimateStatsShape = {
+  avg?: number;
+  totalEntries?: number;
+  entriesByDate?: Record<string, number>;
+};
+
+// ADAG formula (Nathan et al., 2008): eA1C % = (mean mg/dL + 46.7) / 28.7.
+export function estimateA1c(mean: number): number {
+  return round1((mean + 46.7) / 28.7);
+}
+
+// GMI formula (Bergenstal et al., 2018): GMI % = 3.31 + 0.02392 × mean mg/dL.
+export function calculateGmi(mean: number): number {
+  return round1(3.31 + 0.02392 * mean);
+}
+
+// Weighted mean of the rollups ending inside the window; null when the window has no readings.
+export function buildGlucoseEstimate(
+  rollups: Rollup[],
+  windowEnd: string,
+  windowDays = ESTIMATE_WINDOW_DAYS,
+): GlucoseEstimate | null {
+  const windowStart = addDays(windowEnd, -(windowDays - 1));
+  const inWindow = selectNonOverlappingRollups(
+    rollups.filter((rollup) => rollup.periodEnd >= windowStart && rollup.periodEnd <= windowEnd),
+  );
+  let total = 0;
+  let readings = 0;
+  const days = new Set<string>();
+  for (const rollup of inWindow) {
+    const stats = (rollup.stats ?? {}) as EstimateStatsShape;
+    const count = stats.totalEntries ?? 0;
+    if (typeof stats.avg !== "number" || count <= 0) continue;
+    total += stats.avg * count;
+    readings += count;
+    for (const [date, dayCount] of Object.entries(stats.entriesByDate ?? {})) {
+      if (dayCount > 0 && date >= windowStart && date <= windowEnd) days.add(date);
+    }
+  }
+  if (!readings) return null;
+  const mean = round1(total / readings);
+  return {
+    windowStart,
+    windowEnd,
+    mean,
+    readings,
+    days: days.size,
+    a1c: estimateA1c(mean),
+    gmi: calculateGmi(mean),
+    limitedData: days.size < MIN_ESTIMATE_DAYS,
+  };
+}
+
+// Current 90-day estimate and its change against the 90 days before it.
+export function buildGlucoseTrend(rollups: Rollup[], end: string): GlucoseEstimateTrend {
+  const current = buildGlucoseEstimate(rollups, end);
+  const previous = buildGlucoseEstimate(rollups, addDays(end, -ESTIMATE_WINDOW_DAYS));
+  return {
+    current,
+    previous,
+    a1cChange: current && previous ? round1(current.a1c - previous.a1c) : null,
+    gmiChange: current && previous ? round1(current.gmi - previous.gmi) : null,
+  };
+}
+
+// One estimate per month end, oldest first, for the months that have readings.
+export function buildEstimateHistory(rollups: Rollup[], monthEnd: string, months = 6): GlucoseEstimate[] {
+  const history: GlucoseEstimate[] = [];
+  for (let offset = months - 1; offset >= 0; offset -= 1) {
+    const estimate = buildGlucoseEstimate(rollups, endOfMonthBefore(monthEnd, offset));
+    if (estimate) history.push(estimate);
+  }
+  return history;
+}
+
+// e.g. "Estimated A1C: 6.1% · GMI 6.3% (90-day mean 128 from 150 readings) — down 0.2 vs previous 90 days".
+export function formatEstimateLine(trend: GlucoseEstimateTrend, unit: GlucoseUnit = CANONICAL_UNIT): string {
+  const { current } = trend;
+  if (!current) return "Estimated A1C: not enough history yet";
+  const limited = current.limitedData ? `, limited data: ${plural(current.days, "day")}` : "";
+  return `Estimated A1C: ${current.a1c}% · GMI ${current.gmi}% ` +
+    `(90-day mean ${formatGlucose(current.mean, unit)} from ${plural(current.readings, "reading")}${limited}) — ${formatChange(trend.a1cChange)}`;
+}
+
+export function formatChange(change: number | null): string {
+  if (change === null) return "no previous 90 days to compare";
+  if (change === 0) return "no change vs previous 90 days";
+  return `${change > 0 ? "up" : "down"} ${Math.abs(change)} vs previous 90 days`;
+}
+
+// Last day of the month `offset` months before the month containing `date`.
+function endOfMonthBefore(date: string, offset: number): string {
+  const [year, month] = date.split("-").map(Number);
+  return toDateOnly(new Date(Date.UTC(year, month - offset, 0)));
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,62 @@
+// Glucose units: readings are stored in mg/dL and converted to the display unit when rendered.
+
+export const GLUCOSE_UNITS = ["mg/dL", "mmol/L"] as const;
+
+export type GlucoseUnit = typeof GLUCOSE_UNITS[number];
+
+// Canonical unit for entries, rollups, thresholds, and badge rules.
+export const CANONICAL_UNIT: GlucoseUnit = "mg/dL";
+
+// mg/dL per mmol/L (glucose molar mass 180.16 g/mol).
+export const MGDL_PER_MMOL = 18.0182;
+
+// Accepts "mg/dL", "mgdl", "mmol/L", "mmol" in any case.
+export function parseGlucoseUnit(value: string | null | undefined): GlucoseUnit | null {
+  const key = value?.trim().toLowerCase().replace(/[\s/]+/g, "");
+  if (key === "mgdl") return "mg/dL";
+  if (key === "mmoll" || key === "mmol") return "mmol/L";
+  return null;
+}
+
+// Unit used in emails, Notion reports, and the monthly page (BLOOD_SUGAR_DISPLAY_UNIT, default mg/dL).
+export function loadDisplayUnit(): GlucoseUnit {
+  return loadUnit("BLOOD_SUGAR_DISPLAY_UNIT");
+}
+
+// Unit assumed for readings without a Unit column value (BLOOD_SUGAR_INPUT_UNIT, default mg/dL).
+export function loadInputUnit(): GlucoseUnit {
+  return loadUnit("BLOOD_SUGAR_INPUT_UNIT");
+}
+
+// Convert an input value to canonical mg/dL, keeping 0.1 precision so mmol/L round-trips cleanly.
+export function toMgdl(value: number, unit: GlucoseUnit): number {
+  return unit === "mmol/L" ? Math.round(value * MGDL_PER_MMOL * 10) / 10 : value;
+}
+
+// Convert a canonical mg/dL value for display: 0.1 mmol/L, or mg/dL as stored (averages keep one decimal).
+export function fromMgdl(mgdl: number, unit: GlucoseUnit): number {
+  if (unit === "mmol/L") return Math.round((mgdl / MGDL_PER_MMOL) * 10) / 10;
+  return Math.round(mgdl * 10) / 10;
+}
+
+// Individual readings: whole mg/dL or one-decimal mmol/L.
+export function formatReading(mgdl: number, unit: GlucoseUnit): string {
+  return unit === "mmol/L" ? (mgdl / MGDL_PER_MMOL).toFixed(1) : String(Math.round(mgdl));
+}
+
+// Stats and thresholds: e.g. "117.5" (mg/dL) or "6.5" (mmol/L).
+export function formatGlucose(mgdl: number, unit: GlucoseUnit): string {
+  return String(fromMgdl(mgdl, unit));
+}
+
+export function formatGlucoseRange(low: number, high: number, unit: GlucoseUnit): string {
+  return `${formatGlucose(low, unit)}–${formatGlucose(high, unit)}`;
+}
+
+function loadUnit(envName: string): GlucoseUnit {
+  const raw = Deno.env.get(envName);
+  if (!raw) return CANONICAL_UNIT;
+  const unit = parseGlucoseUnit(raw);
+  if (!unit) throw new Error(`${envName} must be one of: ${GLUCOSE_UNITS.join(", ")}.`);
+  return unit;
+}
@@ -0,0 +1,137 @@
+import { CANONICAL_UNIT, formatGlucose, formatGlucoseRange, type GlucoseUnit } from "./glucose_units.ts";
+
+// Glycemic variability: SD, CV, IQR, and a MAGE-style swing size for a run of readings (mg/dL).
+
+// Running totals (count, sum, sum of squares) merge exactly across weeks; `values` keeps the readings in time
+// order so the month's IQR and swings can be recomputed rather than averaged.
+export type GlycemicVariability = {
+  count: number;
+  sum: number;
+  sumOfSquares: number;
+  sd: number;
+  cv: number;
+  q1: number;
+  median: number;
+  q3: number;
+  iqr: number;
+  mage: number | null;
+  excursions: number;
+  values: number[];
+};
+
+// Below 36% CV is the consensus cut-off for stable glucose (Monnier et al., 2017).
+export const STABLE_CV_THRESHOLD = 36;
+
+export const VARIABILITY_EXPLANATIONS = {
+  sd: "Standard deviation: how far a typical reading lands from your average.",
+  cv: `Coefficient of variation: spread as a share of your average; under ${STABLE_CV_THRESHOLD}% is considered stable.`,
+  iqr: "Interquartile range: the middle half of your readings fell in this range.",
+  mage: "Average swing: the typical size of rises and drops bigger than one SD (MAGE-style).",
+} as const;
+
+// Readings must already be in time order.
+export function buildVariability(values: number[]): GlycemicVariability {
+  const sum = values.reduce((total, value) => total + value, 0);
+  const sumOfSquares = values.reduce((total, value) => total + value * value, 0);
+  return finalizeVariability(values.length, sum, sumOfSquares, values);
+}
+
+// Combine weekly variability (oldest week first): totals are summed, quartiles and swings use every reading.
+export function mergeVariability(list: GlycemicVariability[]): GlycemicVariability {
+  let count = 0;
+  let sum = 0;
+  let sumOfSquares = 0;
+  const values: number[] = [];
+  for (const item of list) {
+    count += item.count ?? 0;
+    sum += item.sum ?? 0;
+    sumOfSquares += item.sumOfSquares ?? 0;
+    values.push(...(item.values ?? []));
+  }
+  return finalizeVariability(count, sum, sumOfSquares, values);
+}
+
+// Plain-language lines for emails, e.g. "SD: 24.1 — how far a typical reading lands from your average."
+export function formatVariabilityLines(variability: GlycemicVariability, unit: GlucoseUnit = CANONICAL_UNIT): string[] {
+  if (variability.count < 2) return ["Variability: needs at least 2 readings"];
+  return [
+    `SD: ${formatGlucose(variability.sd, unit)} — ${VARIABILITY_EXPLANATIONS.sd}`,
+    `CV: ${variability.cv}% — ${VARIABILITY_EXPLANATIONS.cv}`,
+    `IQR: ${formatGlucoseRange(variability.q1, variability.q3, unit)} — ${VARIABILITY_EXPLANATIONS.iqr}`,
+    `Average swing: ${formatMage(variability, unit)} — ${VARIABILITY_EXPLANATIONS.mage}`,
+  ];
+}
+
+export function formatMage(variability: GlycemicVariability, unit: GlucoseUnit = CANONICAL_UNIT): string {
+  if (variability.mage === null) return "no big swings";
+  return `${formatGlucose(variability.mage, unit)} (${variability.excursions} swing${variability.excursions === 1 ? "" : "s"})`;
+}
+
+// Sample SD from running totals: sqrt((Σx² − (Σx)²/n) / (n − 1)).
+export function standardDeviation(count: number, sum: number, sumOfSquares: number): number {
+  if (count < 2) return 0;
+  const variance = (sumOfSquares - (sum * sum) / count) / (count - 1);
+  return Math.sqrt(Math.max(0, variance));
+}
+
+// Linear-interpolated percentile (same as spreadsheet PERCENTILE.INC).
+export function percentile(sorted: number[], fraction: number): number {
+  if (!sorted.length) return 0;
+  const position = (sorted.length - 1) * fraction;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+// Swings between successive peaks and nadirs; only those larger than one SD count.
+export function calculateMage(values: number[], sd: number): { mage: number | null; excursions: number } {
+  const turningPoints = findTurningPoints(values);
+  const swings: number[] = [];
+  for (let index = 1; index < turningPoints.length; index += 1) {
+    const amplitude = Math.abs(turningPoints[index] - turningPoints[index - 1]);
+    if (sd > 0 && amplitude > sd) swings.push(amplitude);
+  }
+  if (!swings.length) return { mage: null, excursions: 0 };
+  return { mage: round1(swings.reduce((total, swing) => total + swing, 0) / swings.length), excursions: swings.length };
+}
+
+// First and last readings plus every local peak or nadir (flat runs collapse to one point).
+function findTurningPoints(values: number[]): number[] {
+  const points = values.filter((value, index) => index === 0 || value !== values[index - 1]);
+  if (points.length <= 2) return points;
+  const turning = [points[0]];
+  for (let index = 1; index < points.length - 1; index += 1) {
+    const rising = points[index] > points[index - 1];
+    const nextRising = points[index + 1] > points[index];
+    if (rising !== nextRising) turning.push(points[index]);
+  }
+  turning.push(points[points.length - 1]);
+  return turning;
+}
+
+function finalizeVariability(count: number, sum: number, sumOfSquares: number, values: number[]): GlycemicVariability {
+  const sd = standardDeviation(count, sum, sumOfSquares);
+  const mean = count ? sum / count : 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const q1 = percentile(sorted, 0.25);
+  const q3 = percentile(sorted, 0.75);
+  const { mage, excursions } = calculateMage(values, sd);
+  return {
+    count,
+    sum: round1(sum),
+    sumOfSquares: round1(sumOfSquares),
+    sd: round1(sd),
+    cv: mean ? round1((sd / mean) * 100) : 0,
+    q1: round1(q1),
+    median: round1(percentile(sorted, 0.5)),
+    q3: round1(q3),
+    iqr: round1(q3 - q1),
+    mage,
+    excursions,
+    values,
+  };
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
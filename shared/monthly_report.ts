@@ -1,4 +1,9 @@
 import { calculateCurrentStreak, listDateRange } from "./date.ts";
+import { type FoodGoals } from "./food_goals.ts";
+import { type GlycemicVariability, mergeVariability } from "./glycemic_variability.ts";
+import { type ContextStatsMap, mergeContextStats } from "./reading_context.ts";
+import { type HourBuckets, mergeHourBuckets } from "./time_of_day.ts";
+import { mergeTimeInRange, type TimeInRange } from "./time_in_range.ts";
 
 // Types shared by the monthly rollup page.
 export type Rollup = {
@@ -29,6 +34,12 @@ export type BloodSugarMonthlySummary = MonthlySummary & {
   xp: number;
   badges: string[];
   entriesByDate: Record<string, number>;
+  byContext: ContextStatsMap;
+  timeInRange: TimeInRange;
+  variability: GlycemicVariability;
+  byHour: HourBuckets;
+  // Days each schedule slot went unfilled, summed across the included weeks.
+  missingBySlot: Record<string, number>;
 };
 
 export type FoodMacroStats = {
@@ -45,14 +56,43 @@ export type FoodMonthlySummary = MonthlySummary & {
   maxEntriesPerDay: number;
   completionRate: number;
   streak: number;
+  xp: number;
+  badges: string[];
   macroSummary: Record<string, FoodMacroStats>;
   entriesByDate: Record<string, number>;
+  completeEntries: number;
+  // Goals from the latest included week, and logged days that met each goal, summed across weeks.
+  goals: FoodGoals;
+  goalDays: Record<string, number>;
+};
+
+export type ExerciseMonthlySummary = MonthlySummary & {
+  sessions: number;
+  activeMinutes: number;
+  activeDays: number;
+  targetMinutes: number;
+  completionRate: number;
+  streak: number;
+  xp: number;
+  badges: string[];
+  minutesByIntensity: Record<string, number>;
+  entriesByDate: Record<string, number>;
+};
+
+type ExerciseStatsShape = {
+  entriesByDate?: Record<string, number>;
+  minutesByDate?: Record<string, number>;
+  minutesByIntensity?: Record<string, number>;
+  targetMinutes?: number;
 };
 
 type FoodStatsShape = {
   entriesByDate?: Record<string, number>;
   macroSummary?: Record<string, FoodMacroStats>;
   totalEntries?: number;
+  completeEntries?: number;
+  goals?: FoodGoals;
+  goalDays?: Record<string, number>;
 };
 
 type BloodSugarStatsShape = {
@@ -61,6 +101,12 @@ type BloodSugarStatsShape = {
   min?: number;
   max?: number;
   totalEntries?: number;
+  byContext?: ContextStatsMap;
+  timeInRange?: TimeInRange;
+  variability?: GlycemicVariability;
+  byHour?: HourBuckets;
+  slotsByDate?: Record<string, number>;
+  missingBySlot?: Record<string, number>;
 };
 
 // Aggregate blood sugar rollups into a single monthly summary.
@@ -68,7 +114,7 @@ export function aggregateBloodSugarMonth(
   rollups: Rollup[],
   monthStart: string,
   monthEnd: string,
-  options: { includePartialWeeks?: boolean } = {},
+  options: { includePartialWeeks?: boolean; expectedPerDay?: number } = {},
 ): BloodSugarMonthlySummary {
   // Default to full-week rollups to avoid double counting across overlaps.
   const dateRange = listDateRange(monthStart, monthEnd);
@@ -83,9 +129,22 @@ export function aggregateBloodSugarMonth(
   let max = Number.NEGATIVE_INFINITY;
   let xp = 0;
   const badgeSet = new Set<string>();
+  const contextMaps: ContextStatsMap[] = [];
+  const timeInRanges: TimeInRange[] = [];
+  const variabilities: GlycemicVariability[] = [];
+  const hourBuckets: HourBuckets[] = [];
+  const missingBySlot: Record<string, number> = {};
 
-  for (const rollup of filtered) {
+  // Oldest week first so the merged readings stay in time order for swing detection.
+  for (const rollup of [...filtered].sort((a, b) => a.periodStart.localeCompare(b.periodStart))) {
     const stats = (rollup.stats ?? {}) as BloodSugarStatsShape;
+    if (stats.byContext) contextMaps.push(stats.byContext);
+    if (stats.timeInRange) timeInRanges.push(stats.timeInRange);
+    if (stats.variability) variabilities.push(stats.variability);
+    if (stats.byHour) hourBuckets.push(stats.byHour);
+    for (const [label, days] of Object.entries(stats.missingBySlot ?? {})) {
+      missingBySlot[label] = (missingBySlot[label] ?? 0) + days;
+    }
     const count = stats.totalEntries ?? 0;
     if (typeof stats.avg === "number" && count > 0) {
       weightedSum += stats.avg * count;
@@ -100,8 +159,10 @@ export function aggregateBloodSugarMonth(
   const average = weightedCount ? Number((weightedSum / weightedCount).toFixed(1)) : 0;
   const resolvedMin = Number.isFinite(min) ? min : 0;
   const resolvedMax = Number.isFinite(max) ? max : 0;
-  const expected = dateRange.length * 2;
-  const completionRate = expected ? Math.round((totalEntries / expected) * 100) : 0;
+  const perDay = options.expectedPerDay ?? 2;
+  const expected = dateRange.length * perDay;
+  const filledSlots = sumValues(mergeSlotsByDate(filtered, monthStart, monthEnd, perDay));
+  const completionRate = expected ? Math.round((filledSlots / expected) * 100) : 0;
   const streak = calculateCurrentStreak(dateRange, entriesByDate);
 
   return {
@@ -117,6 +178,11 @@ export function aggregateBloodSugarMonth(
     xp,
     badges: Array.from(badgeSet),
     entriesByDate,
+    byContext: mergeContextStats(contextMaps),
+    timeInRange: mergeTimeInRange(timeInRanges),
+    variability: mergeVariability(variabilities),
+    byHour: mergeHourBuckets(hourBuckets),
+    missingBySlot,
   };
 }
 
@@ -142,6 +208,19 @@ export function aggregateFoodMonth(
   const completionRate = dateRange.length ? Math.round((uniqueDays / dateRange.length) * 100) : 0;
   const streak = calculateCurrentStreak(dateRange, entriesByDate);
   const macroSummary = aggregateMacroSummary(filtered);
+  let xp = 0;
+  let completeEntries = 0;
+  let goals: FoodGoals = {};
+  const badgeSet = new Set<string>();
+  const goalDays: Record<string, number> = {};
+  for (const rollup of [...filtered].sort((a, b) => a.periodStart.localeCompare(b.periodStart))) {
+    const stats = (rollup.stats ?? {}) as FoodStatsShape;
+    xp += rollup.xp;
+    for (const badge of rollup.badges ?? []) badgeSet.add(badge);
+    completeEntries += stats.completeEntries ?? 0;
+    if (stats.goals) goals = stats.goals;
+    for (const [macro, days] of Object.entries(stats.goalDays ?? {})) goalDays[macro] = (goalDays[macro] ?? 0) + days;
+  }
 
   return {
     monthStart,
@@ -154,8 +233,63 @@ export function aggregateFoodMonth(
     maxEntriesPerDay,
     completionRate,
     streak,
+    xp,
+    badges: Array.from(badgeSet),
     macroSummary,
     entriesByDate,
+    completeEntries,
+    goals,
+    goalDays,
+  };
+}
+
+// Aggregate exercise rollups into a single monthly summary.
+export function aggregateExerciseMonth(
+  rollups: Rollup[],
+  monthStart: string,
+  monthEnd: string,
+  options: { includePartialWeeks?: boolean; weeklyTargetMinutes?: number } = {},
+): ExerciseMonthlySummary {
+  const dateRange = listDateRange(monthStart, monthEnd);
+  const filtered = filterRollups(rollups, monthStart, monthEnd, options.includePartialWeeks ?? false);
+  const entriesByDate = mergeEntriesByDate(filtered, monthStart, monthEnd);
+  const minutesByDate = mergeEntriesByDate(filtered, monthStart, monthEnd, "minutesByDate");
+  const sessions = sumValues(entriesByDate);
+  const activeMinutes = sumValues(minutesByDate);
+  const activeDays = Object.values(entriesByDate).filter((count) => count > 0).length;
+
+  // Scale the most recent weekly target to the month's length.
+  const latest = filtered[filtered.length - 1]?.stats as ExerciseStatsShape | undefined;
+  const weeklyTarget = latest?.targetMinutes ?? options.weeklyTargetMinutes ?? 150;
+  const targetMinutes = Math.round((weeklyTarget * dateRange.length) / 7);
+  const completionRate = targetMinutes ? Math.min(100, Math.round((activeMinutes / targetMinutes) * 100)) : 0;
+
+  let xp = 0;
+  const badgeSet = new Set<string>();
+  const minutesByIntensity: Record<string, number> = {};
+  for (const rollup of filtered) {
+    const stats = rollup.stats as ExerciseStatsShape;
+    xp += rollup.xp;
+    for (const badge of rollup.badges ?? []) badgeSet.add(badge);
+    for (const [intensity, minutes] of Object.entries(stats.minutesByIntensity ?? {})) {
+      minutesByIntensity[intensity] = (minutesByIntensity[intensity] ?? 0) + minutes;
+    }
+  }
+
+  return {
+    monthStart,
+    monthEnd,
+    rollupsIncluded: filtered.length,
+    sessions,
+    activeMinutes,
+    activeDays,
+    targetMinutes,
+    completionRate,
+    streak: calculateCurrentStreak(dateRange, entriesByDate),
+    xp,
+    badges: Array.from(badgeSet),
+    minutesByIntensity,
+    entriesByDate,
   };
 }
 
@@ -193,12 +327,28 @@ function filterRollups(
   });
 }
 
+// Collectors can re-run a week with a shifted window; keep the newest rollup and drop ones it overlaps.
+export function selectNonOverlappingRollups<T extends Pick<Rollup, "periodStart" | "periodEnd">>(rollups: T[]): T[] {
+  const sorted = [...rollups].sort((a, b) => b.periodEnd.localeCompare(a.periodEnd));
+  const selected: T[] = [];
+  for (const rollup of sorted) {
+    const last = selected.at(-1);
+    if (!last || rollup.periodEnd < last.periodStart) selected.push(rollup);
+  }
+  return selected;
+}
+
 // Merge per-day counts across rollups (handling overlap safely).
-function mergeEntriesByDate(rollups: Rollup[], monthStart: string, monthEnd: string) {
+function mergeEntriesByDate(
+  rollups: Rollup[],
+  monthStart: string,
+  monthEnd: string,
+  field: "entriesByDate" | "minutesByDate" | "slotsByDate" = "entriesByDate",
+) {
   const entriesByDate: Record<string, number> = {};
   for (const rollup of rollups) {
-    const stats = rollup.stats as FoodStatsShape | BloodSugarStatsShape;
-    const entries = stats.entriesByDate ?? {};
+    const stats = rollup.stats as Partial<Record<typeof field, Record<string, number>>>;
+    const entries = stats[field] ?? {};
     for (const [date, count] of Object.entries(entries)) {
       if (date < monthStart || date > monthEnd) continue;
       const current = entriesByDate[date];
@@ -209,6 +359,19 @@ function mergeEntriesByDate(rollups: Rollup[], monthStart: string, monthEnd: str
   return entriesByDate;
 }
 
+// Filled schedule slots per day; rollups from before slot tracking count readings up to the daily slots.
+function mergeSlotsByDate(rollups: Rollup[], monthStart: string, monthEnd: string, perDay: number) {
+  const withSlots = rollups.map((rollup) => {
+    const stats = (rollup.stats ?? {}) as BloodSugarStatsShape;
+    if (stats.slotsByDate) return rollup;
+    const slotsByDate = Object.fromEntries(
+      Object.entries(stats.entriesByDate ?? {}).map(([date, count]) => [date, Math.min(count, perDay)]),
+    );
+    return { ...rollup, stats: { ...rollup.stats, slotsByDate } };
+  });
+  return mergeEntriesByDate(withSlots, monthStart, monthEnd, "slotsByDate");
+}
+
 // Roll up macro stats across all matching rollups.
 function aggregateMacroSummary(rollups: Rollup[]) {
   const summary: Record<string, FoodMacroStats> = {};
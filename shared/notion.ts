@@ -1,4 +1,18 @@
 export const NOTION_VERSION = "2022-06-28";
+const NOTION_API_URL = "https://api.notion.com/v1";
+
+// Statuses Notion documents as safe to retry (conflicts, rate limits, server errors).
+const RETRYABLE_STATUSES = new Set([409, 429, 500, 502, 503, 504]);
+// A create or append may have gone through despite a conflict or server error, so only a rate limit (never applied)
+// is retried.
+const NON_IDEMPOTENT_RETRYABLE_STATUSES = new Set([429]);
+
+const DEFAULT_RETRY_OPTIONS: Required<Omit<NotionRetryOptions, "sleep" | "random">> = {
+  maxRetries: 5,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  maxRetryTimeMs: 30000,
+};
 
 // Minimal Notion types used by the collectors.
 export type NotionRichText = { plain_text: string };
@@ -11,44 +25,160 @@ export type NotionTitleProperty = { title: NotionRichText[] };
 export type NotionPage = {
   id: string;
   properties: Record<string, unknown>;
+  created_time?: string;
+  last_edited_time?: string;
+  // Set on pages deleted in Notion; an incremental sync can still see them come back.
+  archived?: boolean;
+  in_trash?: boolean;
 };
 
+// Database definition: property name -> Notion property type (e.g. "number", "created_time").
+export type NotionDatabase = {
+  id: string;
+  properties: Record<string, { type: string }>;
+};
+
+// Block payloads are passed through as-is (see shared/notion_report.ts for builders).
+export type NotionBlock = Record<string, unknown> & { id?: string };
+
+// Notion accepts at most 100 children per append request.
+const MAX_BLOCKS_PER_APPEND = 100;
+
 export type NotionQueryResponse = {
   results: NotionPage[];
   has_more: boolean;
   next_cursor: string | null;
 };
 
-// Fetch all pages from a Notion database (handles pagination).
-export async function fetchNotionPages<T extends NotionPage>(
-  databaseId: string,
+// Retry tuning for Notion requests; sleep/random are injectable for tests.
+export type NotionRetryOptions = {
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  maxRetryTimeMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+};
+
+// Raised when Notion returns a non-2xx response (after any retries).
+export class NotionApiError extends Error {
+  readonly status: number;
+  readonly code: string | null;
+  readonly requestId: string | null;
+  readonly retries: number;
+
+  constructor(
+    message: string,
+    details: { status: number; code: string | null; requestId: string | null; retries: number },
+  ) {
+    super(message);
+    this.name = "NotionApiError";
+    this.status = details.status;
+    this.code = details.code;
+    this.requestId = details.requestId;
+    this.retries = details.retries;
+  }
+}
+
+// Structured fields for logging a Notion failure.
+export function describeNotionError(error: NotionApiError) {
+  return {
+    status: error.status,
+    code: error.code,
+    requestId: error.requestId,
+    retries: error.retries,
+  };
+}
+
+// Send a request to the Notion API, retrying transient failures with jittered backoff.
+export async function notionRequest<T>(
+  path: string,
   token: string,
-  buildBody: (cursor?: string) => Record<string, unknown>,
-): Promise<T[]> {
-  const url = `https://api.notion.com/v1/databases/${databaseId}/query`;
+  init: { method: string; body?: Record<string, unknown>; label: string; idempotent?: boolean },
+  options: NotionRetryOptions = {},
+): Promise<T> {
+  const retryable = init.idempotent === false ? NON_IDEMPOTENT_RETRYABLE_STATUSES : RETRYABLE_STATUSES;
+  const settings = { ...DEFAULT_RETRY_OPTIONS, ...options };
+  const sleep = options.sleep ?? delay;
+  const random = options.random ?? Math.random;
   const headers = {
     Authorization: `Bearer ${token}`,
     "Notion-Version": NOTION_VERSION,
     "Content-Type": "application/json",
   };
 
+  let retries = 0;
+  let waitedMs = 0;
+  while (true) {
+    const response = await fetch(`${NOTION_API_URL}${path}`, {
+      method: init.method,
+      headers,
+      ...(init.body ? { body: JSON.stringify(init.body) } : {}),
+    });
+
+    if (response.ok) {
+      return (await response.json()) as T;
+    }
+
+    const text = await response.text();
+    const waitMs = retryable.has(response.status)
+      ? calculateRetryDelay(retries, response.headers.get("Retry-After"), settings, random)
+      : null;
+    // Give up once retries or the total wait budget run out.
+    if (waitMs === null || retries >= settings.maxRetries || waitedMs + waitMs > settings.maxRetryTimeMs) {
+      throw buildNotionApiError(init.label, response, text, retries);
+    }
+
+    console.warn(`Notion ${init.label} returned ${response.status}; retrying in ${waitMs}ms.`);
+    await sleep(waitMs);
+    waitedMs += waitMs;
+    retries += 1;
+  }
+}
+
+// Prefer Notion's Retry-After hint; otherwise back off exponentially with jitter.
+export function calculateRetryDelay(
+  attempt: number,
+  retryAfter: string | null,
+  options: { baseDelayMs: number; maxDelayMs: number },
+  random: () => number = Math.random,
+): number {
+  const hinted = parseRetryAfter(retryAfter);
+  if (hinted !== null) return hinted;
+  const exponential = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  // Equal jitter keeps at least half the delay while spreading concurrent retries.
+  return Math.round(exponential / 2 + random() * (exponential / 2));
+}
+
+// Parse a Retry-After header (delta seconds or HTTP date) into milliseconds.
+export function parseRetryAfter(value: string | null, now = Date.now()): number | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return Math.round(Number(trimmed) * 1000);
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, date - now);
+}
+
+// Fetch all pages from a Notion database (handles pagination).
+export async function fetchNotionPages<T extends NotionPage>(
+  databaseId: string,
+  token: string,
+  buildBody: (cursor?: string) => Record<string, unknown>,
+  options: NotionRetryOptions = {},
+): Promise<T[]> {
   const pages: T[] = [];
   let cursor: string | null | undefined;
 
   do {
     const body = buildBody(cursor ?? undefined);
-    const response = await fetch(url, {
-      method: "POST",
-      headers,
-      body: JSON.stringify(body),
-    });
-
-    if (!response.ok) {
-      const text = await response.text();
-      throw new Error(`Notion query failed: ${response.status} ${text}`);
-    }
+    const data = await notionRequest<unknown>(
+      `/databases/${databaseId}/query`,
+      token,
+      { method: "POST", body, label: "query" },
+      options,
+    );
 
-    const data = (await response.json()) as unknown;
     if (!isNotionQueryResponse(data)) {
       throw new Error("Notion query returned unexpected shape.");
     }
@@ -60,31 +190,168 @@ export async function fetchNotionPages<T extends NotionPage>(
   return pages;
 }
 
+// Filter for pages created or edited since a sync cursor (Notion rounds edit times to the minute,
+// so on_or_after re-reads the boundary minute instead of missing edits made within it).
+export function buildLastEditedFilter(since: string): Record<string, unknown> {
+  return { timestamp: "last_edited_time", last_edited_time: { on_or_after: since } };
+}
+
+// Filter for pages created since a check time (same minute rounding as above).
+export function buildCreatedSinceFilter(since: string): Record<string, unknown> {
+  return { timestamp: "created_time", created_time: { on_or_after: since } };
+}
+
+// Advance a sync cursor to the newest last_edited_time seen.
+export function latestEditedTime(pages: NotionPage[], current: string | null): string | null {
+  let latest = current;
+  for (const page of pages) {
+    const edited = page.last_edited_time;
+    if (edited && (!latest || edited > latest)) latest = edited;
+  }
+  return latest;
+}
+
+// Retrieve a database definition (used to validate property names/types before a run).
+export async function fetchNotionDatabase(
+  databaseId: string,
+  token: string,
+  options: NotionRetryOptions = {},
+): Promise<NotionDatabase> {
+  const data = await notionRequest<unknown>(
+    `/databases/${databaseId}`,
+    token,
+    { method: "GET", label: "database retrieve" },
+    options,
+  );
+  if (!isNotionDatabase(data)) {
+    throw new Error("Notion database retrieve returned unexpected shape.");
+  }
+  return data;
+}
+
 // Update a Notion page's properties.
 export async function updateNotionPage(
   pageId: string,
   token: string,
   properties: Record<string, unknown>,
+  options: NotionRetryOptions = {},
 ): Promise<void> {
-  const url = `https://api.notion.com/v1/pages/${pageId}`;
-  const headers = {
-    Authorization: `Bearer ${token}`,
-    "Notion-Version": NOTION_VERSION,
-    "Content-Type": "application/json",
-  };
+  await notionRequest<unknown>(
+    `/pages/${pageId}`,
+    token,
+    { method: "PATCH", body: { properties }, label: "update" },
+    options,
+  );
+}
 
-  const response = await fetch(url, {
-    method: "PATCH",
-    headers,
-    body: JSON.stringify({ properties }),
+// Create a page in a database with the given properties.
+export async function createNotionPage(
+  databaseId: string,
+  token: string,
+  properties: Record<string, unknown>,
+  options: NotionRetryOptions = {},
+): Promise<NotionPage> {
+  const data = await notionRequest<unknown>(
+    "/pages",
+    token,
+    {
+      method: "POST",
+      body: { parent: { database_id: databaseId }, properties },
+      label: "page create",
+      // Retrying a create that Notion applied but failed to acknowledge would add a duplicate page.
+      idempotent: false,
+    },
+    options,
+  );
+  if (!data || typeof data !== "object" || typeof (data as Record<string, unknown>).id !== "string") {
+    throw new Error("Notion page create returned unexpected shape.");
+  }
+  return data as NotionPage;
+}
+
+// Append blocks to a page or block, batching to stay under Notion's per-request limit.
+export async function appendNotionBlocks(
+  blockId: string,
+  token: string,
+  children: NotionBlock[],
+  options: NotionRetryOptions = {},
+): Promise<void> {
+  for (let index = 0; index < children.length; index += MAX_BLOCKS_PER_APPEND) {
+    await notionRequest<unknown>(
+      `/blocks/${blockId}/children`,
+      token,
+      {
+        method: "PATCH",
+        body: { children: children.slice(index, index + MAX_BLOCKS_PER_APPEND) },
+        label: "block append",
+        // Like a create, an append Notion applied but failed to acknowledge would be added twice on retry.
+        idempotent: false,
+      },
+      options,
+    );
+  }
+}
+
+// List the top-level children of a page or block (handles pagination).
+export async function fetchNotionBlockChildren(
+  blockId: string,
+  token: string,
+  options: NotionRetryOptions = {},
+): Promise<NotionBlock[]> {
+  const blocks: NotionBlock[] = [];
+  let cursor: string | undefined;
+  do {
+    const query = cursor ? `?start_cursor=${encodeURIComponent(cursor)}` : "";
+    const data = await notionRequest<unknown>(
+      `/blocks/${blockId}/children${query}`,
+      token,
+      { method: "GET", label: "block children" },
+      options,
+    );
+    if (!isNotionQueryResponse(data)) {
+      throw new Error("Notion block children returned unexpected shape.");
+    }
+    blocks.push(...(data.results as NotionBlock[]));
+    cursor = data.has_more && data.next_cursor ? data.next_cursor : undefined;
+  } while (cursor);
+  return blocks;
+}
+
+// Delete (archive) a block.
+export async function deleteNotionBlock(blockId: string, token: string, options: NotionRetryOptions = {}): Promise<void> {
+  await notionRequest<unknown>(`/blocks/${blockId}`, token, { method: "DELETE", label: "block delete" }, options);
+}
+
+// Build a typed error from a failed response, pulling Notion's error code and request id when present.
+function buildNotionApiError(label: string, response: Response, text: string, retries: number): NotionApiError {
+  const body = safeParseErrorBody(text);
+  const code = typeof body?.code === "string" ? body.code : null;
+  const requestId = typeof body?.request_id === "string"
+    ? body.request_id
+    : response.headers.get("x-request-id");
+  const detail = typeof body?.message === "string" ? `${code ?? "error"}: ${body.message}` : text;
+  const retryNote = retries ? ` after ${retries} retr${retries === 1 ? "y" : "ies"}` : "";
+  return new NotionApiError(`Notion ${label} failed: ${response.status} ${detail}${retryNote}`, {
+    status: response.status,
+    code,
+    requestId,
+    retries,
   });
+}
 
-  if (!response.ok) {
-    const text = await response.text();
-    throw new Error(`Notion update failed: ${response.status} ${text}`);
+function safeParseErrorBody(text: string): Record<string, unknown> | null {
+  try {
+    const parsed = JSON.parse(text);
+    return parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>) : null;
+  } catch {
+    return null;
   }
 }
 
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
 // Runtime guard for Notion query responses.
 function isNotionQueryResponse(value: unknown): value is NotionQueryResponse {
   if (!value || typeof value !== "object") return false;
@@ -95,3 +362,10 @@ function isNotionQueryResponse(value: unknown): value is NotionQueryResponse {
     (typeof record.next_cursor === "string" || record.next_cursor === null)
   );
 }
+
+// Runtime guard for Notion database definitions.
+function isNotionDatabase(value: unknown): value is NotionDatabase {
+  if (!value || typeof value !== "object") return false;
+  const record = value as Record<string, unknown>;
+  return typeof record.id === "string" && !!record.properties && typeof record.properties === "object";
+}
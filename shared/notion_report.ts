@@ -0,0 +1,148 @@
+import {
+  appendNotionBlocks,
+  createNotionPage,
+  deleteNotionBlock,
+  fetchNotionBlockChildren,
+  fetchNotionPages,
+  type NotionBlock,
+  type NotionDatabase,
+  type NotionRetryOptions,
+  updateNotionPage,
+} from "./notion.ts";
+import { assertDatabaseSchema, type ExpectedProperty } from "./notion_schema.ts";
+import { type Rollup } from "./monthly_report.ts";
+
+// Weekly rollups published as pages in a Notion "Weekly Reports" database, one page per run id.
+
+export const REPORT_PROPERTIES = {
+  title: "Name",
+  runId: "Run ID",
+  category: "Category",
+  week: "Week",
+};
+
+// Title and run id identify the page; category and the stat columns are written when present.
+export const REPORT_EXPECTED_PROPERTIES: ExpectedProperty[] = [
+  { name: REPORT_PROPERTIES.title, types: ["title"] },
+  { name: REPORT_PROPERTIES.runId, types: ["rich_text"] },
+  { name: REPORT_PROPERTIES.week, types: ["date"] },
+  { name: REPORT_PROPERTIES.category, types: ["select"], required: false },
+];
+
+export type WeeklyNotionReport = {
+  title: string;
+  // Numeric stats, written to number columns with the same name when the database has them.
+  stats: Record<string, number>;
+  blocks: NotionBlock[];
+};
+
+export type WeeklyReportsConfig = {
+  token: string;
+  databaseId: string;
+};
+
+export function getWeeklyReportsConfig(): WeeklyReportsConfig | null {
+  const token = Deno.env.get("NOTION_TOKEN");
+  const databaseId = Deno.env.get("NOTION_WEEKLY_REPORTS_DB_ID");
+  if (!token || !databaseId) return null;
+  return { token, databaseId };
+}
+
+// Stats every rollup shares; trackers add their own on top.
+export function buildRollupStats(rollup: Rollup): Record<string, number> {
+  return {
+    Completion: rollup.completionRate,
+    Streak: rollup.streak,
+    XP: rollup.xp,
+  };
+}
+
+// Page properties for a report, skipping stat columns the database doesn't define as numbers.
+export function buildReportProperties(
+  rollup: Rollup,
+  report: WeeklyNotionReport,
+  database: NotionDatabase,
+): Record<string, unknown> {
+  const properties: Record<string, unknown> = {
+    [REPORT_PROPERTIES.title]: { title: richText(report.title) },
+    [REPORT_PROPERTIES.runId]: { rich_text: richText(rollup.runId) },
+    [REPORT_PROPERTIES.week]: { date: { start: rollup.periodStart, end: rollup.periodEnd } },
+  };
+  if (database.properties[REPORT_PROPERTIES.category]?.type === "select") {
+    properties[REPORT_PROPERTIES.category] = { select: { name: rollup.category } };
+  }
+  for (const [name, value] of Object.entries(report.stats)) {
+    if (database.properties[name]?.type === "number") properties[name] = { number: value };
+  }
+  return properties;
+}
+
+// Create the report page for a run, or refresh it in place when the run is re-collected.
+export async function publishWeeklyReport(
+  config: WeeklyReportsConfig,
+  rollup: Rollup,
+  report: WeeklyNotionReport,
+  options: NotionRetryOptions = {},
+): Promise<{ pageId: string; created: boolean }> {
+  const database = await assertDatabaseSchema(config.databaseId, config.token, REPORT_EXPECTED_PROPERTIES, options);
+  const properties = buildReportProperties(rollup, report, database);
+  const [existing] = await fetchNotionPages(config.databaseId, config.token, (cursor) => ({
+    filter: { property: REPORT_PROPERTIES.runId, rich_text: { equals: rollup.runId } },
+    ...(cursor ? { start_cursor: cursor } : {}),
+  }), options);
+
+  if (!existing) {
+    const page = await createNotionPage(config.databaseId, config.token, properties, options);
+    await appendNotionBlocks(page.id, config.token, report.blocks, options);
+    return { pageId: page.id, created: true };
+  }
+
+  await updateNotionPage(existing.id, config.token, properties, options);
+  // Replace the body rather than appending a second copy of the week. The new blocks go in before the old ones
+  // are deleted, so a failed append leaves the previous report in place instead of an empty page.
+  const oldBlocks = await fetchNotionBlockChildren(existing.id, config.token, options);
+  await appendNotionBlocks(existing.id, config.token, report.blocks, options);
+  for (const block of oldBlocks) {
+    if (block.id) await deleteNotionBlock(block.id, config.token, options);
+  }
+  return { pageId: existing.id, created: false };
+}
+
+export function headingBlock(text: string): NotionBlock {
+  return { object: "block", type: "heading_2", heading_2: { rich_text: richText(text) } };
+}
+
+export function paragraphBlock(text: string): NotionBlock {
+  return { object: "block", type: "paragraph", paragraph: { rich_text: richText(text) } };
+}
+
+export function bulletedListBlocks(items: string[]): NotionBlock[] {
+  return items.map((item) => ({
+    object: "block",
+    type: "bulleted_list_item",
+    bulleted_list_item: { rich_text: richText(item) },
+  }));
+}
+
+// Simple table with a header row; cells are plain text.
+export function tableBlock(headers: string[], rows: string[][]): NotionBlock {
+  const toRow = (cells: string[]) => ({
+    object: "block",
+    type: "table_row",
+    table_row: { cells: cells.map((cell) => richText(cell)) },
+  });
+  return {
+    object: "block",
+    type: "table",
+    table: {
+      table_width: headers.length,
+      has_column_header: true,
+      has_row_header: false,
+      children: [toRow(headers), ...rows.map(toRow)],
+    },
+  };
+}
+
+function richText(content: string) {
+  return [{ type: "text", text: { content } }];
+}
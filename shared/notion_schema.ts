@@ -0,0 +1,107 @@
+import { fetchNotionDatabase, type NotionDatabase, type NotionRetryOptions } from "./notion.ts";
+
+// A property a collector reads or writes, with the Notion types it knows how to handle.
+export type ExpectedProperty = {
+  name: string;
+  types: string[];
+  required?: boolean;
+};
+
+export type SchemaIssue = {
+  property: string;
+  problem: "missing" | "wrong_type";
+  expected: string[];
+  actual?: string;
+};
+
+export type ParseResult<T> = {
+  entries: T[];
+  pageCount: number;
+  skipped: number;
+  // Pages skipped only because a value isn't filled in yet; reported as data-quality issues, not parse failures.
+  incomplete: number;
+};
+
+// Raised when a database no longer matches what a collector expects.
+export class NotionSchemaError extends Error {
+  readonly issues: SchemaIssue[];
+
+  constructor(message: string, issues: SchemaIssue[] = []) {
+    super(message);
+    this.name = "NotionSchemaError";
+    this.issues = issues;
+  }
+}
+
+// Compare a database definition with the properties a collector expects.
+export function validateDatabaseSchema(database: NotionDatabase, expected: ExpectedProperty[]): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  for (const property of expected) {
+    const actual = database.properties[property.name]?.type;
+    if (!actual) {
+      // Optional properties only need checking when someone has added them.
+      if (property.required ?? true) {
+        issues.push({ property: property.name, problem: "missing", expected: property.types });
+      }
+      continue;
+    }
+    if (!property.types.includes(actual)) {
+      issues.push({ property: property.name, problem: "wrong_type", expected: property.types, actual });
+    }
+  }
+  return issues;
+}
+
+// Human-readable lines for logs and error responses.
+export function formatSchemaIssues(issues: SchemaIssue[]): string[] {
+  return issues.map((issue) => {
+    const expected = issue.expected.join(" or ");
+    if (issue.problem === "missing") {
+      return `Missing property "${issue.property}" (expected ${expected}).`;
+    }
+    return `Property "${issue.property}" is ${issue.actual} (expected ${expected}).`;
+  });
+}
+
+// Retrieve the database and fail fast when expected properties are missing or mis-typed.
+export async function assertDatabaseSchema(
+  databaseId: string,
+  token: string,
+  expected: ExpectedProperty[],
+  options: NotionRetryOptions = {},
+): Promise<NotionDatabase> {
+  const database = await fetchNotionDatabase(databaseId, token, options);
+  const issues = validateDatabaseSchema(database, expected);
+  if (!issues.length) return database;
+  const lines = formatSchemaIssues(issues);
+  throw new NotionSchemaError(`Notion database schema mismatch:\n- ${lines.join("\n- ")}`, issues);
+}
+
+// Parse pages while counting the ones the parser had to skip (apart from those `isIncomplete` recognizes).
+export function parsePages<TPage, TEntry>(
+  pages: TPage[],
+  parse: (page: TPage) => TEntry | null,
+  isIncomplete: (page: TPage) => boolean = () => false,
+): ParseResult<TEntry> {
+  const entries: TEntry[] = [];
+  let incomplete = 0;
+  for (const page of pages) {
+    const entry = parse(page);
+    if (entry) entries.push(entry);
+    else if (isIncomplete(page)) incomplete += 1;
+  }
+  return { entries, pageCount: pages.length, skipped: pages.length - entries.length - incomplete, incomplete };
+}
+
+// A run where every page was skipped is a mapping problem, not an empty week.
+export function assertPagesParsed<T>(result: ParseResult<T>, label: string): void {
+  if (result.skipped) {
+    console.warn(`${label}: skipped ${result.skipped} of ${result.pageCount} Notion pages during parsing.`);
+  }
+  if (result.pageCount > 0 && result.skipped === result.pageCount) {
+    throw new NotionSchemaError(
+      `${label}: all ${result.pageCount} Notion pages were skipped during parsing. ` +
+        "Check that property names and types match the expected schema.",
+    );
+  }
+}
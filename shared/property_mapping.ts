@@ -0,0 +1,187 @@
+import { type NotionRichText } from "./notion.ts";
+import { type ExpectedProperty } from "./notion_schema.ts";
+
+// Where a tracker field lives in Notion: the column name and its Notion property type.
+export type PropertyMapping = {
+  name: string;
+  type: string;
+};
+
+export type PropertyMap<K extends string> = Record<K, PropertyMapping>;
+
+// Property types a field can be remapped to, keyed by the type of its default column.
+const NUMBER_TYPES = ["number", "formula", "rich_text"];
+const TIMESTAMP_TYPES = ["created_time", "date", "formula", "rich_text"];
+const TEXT_TYPES = ["title", "rich_text", "select"];
+const COMPATIBLE_TYPES: Record<string, string[]> = {
+  number: NUMBER_TYPES,
+  created_time: TIMESTAMP_TYPES,
+  date: TIMESTAMP_TYPES,
+  title: TEXT_TYPES,
+  rich_text: TEXT_TYPES,
+  select: TEXT_TYPES,
+};
+
+// Load a property map from an env var holding JSON, layered over the tracker defaults.
+// Values may be a column name (`{"value": "Glucose"}`) or a full mapping (`{"value": {"name": "Glucose", "type": "formula"}}`).
+export function loadPropertyMap<K extends string>(envKey: string, defaults: PropertyMap<K>): PropertyMap<K> {
+  const raw = Deno.env.get(envKey);
+  if (!raw) return defaults;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error(`${envKey} must be a JSON object of property mappings.`);
+  }
+  return mergePropertyMap(parsed, defaults, envKey);
+}
+
+// Merge user overrides into defaults, rejecting unknown fields and unreadable types.
+export function mergePropertyMap<K extends string>(
+  overrides: unknown,
+  defaults: PropertyMap<K>,
+  label = "Property map",
+): PropertyMap<K> {
+  if (!overrides || typeof overrides !== "object" || Array.isArray(overrides)) {
+    throw new Error(`${label} must be a JSON object of property mappings.`);
+  }
+  const merged = { ...defaults };
+  for (const [field, value] of Object.entries(overrides as Record<string, unknown>)) {
+    if (!(field in defaults)) {
+      throw new Error(`${label} has unknown field "${field}". Expected one of: ${Object.keys(defaults).join(", ")}.`);
+    }
+    const key = field as K;
+    const fallback = defaults[key];
+    const mapping = coerceMapping(value, fallback);
+    if (!mapping) {
+      throw new Error(`${label} field "${field}" must be a column name or { "name", "type" }.`);
+    }
+    const allowed = compatibleTypes(fallback.type);
+    if (!allowed.includes(mapping.type)) {
+      throw new Error(`${label} field "${field}" cannot read a ${mapping.type} property (use ${allowed.join(", ")}).`);
+    }
+    merged[key] = mapping;
+  }
+  return merged;
+}
+
+// Property types a field can be mapped to, based on the type of its default column.
+export function compatibleTypes(type: string): string[] {
+  return COMPATIBLE_TYPES[type] ?? [type];
+}
+
+// Schema expectations for a mapping (the configured type is the one we require).
+export function toExpectedProperty(mapping: PropertyMapping, required = true): ExpectedProperty {
+  return { name: mapping.name, types: [mapping.type], required };
+}
+
+// Notion filter for a YYYY-MM-DD window on a timestamp field.
+export function buildDateRangeFilter(mapping: PropertyMapping, start: string, end: string): Record<string, unknown> {
+  return { and: buildRangeConditions(mapping, start, end) };
+}
+
+// Window on an optional override field (e.g. a backdated "Measured at"), using the fallback field
+// for pages where the override is empty. Text overrides can't be range-filtered, so only the fallback applies.
+export function buildPreferredDateRangeFilter(
+  preferred: PropertyMapping,
+  fallback: PropertyMapping,
+  start: string,
+  end: string,
+): Record<string, unknown> {
+  const isEmpty = preferred.type === "date"
+    ? { property: preferred.name, date: { is_empty: true } }
+    : preferred.type === "formula"
+    ? { property: preferred.name, formula: { date: { is_empty: true } } }
+    : null;
+  if (!isEmpty) return buildDateRangeFilter(fallback, start, end);
+  return {
+    or: [
+      { and: buildRangeConditions(preferred, start, end) },
+      { and: [isEmpty, ...buildRangeConditions(fallback, start, end)] },
+    ],
+  };
+}
+
+// Read a numeric value from number, formula, or text properties.
+export function readNumberProperty(value: unknown): number | null {
+  const prop = asRecord(value);
+  if (!prop) return null;
+  if ("number" in prop) return typeof prop.number === "number" ? prop.number : null;
+  if ("formula" in prop) {
+    const formula = asRecord(prop.formula);
+    if (typeof formula?.number === "number") return formula.number;
+    return typeof formula?.string === "string" ? parseNumber(formula.string) : null;
+  }
+  const text = readTextProperty(value);
+  return text === null ? null : parseNumber(text);
+}
+
+// Read a timestamp string from created_time, date, formula, or text properties.
+export function readTimestampProperty(value: unknown): string | null {
+  const prop = asRecord(value);
+  if (!prop) return null;
+  if (typeof prop.created_time === "string") return prop.created_time;
+  if ("date" in prop) return readDateStart(prop.date);
+  if ("formula" in prop) {
+    const formula = asRecord(prop.formula);
+    if (formula && "date" in formula) return readDateStart(formula.date);
+    return typeof formula?.string === "string" && formula.string.trim() ? formula.string : null;
+  }
+  return readTextProperty(value);
+}
+
+// Read plain text from title, rich_text, or select properties.
+export function readTextProperty(value: unknown): string | null {
+  const prop = asRecord(value);
+  if (!prop) return null;
+  const parts = Array.isArray(prop.title) ? prop.title : Array.isArray(prop.rich_text) ? prop.rich_text : null;
+  if (parts) {
+    const text = (parts as NotionRichText[]).map((item) => item.plain_text).join("").trim();
+    return text ? text : null;
+  }
+  const select = asRecord(prop.select);
+  return typeof select?.name === "string" && select.name.trim() ? select.name.trim() : null;
+}
+
+// Property value that writes plain text to a title, rich_text, or select column (empty text clears it).
+export function buildTextPropertyValue(type: string, text: string): Record<string, unknown> {
+  if (type === "select") return { select: text ? { name: text } : null };
+  const parts = text ? [{ type: "text", text: { content: text } }] : [];
+  return type === "title" ? { title: parts } : { rich_text: parts };
+}
+
+function buildRangeConditions(mapping: PropertyMapping, start: string, end: string): Record<string, unknown>[] {
+  const range = (condition: Record<string, string>) => {
+    if (mapping.type === "created_time") return { property: mapping.name, created_time: condition };
+    if (mapping.type === "date") return { property: mapping.name, date: condition };
+    if (mapping.type === "formula") return { property: mapping.name, formula: { date: condition } };
+    // Text timestamps can't be range-filtered, so fall back to when the page was created.
+    return { timestamp: "created_time", created_time: condition };
+  };
+  return [range({ on_or_after: start }), range({ on_or_before: end })];
+}
+
+function coerceMapping(value: unknown, fallback: PropertyMapping): PropertyMapping | null {
+  if (typeof value === "string" && value.trim()) return { name: value.trim(), type: fallback.type };
+  const record = asRecord(value);
+  if (!record) return null;
+  const name = typeof record.name === "string" && record.name.trim() ? record.name.trim() : fallback.name;
+  const type = typeof record.type === "string" && record.type.trim() ? record.type.trim() : fallback.type;
+  return { name, type };
+}
+
+function readDateStart(value: unknown): string | null {
+  const date = asRecord(value);
+  return typeof date?.start === "string" ? date.start : null;
+}
+
+function parseNumber(value: string): number | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const parsed = Number(trimmed);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === "object" ? (value as Record<string, unknown>) : null;
+}
@@ -0,0 +1,159 @@
+import { CANONICAL_UNIT, formatGlucose, formatGlucoseRange, type GlucoseUnit, loadDisplayUnit, toMgdl } from "./glucose_units.ts";
+
+// Reading context tags (fasting, pre-meal, ...) and the target range each one is judged against.
+
+export const READING_CONTEXTS = ["fasting", "pre_meal", "post_meal", "bedtime", "random"] as const;
+
+export type ReadingContext = typeof READING_CONTEXTS[number];
+
+export type TargetRange = {
+  low: number;
+  high: number;
+};
+
+export type ContextTargets = Record<ReadingContext, TargetRange>;
+
+// Per-context stats; `total` is kept so monthly summaries can merge weeks exactly.
+export type ContextStats = {
+  count: number;
+  total: number;
+  avg: number;
+  min: number;
+  max: number;
+  inRange: number;
+  inRangeRate: number;
+  target: TargetRange;
+};
+
+export type ContextStatsMap = Partial<Record<ReadingContext, ContextStats>>;
+
+export const CONTEXT_LABELS: Record<ReadingContext, string> = {
+  fasting: "Fasting",
+  pre_meal: "Pre-meal",
+  post_meal: "Post-meal",
+  bedtime: "Bedtime",
+  random: "Random",
+};
+
+// Common adult targets (mg/dL); override with BLOOD_SUGAR_CONTEXT_TARGETS.
+export const DEFAULT_CONTEXT_TARGETS: ContextTargets = {
+  fasting: { low: 80, high: 130 },
+  pre_meal: { low: 80, high: 130 },
+  post_meal: { low: 80, high: 180 },
+  bedtime: { low: 90, high: 150 },
+  random: { low: 70, high: 180 },
+};
+
+// Map a Notion select/text value ("Pre-meal", "post meal", "BEDTIME") onto a known context.
+export function parseReadingContext(value: string | null): ReadingContext | null {
+  if (!value) return null;
+  const key = value.trim().toLowerCase().replace(/[\s-]+/g, "_");
+  return (READING_CONTEXTS as readonly string[]).includes(key) ? (key as ReadingContext) : null;
+}
+
+// Load target overrides from JSON in the display unit, e.g. {"fasting": {"low": 70, "high": 100}}.
+export function loadContextTargets(): ContextTargets {
+  const raw = Deno.env.get("BLOOD_SUGAR_CONTEXT_TARGETS");
+  if (!raw) return DEFAULT_CONTEXT_TARGETS;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error("BLOOD_SUGAR_CONTEXT_TARGETS must be a JSON object of target ranges.");
+  }
+  return mergeContextTargets(parsed, DEFAULT_CONTEXT_TARGETS, loadDisplayUnit());
+}
+
+// Overrides are given in `unit` and stored as mg/dL.
+export function mergeContextTargets(
+  overrides: unknown,
+  defaults: ContextTargets,
+  unit: GlucoseUnit = CANONICAL_UNIT,
+): ContextTargets {
+  if (!overrides || typeof overrides !== "object" || Array.isArray(overrides)) {
+    throw new Error("BLOOD_SUGAR_CONTEXT_TARGETS must be a JSON object of target ranges.");
+  }
+  const merged = { ...defaults };
+  for (const [key, value] of Object.entries(overrides as Record<string, unknown>)) {
+    const context = parseReadingContext(key);
+    if (!context) {
+      throw new Error(`BLOOD_SUGAR_CONTEXT_TARGETS has unknown context "${key}". Expected one of: ${READING_CONTEXTS.join(", ")}.`);
+    }
+    const range = value as Partial<TargetRange> | null;
+    const low = typeof range?.low === "number" ? toMgdl(range.low, unit) : range?.low ?? defaults[context].low;
+    const high = typeof range?.high === "number" ? toMgdl(range.high, unit) : range?.high ?? defaults[context].high;
+    if (typeof low !== "number" || typeof high !== "number" || low >= high) {
+      throw new Error(`BLOOD_SUGAR_CONTEXT_TARGETS "${key}" needs numeric low < high.`);
+    }
+    merged[context] = { low, high };
+  }
+  return merged;
+}
+
+// Per-context stats for tagged readings; untagged readings only count toward the overall stats.
+export function summarizeContexts(
+  readings: Array<{ value: number; context?: ReadingContext | null }>,
+  targets: ContextTargets = DEFAULT_CONTEXT_TARGETS,
+): ContextStatsMap {
+  const summary: ContextStatsMap = {};
+  for (const reading of readings) {
+    if (!reading.context) continue;
+    const target = targets[reading.context];
+    const current = summary[reading.context] ?? emptyContextStats(target);
+    current.count += 1;
+    current.total += reading.value;
+    current.min = current.count === 1 ? reading.value : Math.min(current.min, reading.value);
+    current.max = current.count === 1 ? reading.value : Math.max(current.max, reading.value);
+    if (reading.value >= target.low && reading.value <= target.high) current.inRange += 1;
+    summary[reading.context] = finalizeContextStats(current);
+  }
+  return summary;
+}
+
+// Combine weekly context stats (e.g. for the monthly page); the latest week's target wins.
+export function mergeContextStats(maps: ContextStatsMap[]): ContextStatsMap {
+  const merged: ContextStatsMap = {};
+  for (const map of maps) {
+    for (const context of READING_CONTEXTS) {
+      const stats = map[context];
+      if (!stats?.count) continue;
+      const current = merged[context];
+      merged[context] = finalizeContextStats(
+        current
+          ? {
+            ...current,
+            count: current.count + stats.count,
+            total: current.total + stats.total,
+            min: Math.min(current.min, stats.min),
+            max: Math.max(current.max, stats.max),
+            inRange: current.inRange + stats.inRange,
+            target: stats.target,
+          }
+          : { ...stats },
+      );
+    }
+  }
+  return merged;
+}
+
+// One-line summary, e.g. "Fasting: avg 98 (90–105), 3/4 in 80–130 (75%)".
+export function formatContextLine(
+  context: ReadingContext,
+  stats: ContextStats,
+  unit: GlucoseUnit = CANONICAL_UNIT,
+): string {
+  return `${CONTEXT_LABELS[context]}: avg ${formatGlucose(stats.avg, unit)} (${formatGlucoseRange(stats.min, stats.max, unit)}), ` +
+    `${stats.inRange}/${stats.count} in ${formatGlucoseRange(stats.target.low, stats.target.high, unit)} (${stats.inRangeRate}%)`;
+}
+
+function emptyContextStats(target: TargetRange): ContextStats {
+  return { count: 0, total: 0, avg: 0, min: 0, max: 0, inRange: 0, inRangeRate: 0, target };
+}
+
+function finalizeContextStats(stats: ContextStats): ContextStats {
+  return {
+    ...stats,
+    avg: stats.count ? Math.round((stats.total / stats.count) * 10) / 10 : 0,
+    inRangeRate: stats.count ? Math.round((stats.inRange / stats.count) * 100) : 0,
+  };
+}
@@ -0,0 +1,118 @@
+// Daily reading schedule: named slots that drive expected counts, missed-slot detection, and report columns.
+
+// `start`/`end` are minutes since local midnight (end exclusive; start > end wraps past midnight).
+// Untimed slots are filled in reading order instead, with any extra readings landing in the last slot.
+export type ReadingSlot = {
+  label: string;
+  start?: number;
+  end?: number;
+};
+
+export type ReadingSchedule = ReadingSlot[];
+
+export type SlotAssignment<T> = {
+  slots: T[][];
+  // Readings outside every timed window (or without a time) on a timed schedule.
+  unscheduled: T[];
+};
+
+// Matches the original morning + evening check: any two readings a day.
+export const DEFAULT_READING_SCHEDULE: ReadingSchedule = [{ label: "1st" }, { label: "2nd" }];
+
+const TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+// Load the schedule from JSON, e.g. [{"label": "Fasting", "start": "05:00", "end": "09:00"}, ...].
+export function loadReadingSchedule(): ReadingSchedule {
+  const raw = Deno.env.get("BLOOD_SUGAR_READING_SCHEDULE");
+  if (!raw) return DEFAULT_READING_SCHEDULE;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error("BLOOD_SUGAR_READING_SCHEDULE must be a JSON array of slots.");
+  }
+  return parseReadingSchedule(parsed);
+}
+
+// Slots are either all timed ("HH:MM" start and end) or all untimed (label only).
+export function parseReadingSchedule(value: unknown): ReadingSchedule {
+  if (!Array.isArray(value) || !value.length) {
+    throw new Error("BLOOD_SUGAR_READING_SCHEDULE must be a non-empty JSON array of slots.");
+  }
+  const schedule = value.map((item, index): ReadingSlot => {
+    const slot = (typeof item === "string" ? { label: item } : item) as Record<string, unknown> | null;
+    const label = typeof slot?.label === "string" ? slot.label.trim() : "";
+    if (!label) throw new Error(`BLOOD_SUGAR_READING_SCHEDULE slot ${index + 1} needs a label.`);
+    if (slot?.start === undefined && slot?.end === undefined) return { label };
+    const start = parseSlotTime(slot?.start);
+    const end = parseSlotTime(slot?.end);
+    if (start === null || end === null || start === end) {
+      throw new Error(`BLOOD_SUGAR_READING_SCHEDULE "${label}" needs different "HH:MM" start and end times.`);
+    }
+    return { label, start, end };
+  });
+  const labels = new Set(schedule.map((slot) => slot.label));
+  if (labels.size !== schedule.length) {
+    throw new Error("BLOOD_SUGAR_READING_SCHEDULE slot labels must be unique.");
+  }
+  const timed = schedule.filter(isTimedSlot).length;
+  if (timed && timed !== schedule.length) {
+    throw new Error("BLOOD_SUGAR_READING_SCHEDULE slots must all have times or all be untimed.");
+  }
+  return schedule;
+}
+
+export function isTimedSlot(slot: ReadingSlot): slot is Required<ReadingSlot> {
+  return slot.start !== undefined && slot.end !== undefined;
+}
+
+export function isTimedSchedule(schedule: ReadingSchedule): boolean {
+  return schedule.some(isTimedSlot);
+}
+
+// First slot whose window contains the time; null when none does.
+export function findSlotIndex(minutes: number | null, schedule: ReadingSchedule): number | null {
+  if (minutes === null) return null;
+  const index = schedule.findIndex((slot) => isTimedSlot(slot) && inWindow(minutes, slot.start, slot.end));
+  return index === -1 ? null : index;
+}
+
+// Assign one day's readings (already in time order) to slots.
+export function assignSlots<T>(
+  readings: T[],
+  minutesOf: (reading: T) => number | null,
+  schedule: ReadingSchedule,
+): SlotAssignment<T> {
+  const slots: T[][] = schedule.map(() => []);
+  const unscheduled: T[] = [];
+  readings.forEach((reading, order) => {
+    if (!isTimedSchedule(schedule)) {
+      slots[Math.min(order, schedule.length - 1)].push(reading);
+      return;
+    }
+    const index = findSlotIndex(minutesOf(reading), schedule);
+    if (index === null) unscheduled.push(reading);
+    else slots[index].push(reading);
+  });
+  return { slots, unscheduled };
+}
+
+// e.g. "Fasting (05:00–09:00)" for timed slots, the bare label otherwise.
+export function formatSlotLabel(slot: ReadingSlot): string {
+  if (!isTimedSlot(slot)) return slot.label;
+  return `${slot.label} (${formatMinutes(slot.start)}–${formatMinutes(slot.end)})`;
+}
+
+function inWindow(minutes: number, start: number, end: number): boolean {
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+function parseSlotTime(value: unknown): number | null {
+  if (typeof value !== "string") return null;
+  const match = value.trim().match(TIME_PATTERN);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+function formatMinutes(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
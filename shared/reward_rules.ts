@@ -0,0 +1,303 @@
+import { type Rollup } from "./monthly_report.ts";
+
+// Declarative XP and badge rules, evaluated the same way for every tracker category.
+
+// Facts a rule can test: the rollup's all-time streak and completion rate, its stats flattened to dotted keys
+// (e.g. "totalEntries", "longestStreak", "timeInRange.percents.inRange"), and any extras the category adds (e.g. "perfectWeek").
+export type RewardFacts = Record<string, number | boolean>;
+
+export const CONDITION_OPERATORS = [">", ">=", "<", "<=", "==", "!="] as const;
+export type ConditionOperator = typeof CONDITION_OPERATORS[number];
+
+// A missing fact never matches, so a rule can't fire on a week that lacks the stat.
+export type RuleCondition = {
+  fact: string;
+  op: ConditionOperator;
+  value: number | boolean;
+};
+
+// Base XP is the sum of fact × points; each multiplier whose conditions all hold scales it, then it is rounded.
+export type XpRules = {
+  points: { fact: string; points: number }[];
+  multipliers: { label: string; factor: number; when: RuleCondition[] }[];
+};
+
+export type BadgeRule = {
+  name: string;
+  description: string;
+  when: RuleCondition[];
+};
+
+export type RewardRules = {
+  xp: XpRules;
+  badges: BadgeRule[];
+};
+
+// All-time streak lengths (days in a row with an entry) that earn a badge in the week the streak reaches them.
+export const STREAK_MILESTONES = [30, 100, 365];
+
+export const STREAK_MILESTONE_BADGES: BadgeRule[] = STREAK_MILESTONES.map((days) => ({
+  name: `Cage Marathon: ${days}-Day Streak`,
+  description: `Logged something ${days} days in a row.`,
+  when: [{ fact: "streak", op: ">=", value: days }, { fact: "streakBeforeWeek", op: "<", value: days }],
+}));
+
+// Glucose values here are mg/dL, like the stored stats.
+export const BLOOD_SUGAR_REWARD_RULES: RewardRules = {
+  xp: {
+    points: [{ fact: "totalEntries", points: 12 }],
+    multipliers: [
+      { label: "Perfect week", factor: 1.2, when: [{ fact: "perfectWeek", op: "==", value: true }] },
+      {
+        label: "Healthy average",
+        factor: 1.2,
+        when: [{ fact: "avg", op: ">", value: 0 }, { fact: "avg", op: "<", value: 100 }],
+      },
+    ],
+  },
+  badges: [
+    {
+      name: "Mandy-Mode Consistency",
+      description: "Logged at least 7 readings this week.",
+      when: [{ fact: "totalEntries", op: ">=", value: 7 }],
+    },
+    {
+      name: "Cage Match: Full Week",
+      description: "Logged at least 14 readings this week.",
+      when: [{ fact: "totalEntries", op: ">=", value: 14 }],
+    },
+    {
+      name: "Cage Match: Double-Check Champion",
+      description: "Filled every reading slot on all 7 days.",
+      when: [{ fact: "perfectWeek", op: "==", value: true }],
+    },
+    {
+      name: "National Treasure: Healthy Average",
+      description: "Weekly average under 100 mg/dL.",
+      when: [{ fact: "avg", op: ">", value: 0 }, { fact: "avg", op: "<", value: 100 }],
+    },
+    ...STREAK_MILESTONE_BADGES,
+  ],
+};
+
+// Logging consistency, complete macros, and the daily goals in FOOD_DAILY_GOALS ("goalDays.<macro>" counts
+// the logged days that met each one).
+export const FOOD_REWARD_RULES: RewardRules = {
+  xp: {
+    points: [
+      { fact: "uniqueDays", points: 10 },
+      { fact: "completeEntries", points: 2 },
+      { fact: "goalDays.protein", points: 5 },
+      { fact: "goalDays.fiber", points: 5 },
+      { fact: "goalDays.sugar", points: 5 },
+      { fact: "goalDays.sodium", points: 5 },
+    ],
+    multipliers: [
+      { label: "Logged every day", factor: 1.2, when: [{ fact: "completionRate", op: ">=", value: 100 }] },
+    ],
+  },
+  badges: [
+    {
+      name: "Con Air: Logged Every Day",
+      description: "Logged food on all 7 days.",
+      when: [{ fact: "completionRate", op: ">=", value: 100 }],
+    },
+    {
+      name: "Face/Off: Full Macros",
+      description: "Logged at least 7 entries, 90% or more with every macro filled in.",
+      when: [{ fact: "totalEntries", op: ">=", value: 7 }, { fact: "completeRate", op: ">=", value: 90 }],
+    },
+    {
+      name: "The Rock: Protein Goal",
+      description: "Reached the daily protein goal on at least 5 days.",
+      when: [{ fact: "goalDays.protein", op: ">=", value: 5 }],
+    },
+    {
+      name: "Ghost Rider: Fiber Goal",
+      description: "Reached the daily fiber goal on at least 5 days.",
+      when: [{ fact: "goalDays.fiber", op: ">=", value: 5 }],
+    },
+    {
+      name: "Snake Eyes: Sodium in Check",
+      description: "Stayed under the daily sodium limit on at least 5 days.",
+      when: [{ fact: "goalDays.sodium", op: ">=", value: 5 }],
+    },
+    {
+      name: "Vampire's Kiss: Sugar in Check",
+      description: "Stayed under the daily sugar limit on at least 5 days.",
+      when: [{ fact: "goalDays.sugar", op: ">=", value: 5 }],
+    },
+    ...STREAK_MILESTONE_BADGES,
+  ],
+};
+
+const NO_REWARDS: RewardRules = { xp: { points: [], multipliers: [] }, badges: [] };
+
+// Exercise has no rules of its own yet and earns only streak milestones until REWARD_RULES gives it more.
+const STREAK_ONLY_REWARDS: RewardRules = { xp: NO_REWARDS.xp, badges: STREAK_MILESTONE_BADGES };
+
+export const DEFAULT_REWARD_RULES: Record<string, RewardRules> = {
+  blood_sugar: BLOOD_SUGAR_REWARD_RULES,
+  food: FOOD_REWARD_RULES,
+  exercise: STREAK_ONLY_REWARDS,
+};
+
+// Per-category overrides from JSON, e.g. {"exercise": {"badges": [{"name": "...", "description": "...", "when": [...]}]}}.
+// A category's `xp` or `badges` replaces the default one as a whole.
+export function loadRewardRules(category: string): RewardRules {
+  const defaults = DEFAULT_REWARD_RULES[category] ?? NO_REWARDS;
+  const raw = Deno.env.get("REWARD_RULES");
+  if (!raw) return defaults;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error("REWARD_RULES must be a JSON object keyed by category.");
+  }
+  if (!isObject(parsed)) throw new Error("REWARD_RULES must be a JSON object keyed by category.");
+  return parsed[category] === undefined ? defaults : mergeRewardRules(parsed[category], defaults, category);
+}
+
+export function mergeRewardRules(overrides: unknown, defaults: RewardRules, category = "category"): RewardRules {
+  const label = `REWARD_RULES "${category}"`;
+  if (!isObject(overrides)) throw new Error(`${label} must be an object with "xp" and/or "badges".`);
+  for (const key of Object.keys(overrides)) {
+    if (key !== "xp" && key !== "badges") throw new Error(`${label} has unknown key "${key}". Expected xp or badges.`);
+  }
+  return {
+    xp: overrides.xp === undefined ? defaults.xp : parseXpRules(overrides.xp, `${label} xp`),
+    badges: overrides.badges === undefined ? defaults.badges : parseBadgeRules(overrides.badges, `${label} badges`),
+  };
+}
+
+// Flatten a rollup's numeric and boolean stats (arrays are skipped) and layer the category's extras on top.
+export function collectRewardFacts(
+  rollup: Pick<Rollup, "streak" | "completionRate" | "stats">,
+  extra: RewardFacts = {},
+): RewardFacts {
+  const facts: RewardFacts = { streak: rollup.streak, completionRate: rollup.completionRate };
+  const visit = (value: unknown, path: string) => {
+    if (typeof value === "number" || typeof value === "boolean") {
+      facts[path] = value;
+    } else if (isObject(value)) {
+      for (const [key, child] of Object.entries(value)) visit(child, path ? `${path}.${key}` : key);
+    }
+  };
+  visit(rollup.stats ?? {}, "");
+  return { ...facts, ...extra };
+}
+
+export function evaluateRewards(rules: RewardRules, facts: RewardFacts): { xp: number; badges: string[] } {
+  return { xp: calculateRuleXp(rules.xp, facts), badges: awardBadges(rules.badges, facts) };
+}
+
+export function calculateRuleXp(rules: XpRules, facts: RewardFacts): number {
+  const base = rules.points.reduce((sum, rule) => {
+    const value = facts[rule.fact];
+    return typeof value === "number" ? sum + value * rule.points : sum;
+  }, 0);
+  if (base === 0) return 0;
+  const factor = rules.multipliers
+    .filter((multiplier) => matchesAll(multiplier.when, facts))
+    .reduce((product, multiplier) => product * multiplier.factor, 1);
+  return Math.round(base * factor);
+}
+
+// Badge names in rule order.
+export function awardBadges(rules: BadgeRule[], facts: RewardFacts): string[] {
+  return rules.filter((rule) => matchesAll(rule.when, facts)).map((rule) => rule.name);
+}
+
+export function matchesAll(conditions: RuleCondition[], facts: RewardFacts): boolean {
+  return conditions.every((condition) => matches(condition, facts[condition.fact]));
+}
+
+function matches(condition: RuleCondition, actual: number | boolean | undefined): boolean {
+  if (actual === undefined) return false;
+  switch (condition.op) {
+    case "==":
+      return actual === condition.value;
+    case "!=":
+      return actual !== condition.value;
+    default: {
+      if (typeof actual !== "number" || typeof condition.value !== "number") return false;
+      if (condition.op === ">") return actual > condition.value;
+      if (condition.op === ">=") return actual >= condition.value;
+      if (condition.op === "<") return actual < condition.value;
+      return actual <= condition.value;
+    }
+  }
+}
+
+function parseXpRules(value: unknown, label: string): XpRules {
+  if (!isObject(value)) throw new Error(`${label} must be an object with "points" and "multipliers".`);
+  const points = value.points ?? [];
+  const multipliers = value.multipliers ?? [];
+  if (!Array.isArray(points) || !Array.isArray(multipliers)) {
+    throw new Error(`${label} "points" and "multipliers" must be arrays.`);
+  }
+  return {
+    points: points.map((rule, index) => {
+      if (!isObject(rule) || typeof rule.fact !== "string" || !isFiniteNumber(rule.points)) {
+        throw new Error(`${label} points[${index}] must look like {"fact": "totalEntries", "points": 12}.`);
+      }
+      return { fact: rule.fact, points: rule.points };
+    }),
+    multipliers: multipliers.map((rule, index) => {
+      if (!isObject(rule) || !isFiniteNumber(rule.factor) || rule.factor <= 0) {
+        throw new Error(`${label} multipliers[${index}] needs a positive "factor".`);
+      }
+      return {
+        label: typeof rule.label === "string" ? rule.label : `Multiplier ${index + 1}`,
+        factor: rule.factor,
+        when: parseConditions(rule.when, `${label} multipliers[${index}]`),
+      };
+    }),
+  };
+}
+
+function parseBadgeRules(value: unknown, label: string): BadgeRule[] {
+  if (!Array.isArray(value)) throw new Error(`${label} must be an array.`);
+  const names = new Set<string>();
+  return value.map((rule, index) => {
+    if (!isObject(rule) || typeof rule.name !== "string" || !rule.name.trim()) {
+      throw new Error(`${label}[${index}] needs a "name".`);
+    }
+    const name = rule.name.trim();
+    if (names.has(name)) throw new Error(`${label} has more than one badge named "${name}".`);
+    names.add(name);
+    return {
+      name,
+      description: typeof rule.description === "string" ? rule.description : "",
+      when: parseConditions(rule.when, `${label}[${index}]`),
+    };
+  });
+}
+
+function parseConditions(value: unknown, label: string): RuleCondition[] {
+  if (!Array.isArray(value) || !value.length) {
+    throw new Error(`${label} "when" must be a non-empty array of conditions.`);
+  }
+  return value.map((condition, index) => {
+    if (
+      !isObject(condition) ||
+      typeof condition.fact !== "string" ||
+      !(CONDITION_OPERATORS as readonly unknown[]).includes(condition.op) ||
+      !(isFiniteNumber(condition.value) || typeof condition.value === "boolean")
+    ) {
+      throw new Error(
+        `${label} when[${index}] must look like {"fact": "avg", "op": "<", "value": 100} ` +
+          `(op one of ${CONDITION_OPERATORS.join(" ")}).`,
+      );
+    }
+    return { fact: condition.fact, op: condition.op as ConditionOperator, value: condition.value };
+  });
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
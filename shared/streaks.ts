@@ -0,0 +1,89 @@
+import { addDays } from "./date.ts";
+import { type Rollup } from "./monthly_report.ts";
+import { type MonthlySection, formatDays } from "./tracker.ts";
+
+// All-time streaks: days with at least one entry, merged from every stored rollup's `entriesByDate`.
+
+export type AllTimeStreaks = {
+  // Consecutive active days ending on the rollup's last day.
+  current: number;
+  // Longest run of active days ever, this week included.
+  longest: number;
+  // The streak as it stood the day before this week started (for milestone crossings).
+  beforeWeek: number;
+};
+
+// Active days from the rollups' per-day counts, optionally only those on or before `through`.
+export function collectActiveDays(rollups: Rollup[], through?: string): Set<string> {
+  const days = new Set<string>();
+  for (const rollup of rollups) {
+    const counts = ((rollup.stats ?? {}) as { entriesByDate?: Record<string, number> }).entriesByDate ?? {};
+    for (const [date, count] of Object.entries(counts)) {
+      if (count > 0 && (!through || date <= through)) days.add(date);
+    }
+  }
+  return days;
+}
+
+// `history` holds the category's rollups from before `start`; `entriesByDate` is this week's.
+export function calculateAllTimeStreaks(
+  history: Rollup[],
+  entriesByDate: Record<string, number>,
+  start: string,
+  end: string,
+): AllTimeStreaks {
+  const days = collectActiveDays(history.filter((rollup) => rollup.periodEnd < start));
+  for (const [date, count] of Object.entries(entriesByDate)) {
+    if (count > 0 && date >= start && date <= end) days.add(date);
+  }
+  return {
+    current: countStreakEndingAt(days, end),
+    longest: findLongestStreak(days),
+    beforeWeek: countStreakEndingAt(days, addDays(start, -1)),
+  };
+}
+
+export function countStreakEndingAt(days: Set<string>, date: string): number {
+  let streak = 0;
+  for (let cursor = date; days.has(cursor); cursor = addDays(cursor, -1)) streak += 1;
+  return streak;
+}
+
+export function findLongestStreak(days: Set<string>): number {
+  let longest = 0;
+  for (const date of days) {
+    // Only count forward from the first day of each run.
+    if (days.has(addDays(date, -1))) continue;
+    let length = 0;
+    for (let cursor = date; days.has(cursor); cursor = addDays(cursor, 1)) length += 1;
+    longest = Math.max(longest, length);
+  }
+  return longest;
+}
+
+// Monthly card: each category's streak as of its last stored day in the month, and its longest streak so far.
+export function buildStreakSection(
+  history: Rollup[],
+  monthEnd: string,
+  categories: { category: string; label: string }[],
+): MonthlySection {
+  const rows = categories.map(({ category, label }) => {
+    const rollups = history.filter((rollup) => rollup.category === category && rollup.periodEnd <= monthEnd);
+    // A month still in progress is only stored through the latest weekly run.
+    const through = rollups.reduce((latest, rollup) => (rollup.periodEnd > latest ? rollup.periodEnd : latest), "");
+    const days = collectActiveDays(rollups, monthEnd);
+    return { label, current: through ? countStreakEndingAt(days, through) : 0, longest: findLongestStreak(days) };
+  });
+  return {
+    title: "All-time streaks",
+    stats: rows.map((row) => ({ label: row.label, value: formatDays(row.current) })),
+    details: [
+      {
+        title: "Longest streaks",
+        rows: rows.filter((row) => row.longest > 0).map((row) => ({ label: row.label, value: formatDays(row.longest) })),
+        emptyText: "No streaks yet.",
+      },
+    ],
+    footnote: "Current streaks count back from each tracker's latest stored day this month, across week boundaries.",
+  };
+}
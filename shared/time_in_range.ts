@@ -0,0 +1,154 @@
+import { CANONICAL_UNIT, formatGlucoseRange, type GlucoseUnit, loadDisplayUnit, toMgdl } from "./glucose_units.ts";
+
+// Standard time-in-range breakdown: share of readings very low, low, in range, high, and very high.
+
+export const TIME_IN_RANGE_BANDS = ["veryLow", "low", "inRange", "high", "veryHigh"] as const;
+
+export type TimeInRangeBand = typeof TIME_IN_RANGE_BANDS[number];
+
+// Bounds in mg/dL: below `veryLow` and `low` is low, `low`..`high` is in range, above `high`/`veryHigh` is high.
+export type TimeInRangeThresholds = {
+  veryLow: number;
+  low: number;
+  high: number;
+  veryHigh: number;
+};
+
+// Counts are stored (not just percents) so weeks can be summed into a month exactly.
+export type TimeInRange = {
+  total: number;
+  counts: Record<TimeInRangeBand, number>;
+  percents: Record<TimeInRangeBand, number>;
+  thresholds: TimeInRangeThresholds;
+};
+
+// International consensus targets (Battelino et al., 2019).
+export const DEFAULT_TIME_IN_RANGE_THRESHOLDS: TimeInRangeThresholds = {
+  veryLow: 54,
+  low: 70,
+  high: 180,
+  veryHigh: 250,
+};
+
+export const TIME_IN_RANGE_LABELS: Record<TimeInRangeBand, string> = {
+  veryLow: "Very low",
+  low: "Low",
+  inRange: "In range",
+  high: "High",
+  veryHigh: "Very high",
+};
+
+export const TIME_IN_RANGE_COLORS: Record<TimeInRangeBand, string> = {
+  veryLow: "#b91c1c",
+  low: "#f87171",
+  inRange: "#4ade80",
+  high: "#fbbf24",
+  veryHigh: "#f97316",
+};
+
+// Load threshold overrides from JSON in the display unit, e.g. {"low": 80, "high": 160}.
+export function loadTimeInRangeThresholds(): TimeInRangeThresholds {
+  const raw = Deno.env.get("BLOOD_SUGAR_TIR_THRESHOLDS");
+  if (!raw) return DEFAULT_TIME_IN_RANGE_THRESHOLDS;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error("BLOOD_SUGAR_TIR_THRESHOLDS must be a JSON object like {\"low\": 70, \"high\": 180}.");
+  }
+  return mergeTimeInRangeThresholds(parsed, DEFAULT_TIME_IN_RANGE_THRESHOLDS, loadDisplayUnit());
+}
+
+// Overrides are given in `unit` and stored as mg/dL.
+export function mergeTimeInRangeThresholds(
+  overrides: unknown,
+  defaults: TimeInRangeThresholds,
+  unit: GlucoseUnit = CANONICAL_UNIT,
+): TimeInRangeThresholds {
+  if (!overrides || typeof overrides !== "object" || Array.isArray(overrides)) {
+    throw new Error("BLOOD_SUGAR_TIR_THRESHOLDS must be a JSON object like {\"low\": 70, \"high\": 180}.");
+  }
+  const merged = { ...defaults };
+  for (const [key, value] of Object.entries(overrides as Record<string, unknown>)) {
+    if (!(key in defaults)) {
+      throw new Error(`BLOOD_SUGAR_TIR_THRESHOLDS has unknown key "${key}". Expected veryLow, low, high, veryHigh.`);
+    }
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      throw new Error(`BLOOD_SUGAR_TIR_THRESHOLDS "${key}" must be a number.`);
+    }
+    merged[key as keyof TimeInRangeThresholds] = toMgdl(value, unit);
+  }
+  if (!(merged.veryLow <= merged.low && merged.low < merged.high && merged.high <= merged.veryHigh)) {
+    throw new Error("BLOOD_SUGAR_TIR_THRESHOLDS must satisfy veryLow <= low < high <= veryHigh.");
+  }
+  return merged;
+}
+
+// Boundaries count as the milder band: 70 is in range, 54 is low, 250 is high.
+export function classifyReading(value: number, thresholds: TimeInRangeThresholds): TimeInRangeBand {
+  if (value < thresholds.veryLow) return "veryLow";
+  if (value < thresholds.low) return "low";
+  if (value <= thresholds.high) return "inRange";
+  if (value <= thresholds.veryHigh) return "high";
+  return "veryHigh";
+}
+
+export function buildTimeInRange(
+  values: number[],
+  thresholds: TimeInRangeThresholds = DEFAULT_TIME_IN_RANGE_THRESHOLDS,
+): TimeInRange {
+  const counts = emptyCounts();
+  for (const value of values) counts[classifyReading(value, thresholds)] += 1;
+  return finalizeTimeInRange(counts, thresholds);
+}
+
+// Sum weekly counts; the latest week's thresholds label the result.
+export function mergeTimeInRange(
+  list: TimeInRange[],
+  thresholds: TimeInRangeThresholds = DEFAULT_TIME_IN_RANGE_THRESHOLDS,
+): TimeInRange {
+  const counts = emptyCounts();
+  for (const item of list) {
+    for (const band of TIME_IN_RANGE_BANDS) counts[band] += item.counts?.[band] ?? 0;
+  }
+  return finalizeTimeInRange(counts, list.at(-1)?.thresholds ?? thresholds);
+}
+
+// Whole-number percents that always add up to 100 (largest remainder), so stacked bars fill exactly.
+export function calculateBandPercents(counts: Record<TimeInRangeBand, number>): Record<TimeInRangeBand, number> {
+  const total = TIME_IN_RANGE_BANDS.reduce((sum, band) => sum + counts[band], 0);
+  const percents = emptyCounts();
+  if (!total) return percents;
+  const exact = TIME_IN_RANGE_BANDS.map((band) => ({ band, value: (counts[band] / total) * 100 }));
+  for (const { band, value } of exact) percents[band] = Math.floor(value);
+  let remaining = 100 - TIME_IN_RANGE_BANDS.reduce((sum, band) => sum + percents[band], 0);
+  const byRemainder = [...exact].sort((a, b) => (b.value % 1) - (a.value % 1));
+  for (const { band } of byRemainder) {
+    if (remaining <= 0) break;
+    percents[band] += 1;
+    remaining -= 1;
+  }
+  return percents;
+}
+
+// e.g. "Time in range (70–180): 72% · below 8% (very low 2%) · above 20% (very high 5%)".
+export function formatTimeInRangeLine(tir: TimeInRange, unit: GlucoseUnit = CANONICAL_UNIT): string {
+  const { percents, thresholds } = tir;
+  const range = formatGlucoseRange(thresholds.low, thresholds.high, unit);
+  if (!tir.total) return `Time in range (${range}): no readings`;
+  return `Time in range (${range}): ${percents.inRange}%` +
+    ` · below ${percents.veryLow + percents.low}% (very low ${percents.veryLow}%)` +
+    ` · above ${percents.high + percents.veryHigh}% (very high ${percents.veryHigh}%)`;
+}
+
+function emptyCounts(): Record<TimeInRangeBand, number> {
+  return { veryLow: 0, low: 0, inRange: 0, high: 0, veryHigh: 0 };
+}
+
+function finalizeTimeInRange(
+  counts: Record<TimeInRangeBand, number>,
+  thresholds: TimeInRangeThresholds,
+): TimeInRange {
+  const total = TIME_IN_RANGE_BANDS.reduce((sum, band) => sum + counts[band], 0);
+  return { total, counts, percents: calculateBandPercents(counts), thresholds };
+}
@@ -0,0 +1,123 @@
+import { addDays } from "./date.ts";
+import { CANONICAL_UNIT, formatGlucose, type GlucoseUnit } from "./glucose_units.ts";
+import { type Rollup, selectNonOverlappingRollups } from "./monthly_report.ts";
+
+// Hour-of-day buckets and the recurring patterns (dawn highs, post-dinner highs, overnight lows) found in them.
+
+// Readings (mg/dL) by local hour "0".."23". Values are kept, not just averages, so each pattern rule can apply
+// its own threshold across weeks of history.
+export type HourBuckets = Partial<Record<string, number[]>>;
+
+// `startHour`..`endHour` is inclusive in local time; a pattern needs enough readings past the threshold.
+export type PatternRule = {
+  id: string;
+  label: string;
+  startHour: number;
+  endHour: number;
+  direction: "above" | "below";
+  threshold: number;
+  minSupporting: number;
+  minShare: number;
+};
+
+export type DetectedPattern = {
+  rule: PatternRule;
+  readings: number;
+  supporting: number;
+  share: number;
+  average: number;
+};
+
+// Weeks of history the weekly email looks across.
+export const PATTERN_WINDOW_DAYS = 28;
+
+// Thresholds follow the fasting and post-meal targets and the standard low cut-off.
+export const PATTERN_RULES: PatternRule[] = [
+  {
+    id: "dawn_phenomenon",
+    label: "Early-morning highs (dawn phenomenon)",
+    startHour: 4,
+    endHour: 8,
+    direction: "above",
+    threshold: 130,
+    minSupporting: 3,
+    minShare: 50,
+  },
+  {
+    id: "post_dinner_high",
+    label: "Post-dinner highs",
+    startHour: 19,
+    endHour: 22,
+    direction: "above",
+    threshold: 180,
+    minSupporting: 3,
+    minShare: 50,
+  },
+  {
+    id: "overnight_low",
+    label: "Overnight lows",
+    startHour: 0,
+    endHour: 5,
+    direction: "below",
+    threshold: 70,
+    minSupporting: 2,
+    minShare: 25,
+  },
+];
+
+// Readings without a time of day (date-only entries) are left out.
+export function buildHourBuckets(readings: Array<{ hour: number | null; value: number }>): HourBuckets {
+  const buckets: HourBuckets = {};
+  for (const { hour, value } of readings) {
+    if (hour === null || hour < 0 || hour > 23) continue;
+    (buckets[String(hour)] ??= []).push(value);
+  }
+  return buckets;
+}
+
+export function mergeHourBuckets(list: HourBuckets[]): HourBuckets {
+  const merged: HourBuckets = {};
+  for (const buckets of list) {
+    for (const [hour, values] of Object.entries(buckets)) {
+      if (values?.length) (merged[hour] ??= []).push(...values);
+    }
+  }
+  return merged;
+}
+
+// Hour buckets from the rollups ending in the `days` up to `end` (newest rollup wins on overlap).
+export function collectPatternBuckets(rollups: Rollup[], end: string, days = PATTERN_WINDOW_DAYS): HourBuckets {
+  const start = addDays(end, -(days - 1));
+  const inWindow = selectNonOverlappingRollups(
+    rollups.filter((rollup) => rollup.periodEnd >= start && rollup.periodEnd <= end),
+  );
+  return mergeHourBuckets(
+    inWindow.map((rollup) => ((rollup.stats ?? {}) as { byHour?: HourBuckets }).byHour ?? {}),
+  );
+}
+
+export function detectPatterns(buckets: HourBuckets, rules: PatternRule[] = PATTERN_RULES): DetectedPattern[] {
+  return rules.flatMap((rule) => {
+    const values: number[] = [];
+    for (let hour = rule.startHour; hour <= rule.endHour; hour += 1) values.push(...(buckets[String(hour)] ?? []));
+    const supporting = values.filter((value) =>
+      rule.direction === "above" ? value > rule.threshold : value < rule.threshold
+    ).length;
+    const share = values.length ? Math.round((supporting / values.length) * 100) : 0;
+    if (supporting < rule.minSupporting || share < rule.minShare) return [];
+    const average = Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10;
+    return [{ rule, readings: values.length, supporting, share, average }];
+  });
+}
+
+// e.g. "Post-dinner highs: 4 of 5 readings 19:00–22:59 were above 180 mg/dL (avg 196 mg/dL)".
+export function formatPatternLine(pattern: DetectedPattern, unit: GlucoseUnit = CANONICAL_UNIT): string {
+  const { rule } = pattern;
+  return `${rule.label}: ${pattern.supporting} of ${pattern.readings} readings ${formatHourWindow(rule)} ` +
+    `were ${rule.direction} ${formatGlucose(rule.threshold, unit)} ${unit} ` +
+    `(avg ${formatGlucose(pattern.average, unit)} ${unit})`;
+}
+
+export function formatHourWindow(rule: Pick<PatternRule, "startHour" | "endHour">): string {
+  return `${String(rule.startHour).padStart(2, "0")}:00–${String(rule.endHour).padStart(2, "0")}:59`;
+}
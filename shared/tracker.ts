@@ -0,0 +1,131 @@
+import { type BadgeAward } from "./badge_history.ts";
+import { type NotionPage } from "./notion.ts";
+import { type ExpectedProperty } from "./notion_schema.ts";
+import { type PropertyMap, type PropertyMapping } from "./property_mapping.ts";
+import { type Rollup } from "./monthly_report.ts";
+import { type WeeklyNotionReport } from "./notion_report.ts";
+import { type LevelUpdate } from "./xp_levels.ts";
+
+// A tracker describes one Notion-backed category end to end: how to read it, roll it up, and present it.
+// Registering a descriptor in trackers/registry.ts gives it collection, SQLite persistence, and a monthly card.
+
+// Every tracker entry carries its day (YYYY-MM-DD) and, when known, the Notion page it came from.
+export type TrackerEntry = {
+  date: string;
+  pageId?: string;
+};
+
+export type TrackerContext = {
+  start: string;
+  end: string;
+  // Stored rollups for this category that ended before `start`, oldest first.
+  history?: Rollup[];
+  // Issues from the tracker's `reviewEntries` pass for this week.
+  quality?: DataQualityIssue[];
+  // This week's badges classified against the badge history (set once the rollup is built).
+  awards?: BadgeAward[];
+  // Lifetime XP levels before and after this week's rollup (set once the rollup is built).
+  levels?: LevelUpdate;
+};
+
+// A page flagged by a data-quality pass; `excluded` entries were left out of the rollup.
+export type DataQualityIssue = {
+  pageId: string;
+  date: string | null;
+  kind: string;
+  detail: string;
+  excluded: boolean;
+};
+
+export type EntryReview<TEntry> = {
+  entries: TEntry[];
+  issues: DataQualityIssue[];
+};
+
+export type TrackerEmail = {
+  subject: string;
+  text: string;
+  html: string;
+};
+
+export type MonthlyStat = {
+  label: string;
+  value: string | number;
+  // Plain-language explanation shown under detail rows.
+  hint?: string;
+};
+
+// A 100% bar split into colored segments (e.g. time in range); `percent` values should add up to 100.
+export type StackedBar = {
+  title: string;
+  segments: Array<{ label: string; percent: number; color: string }>;
+  emptyText: string;
+};
+
+// Card content for the monthly report page.
+export type MonthlySection = {
+  title: string;
+  stats: MonthlyStat[];
+  badges?: string[];
+  bars?: StackedBar[];
+  details?: Array<{ title: string; rows: MonthlyStat[]; emptyText: string }>;
+  // Small print under the card (e.g. a medical disclaimer).
+  footnote?: string;
+};
+
+export type TrackerDescriptor<
+  TEntry extends TrackerEntry,
+  TMap extends PropertyMap<string>,
+  TRollup extends Rollup = Rollup,
+> = {
+  category: string;
+  label: string;
+  // Env var holding the Notion database id.
+  databaseEnv: string;
+  loadPropertyMap: () => TMap;
+  expectedProperties: (propertyMap: TMap) => ExpectedProperty[];
+  // Property used to query the weekly window.
+  dateProperty: (propertyMap: TMap) => PropertyMapping;
+  // Optional property that, when filled in and present in the database, dates a page instead of dateProperty.
+  preferredDateProperty?: (propertyMap: TMap) => PropertyMapping;
+  parseEntry: (page: NotionPage, propertyMap: TMap) => TEntry | null;
+  // Optional: a page parseEntry skipped only because its value is still empty. These go to reviewEntries
+  // rather than counting as parse failures, so a week of unfilled pages isn't mistaken for a mapping problem.
+  isIncompleteEntry?: (page: NotionPage, propertyMap: TMap) => boolean;
+  // Optional data-quality pass before the rollup; `unparsedPages` are fetched pages parseEntry skipped.
+  reviewEntries?: (
+    entries: TEntry[],
+    unparsedPages: NotionPage[],
+    propertyMap: TMap,
+    range: { start: string; end: string },
+  ) => EntryReview<TEntry>;
+  // Text column that receives each flagged page's issues (cleared once fixed), when the database has it.
+  qualityFlagProperty?: (propertyMap: TMap) => PropertyMapping;
+  // `history` holds the category's earlier rollups, so streaks can run back past this week.
+  buildRollup: (entries: TEntry[], start: string, end: string, history?: Rollup[]) => TRollup;
+  summarizeMonth: (
+    rollups: Rollup[],
+    monthStart: string,
+    monthEnd: string,
+    // `history` holds every stored rollup for the category up to monthEnd, for long-window stats.
+    options: { includePartialWeeks?: boolean; history?: Rollup[] },
+  ) => MonthlySection;
+  // Trackers without an email just persist their rollup.
+  buildEmail?: (entries: TEntry[], rollup: TRollup, context: TrackerContext) => TrackerEmail;
+  // Published to the Weekly Reports database when NOTION_WEEKLY_REPORTS_DB_ID is set.
+  buildNotionReport?: (entries: TEntry[], rollup: TRollup, context: TrackerContext) => WeeklyNotionReport;
+};
+
+// Registry-friendly descriptor type (entry and property map types erased).
+export type AnyTracker = TrackerDescriptor<any, any, any>;
+
+// Identity helper that keeps entry/property map/rollup types checked inside a descriptor.
+export function defineTracker<TEntry extends TrackerEntry, TMap extends PropertyMap<string>, TRollup extends Rollup>(
+  descriptor: TrackerDescriptor<TEntry, TMap, TRollup>,
+): TrackerDescriptor<TEntry, TMap, TRollup> {
+  return descriptor;
+}
+
+export function formatDays(count: number): string {
+  return `${count} day${count === 1 ? "" : "s"}`;
+}
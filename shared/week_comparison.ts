@@ -0,0 +1,106 @@
+import { addDays } from "./date.ts";
+import { CANONICAL_UNIT, formatGlucose, type GlucoseUnit } from "./glucose_units.ts";
+import { type Rollup, selectNonOverlappingRollups } from "./monthly_report.ts";
+
+// This week's headline numbers against last week's rollup and the average of the weeks before it.
+
+export const BASELINE_WEEKS = 4;
+
+export const COMPARISON_METRICS = ["avg", "min", "max", "completionRate", "xp", "streak"] as const;
+export type ComparisonMetric = typeof COMPARISON_METRICS[number];
+
+export const COMPARISON_LABELS: Record<ComparisonMetric, string> = {
+  avg: "Average",
+  min: "Min",
+  max: "Max",
+  completionRate: "Completion",
+  xp: "XP",
+  streak: "Streak",
+};
+
+// Glucose metrics are mg/dL and null for weeks without readings; deltas are current minus the reference.
+export type MetricComparison = {
+  metric: ComparisonMetric;
+  current: number | null;
+  lastWeek: number | null;
+  baseline: number | null;
+  lastWeekDelta: number | null;
+  baselineDelta: number | null;
+};
+
+export type WeekComparison = {
+  metrics: MetricComparison[];
+  // Prior weeks found in the baseline window (up to `BASELINE_WEEKS`).
+  baselineWeeks: number;
+};
+
+const GLUCOSE_METRICS: ComparisonMetric[] = ["avg", "min", "max"];
+
+// Prior weeks are the stored rollups ending in the `weeks` × 7 days before this one (newest wins on overlap);
+// last week is the newest of them when it ended within 7 days of this week's start.
+export function buildWeekComparison(rollup: Rollup, history: Rollup[], weeks = BASELINE_WEEKS): WeekComparison {
+  const windowStart = addDays(rollup.periodStart, -weeks * 7);
+  const prior = selectNonOverlappingRollups(
+    history.filter((week) =>
+      week.category === rollup.category && week.periodEnd < rollup.periodStart && week.periodEnd >= windowStart
+    ),
+  ).slice(0, weeks);
+  const lastWeek = prior[0] && prior[0].periodEnd >= addDays(rollup.periodStart, -7) ? prior[0] : null;
+
+  const metrics = COMPARISON_METRICS.map((metric) => {
+    const current = readMetric(rollup, metric);
+    const previous = lastWeek ? readMetric(lastWeek, metric) : null;
+    const values = prior.map((week) => readMetric(week, metric)).filter((value): value is number => value !== null);
+    const baseline = values.length ? round(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+    return {
+      metric,
+      current,
+      lastWeek: previous,
+      baseline,
+      lastWeekDelta: difference(current, previous),
+      baselineDelta: difference(current, baseline),
+    };
+  });
+  return { metrics, baselineWeeks: prior.length };
+}
+
+// e.g. "Average: 128 (▲ 6 vs last week, ▼ 3.5 vs 4-week avg)".
+export function formatComparisonLine(comparison: MetricComparison, unit: GlucoseUnit = CANONICAL_UNIT): string {
+  const value = comparison.current === null ? "—" : formatMetricValue(comparison.metric, comparison.current, unit);
+  const lastWeek = comparison.lastWeek === null
+    ? "no data last week"
+    : `${formatDelta(comparison.metric, comparison.lastWeekDelta, unit)} vs last week`;
+  const baseline = comparison.baseline === null
+    ? "no baseline yet"
+    : `${formatDelta(comparison.metric, comparison.baselineDelta, unit)} vs ${BASELINE_WEEKS}-week avg`;
+  return `${COMPARISON_LABELS[comparison.metric]}: ${value} (${lastWeek}, ${baseline})`;
+}
+
+// "▲ 6", "▼ 5 pts", "= 0"; "—" when this week has no value to compare.
+export function formatDelta(metric: ComparisonMetric, delta: number | null, unit: GlucoseUnit = CANONICAL_UNIT): string {
+  if (delta === null) return "—";
+  const arrow = delta > 0 ? "▲" : delta < 0 ? "▼" : "=";
+  return `${arrow} ${formatMetricValue(metric, Math.abs(delta), unit, true)}`;
+}
+
+function formatMetricValue(metric: ComparisonMetric, value: number, unit: GlucoseUnit, isDelta = false): string {
+  if (GLUCOSE_METRICS.includes(metric)) return formatGlucose(value, unit);
+  if (metric === "completionRate") return isDelta ? `${value} pts` : `${value}%`;
+  if (metric === "streak") return `${value} day${value === 1 ? "" : "s"}`;
+  return String(value);
+}
+
+function readMetric(rollup: Rollup, metric: ComparisonMetric): number | null {
+  if (!GLUCOSE_METRICS.includes(metric)) return rollup[metric as "completionRate" | "xp" | "streak"];
+  const stats = (rollup.stats ?? {}) as Partial<Record<"avg" | "min" | "max" | "totalEntries", number>>;
+  const value = stats[metric as "avg" | "min" | "max"];
+  return typeof value === "number" && (stats.totalEntries ?? 0) > 0 ? value : null;
+}
+
+function difference(current: number | null, reference: number | null): number | null {
+  return current === null || reference === null ? null : round(current - reference);
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
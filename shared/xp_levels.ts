@@ -0,0 +1,155 @@
+import { addDays } from "./date.ts";
+import { type Rollup, selectNonOverlappingRollups } from "./monthly_report.ts";
+import { type MonthlySection } from "./tracker.ts";
+
+// Lifetime XP: weekly XP summed across stored rollups into named levels, per category and across all trackers.
+
+export type XpLevel = {
+  level: number;
+  name: string;
+  minXp: number;
+};
+
+// Thresholds grow with each level; at the 242 XP of a perfect blood sugar week, level 2 takes about a week
+// and level 8 about eight months.
+export const XP_LEVELS: XpLevel[] = [
+  { level: 1, name: "Cage Rookie", minXp: 0 },
+  { level: 2, name: "Con Air Cadet", minXp: 250 },
+  { level: 3, name: "Face/Off Apprentice", minXp: 600 },
+  { level: 4, name: "National Treasure Hunter", minXp: 1200 },
+  { level: 5, name: "Mandy Mode", minXp: 2000 },
+  { level: 6, name: "Ghost Rider", minXp: 3200 },
+  { level: 7, name: "The Rock Legend", minXp: 5000 },
+  { level: 8, name: "Massive Talent", minXp: 8000 },
+];
+
+export type XpProgress = {
+  totalXp: number;
+  current: XpLevel;
+  next: XpLevel | null;
+  // XP still needed for `next` (0 at the top level).
+  xpToNext: number;
+  // Share of the way from the current level's threshold to the next one.
+  progressPercent: number;
+};
+
+export type LevelChange = {
+  label: string;
+  before: XpProgress;
+  after: XpProgress;
+  leveledUp: boolean;
+};
+
+// A week's effect on its own category and on the all-tracker total.
+export type LevelUpdate = {
+  category: LevelChange;
+  overall: LevelChange;
+};
+
+export const OVERALL_LABEL = "All trackers";
+
+// Sum XP from rollups ending on or before `through`; re-runs with shifted windows are counted once per category.
+export function sumLifetimeXp(rollups: Rollup[], through?: string): number {
+  const byCategory: Record<string, Rollup[]> = {};
+  for (const rollup of rollups) {
+    if (through && rollup.periodEnd > through) continue;
+    (byCategory[rollup.category] ??= []).push(rollup);
+  }
+  return Object.values(byCategory)
+    .flatMap((list) => selectNonOverlappingRollups(list))
+    .reduce((sum, rollup) => sum + rollup.xp, 0);
+}
+
+export function buildXpProgress(totalXp: number, levels: XpLevel[] = XP_LEVELS): XpProgress {
+  const index = levels.findLastIndex((level) => totalXp >= level.minXp);
+  const current = levels[Math.max(0, index)];
+  const next = levels[index + 1] ?? null;
+  const span = next ? next.minXp - current.minXp : 0;
+  return {
+    totalXp,
+    current,
+    next,
+    xpToNext: next ? next.minXp - totalXp : 0,
+    progressPercent: next ? Math.floor(((totalXp - current.minXp) / span) * 100) : 100,
+  };
+}
+
+export function buildLevelChange(label: string, beforeXp: number, afterXp: number): LevelChange {
+  const before = buildXpProgress(beforeXp);
+  const after = buildXpProgress(afterXp);
+  return { label, before, after, leveledUp: after.current.level > before.current.level };
+}
+
+// Levels before and after a new weekly rollup; `history` holds every rollup stored before this run. Other
+// categories count in full (their runs for the same week included); this category counts only weeks that ended
+// before this one, so a re-run replaces its earlier result instead of adding to it.
+export function buildLevelUpdate(rollup: Rollup, history: Rollup[], label: string): LevelUpdate {
+  const earlier = history.filter((row) => row.category !== rollup.category || row.periodEnd < rollup.periodStart);
+  const categoryXp = sumLifetimeXp(earlier.filter((row) => row.category === rollup.category));
+  const overallXp = sumLifetimeXp(earlier);
+  return {
+    category: buildLevelChange(label, categoryXp, categoryXp + rollup.xp),
+    overall: buildLevelChange(OVERALL_LABEL, overallXp, overallXp + rollup.xp),
+  };
+}
+
+// e.g. "Level 3 · Face/Off Apprentice — 750 XP (450 XP to Level 4)".
+export function formatLevelLine(progress: XpProgress): string {
+  const next = progress.next ? `${progress.xpToNext} XP to Level ${progress.next.level}` : "top level";
+  return `${formatLevelName(progress.current)} — ${progress.totalXp} XP (${next})`;
+}
+
+export function formatLevelName(level: XpLevel): string {
+  return `Level ${level.level} · ${level.name}`;
+}
+
+// e.g. "Level up! Blood Sugar reached Level 3 · Face/Off Apprentice".
+export function formatLevelUp(change: LevelChange): string {
+  return `Level up! ${change.label} reached ${formatLevelName(change.after.current)}`;
+}
+
+// Monthly card: each category's lifetime level at month end, plus any level-ups during the month.
+export function buildLevelSection(
+  history: Rollup[],
+  monthStart: string,
+  monthEnd: string,
+  categories: { category: string; label: string }[],
+): MonthlySection {
+  const dayBefore = addDays(monthStart, -1);
+  const changes = [
+    ...categories.map(({ category, label }) => {
+      const rows = history.filter((rollup) => rollup.category === category);
+      return buildLevelChange(label, sumLifetimeXp(rows, dayBefore), sumLifetimeXp(rows, monthEnd));
+    }),
+    buildLevelChange(OVERALL_LABEL, sumLifetimeXp(history, dayBefore), sumLifetimeXp(history, monthEnd)),
+  ];
+  return {
+    title: "Lifetime XP",
+    stats: changes.map((change) => ({
+      label: change.label,
+      value: `${change.after.totalXp} XP`,
+    })),
+    details: [
+      {
+        title: "Levels at month end",
+        rows: changes.map((change) => ({
+          label: change.label,
+          value: formatLevelName(change.after.current),
+          hint: change.after.next
+            ? `${change.after.progressPercent}% of the way to Level ${change.after.next.level} (${change.after.xpToNext} XP to go)`
+            : "Top level reached.",
+        })),
+        emptyText: "No XP yet.",
+      },
+      {
+        title: "Level ups this month",
+        rows: changes.filter((change) => change.leveledUp).map((change) => ({
+          label: change.label,
+          value: formatLevelName(change.after.current),
+          hint: `Up from ${formatLevelName(change.before.current)}.`,
+        })),
+        emptyText: "No level ups this month.",
+      },
+    ],
+  };
+}
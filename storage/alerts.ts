@@ -0,0 +1,60 @@
+import { rowValue, sqlite } from "./sqlite.ts";
+import { type ReadingAlert } from "../shared/blood_sugar_alerts.ts";
+
+// Alert history: one row per alerted reading (so a reading never alerts twice) and the last check time.
+
+const SENT_ALERTS_TABLE = "sent_alerts_1";
+const ALERT_CHECKS_TABLE = "alert_checks_1";
+
+export async function initAlertSchema() {
+  await sqlite.execute(`CREATE TABLE IF NOT EXISTS ${SENT_ALERTS_TABLE} (
+    page_id TEXT PRIMARY KEY,
+    kind TEXT NOT NULL,
+    value REAL NOT NULL,
+    recorded_at TEXT,
+    alerted_at TEXT NOT NULL
+  )`);
+
+  await sqlite.execute(`CREATE TABLE IF NOT EXISTS ${ALERT_CHECKS_TABLE} (
+    name TEXT PRIMARY KEY,
+    checked_at TEXT NOT NULL
+  )`);
+}
+
+export async function getLastAlertCheck(name: string): Promise<string | null> {
+  const result = await sqlite.execute(`SELECT checked_at FROM ${ALERT_CHECKS_TABLE} WHERE name = ?`, [name]);
+  const value = result.rows.length ? rowValue(result.rows[0], 0, "checked_at") : null;
+  return typeof value === "string" ? value : null;
+}
+
+export async function setLastAlertCheck(name: string, checkedAt: string) {
+  await sqlite.execute(
+    `INSERT OR REPLACE INTO ${ALERT_CHECKS_TABLE} (name, checked_at) VALUES (?, ?)`,
+    [name, checkedAt],
+  );
+}
+
+// Page ids from the list that already triggered an alert.
+export async function getAlertedPageIds(pageIds: string[]): Promise<Set<string>> {
+  if (!pageIds.length) return new Set();
+  const result = await sqlite.execute(
+    `SELECT page_id FROM ${SENT_ALERTS_TABLE} WHERE page_id IN (${pageIds.map(() => "?").join(", ")})`,
+    pageIds,
+  );
+  return new Set(result.rows.map((row) => String(rowValue(row, 0, "page_id"))));
+}
+
+export async function recordSentAlerts(alerts: ReadingAlert[], alertedAt: string) {
+  for (const alert of alerts) {
+    await sqlite.execute(buildRecordSentAlertQuery(alert, alertedAt));
+  }
+}
+
+// INSERT OR IGNORE keeps the first alert for a reading if two checks overlap.
+export function buildRecordSentAlertQuery(alert: ReadingAlert, alertedAt: string) {
+  return {
+    sql: `INSERT OR IGNORE INTO ${SENT_ALERTS_TABLE} (page_id, kind, value, recorded_at, alerted_at)
+      VALUES (?, ?, ?, ?, ?)`,
+    args: [alert.pageId, alert.kind, alert.value, alert.recordedAt, alertedAt],
+  };
+}
@@ -0,0 +1,127 @@
+import { sqlite } from "./sqlite.ts";
+import { type NotionPage } from "../shared/notion.ts";
+
+// Records each collector execution and the raw Notion pages behind its rollup, keyed by the rollup run_id.
+
+const COLLECTOR_RUNS_TABLE = "collector_runs_1";
+const NOTION_ENTRIES_TABLE = "notion_entries_1";
+
+export type CollectorRun = {
+  category: string;
+  runId: string;
+  startedAt: string; // ISO timestamp
+};
+
+export type CollectorRunResult = {
+  status: "success" | "error";
+  error?: string;
+  pageCount?: number;
+  entryCount?: number;
+  parseFailures?: number;
+};
+
+export async function initCollectorRunSchema() {
+  await sqlite.execute(`CREATE TABLE IF NOT EXISTS ${COLLECTOR_RUNS_TABLE} (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    category TEXT NOT NULL,
+    run_id TEXT NOT NULL,
+    started_at TEXT NOT NULL,
+    finished_at TEXT,
+    status TEXT NOT NULL,
+    error TEXT,
+    page_count INTEGER,
+    entry_count INTEGER,
+    parse_failures INTEGER,
+    UNIQUE(run_id, started_at)
+  )`);
+
+  await sqlite.execute(`CREATE TABLE IF NOT EXISTS ${NOTION_ENTRIES_TABLE} (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    run_id TEXT NOT NULL,
+    category TEXT NOT NULL,
+    page_id TEXT NOT NULL,
+    last_edited_time TEXT,
+    page_json TEXT NOT NULL,
+    fetched_at TEXT NOT NULL,
+    UNIQUE(run_id, page_id)
+  )`);
+}
+
+// Insert a "running" row so crashed runs stay visible in the DB browser.
+export async function startCollectorRun(category: string, runId: string): Promise<CollectorRun> {
+  await initCollectorRunSchema();
+  const run = { category, runId, startedAt: new Date().toISOString() };
+  await sqlite.execute(
+    `INSERT INTO ${COLLECTOR_RUNS_TABLE} (category, run_id, started_at, status) VALUES (?, ?, ?, ?)`,
+    [run.category, run.runId, run.startedAt, "running"],
+  );
+  return run;
+}
+
+export async function finishCollectorRun(run: CollectorRun, result: CollectorRunResult) {
+  await sqlite.execute(buildFinishCollectorRunQuery(run, result, new Date().toISOString()));
+}
+
+export async function failCollectorRun(run: CollectorRun, error: unknown) {
+  await finishCollectorRun(run, { status: "error", error: error instanceof Error ? error.message : String(error) });
+}
+
+export function buildFinishCollectorRunQuery(run: CollectorRun, result: CollectorRunResult, finishedAt: string) {
+  return {
+    sql: `UPDATE ${COLLECTOR_RUNS_TABLE}
+      SET finished_at = ?, status = ?, error = ?, page_count = ?, entry_count = ?, parse_failures = ?
+      WHERE run_id = ? AND started_at = ?`,
+    args: [
+      finishedAt,
+      result.status,
+      result.error ?? null,
+      result.pageCount ?? null,
+      result.entryCount ?? null,
+      result.parseFailures ?? null,
+      run.runId,
+      run.startedAt,
+    ],
+  };
+}
+
+// Replace the snapshot for a run so re-runs of the same week point at the latest pages.
+export async function replaceNotionEntries(run: CollectorRun, pages: NotionPage[]) {
+  await sqlite.batch(buildReplaceNotionEntriesQueries(run, pages));
+}
+
+// One batch, so a failure partway through never leaves a partial snapshot for the run.
+export function buildReplaceNotionEntriesQueries(run: CollectorRun, pages: NotionPage[]) {
+  return [
+    { sql: `DELETE FROM ${NOTION_ENTRIES_TABLE} WHERE run_id = ?`, args: [run.runId] },
+    ...pages.map((page) => ({
+      sql: `INSERT OR REPLACE INTO ${NOTION_ENTRIES_TABLE} (
+        run_id,
+        category,
+        page_id,
+        last_edited_time,
+        page_json,
+        fetched_at
+      ) VALUES (?, ?, ?, ?, ?, ?)`,
+      args: [run.runId, run.category, page.id, page.last_edited_time ?? null, JSON.stringify(page), run.startedAt],
+    })),
+  ];
+}
+
+export async function getCollectorRuns(category: string, limit = 20) {
+  const result = await sqlite.execute(
+    `SELECT * FROM ${COLLECTOR_RUNS_TABLE}
+     WHERE category = ?
+     ORDER BY started_at DESC
+     LIMIT ?`,
+    [category, limit],
+  );
+  return result.rows;
+}
+
+export async function getNotionEntries(runId: string) {
+  const result = await sqlite.execute(
+    `SELECT * FROM ${NOTION_ENTRIES_TABLE} WHERE run_id = ? ORDER BY id ASC`,
+    [runId],
+  );
+  return result.rows;
+}
@@ -0,0 +1,188 @@
+import { sqlite, rowValue } from "./sqlite.ts";
+import {
+  buildLastEditedFilter,
+  fetchNotionPages,
+  latestEditedTime,
+  type NotionPage,
+  type NotionRetryOptions,
+} from "../shared/notion.ts";
+
+// Keeps a local mirror of Notion databases, refreshed from a per-database last_edited_time cursor.
+
+const SYNC_CURSORS_TABLE = "notion_sync_cursors_1";
+const NOTION_MIRROR_TABLE = "notion_mirror_1";
+const SYNC_REBUILDS_TABLE = "notion_sync_rebuilds_1";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A full query replaces the mirror this often, dropping pages deleted in Notion (queries never return them).
+export const DEFAULT_FULL_RESYNC_DAYS = 7;
+
+// "window" queries Notion for the report range every run; "incremental" reads from the mirror.
+export type SyncMode = "window" | "incremental";
+
+export type SyncResult = {
+  fetched: number;
+  rebuilt: boolean;
+  cursor: string | null;
+};
+
+export function getSyncMode(): SyncMode {
+  return Deno.env.get("NOTION_SYNC_MODE") === "incremental" ? "incremental" : "window";
+}
+
+export function getFullResyncDays(): number {
+  const raw = Deno.env.get("NOTION_SYNC_FULL_RESYNC_DAYS");
+  if (!raw) return DEFAULT_FULL_RESYNC_DAYS;
+  const parsed = Number(raw);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error("NOTION_SYNC_FULL_RESYNC_DAYS must be a positive number of days.");
+  }
+  return parsed;
+}
+
+export async function initNotionSyncSchema() {
+  await sqlite.execute(`CREATE TABLE IF NOT EXISTS ${SYNC_CURSORS_TABLE} (
+    database_id TEXT PRIMARY KEY,
+    last_edited_time TEXT NOT NULL,
+    synced_at TEXT NOT NULL
+  )`);
+
+  await sqlite.execute(`CREATE TABLE IF NOT EXISTS ${NOTION_MIRROR_TABLE} (
+    database_id TEXT NOT NULL,
+    page_id TEXT NOT NULL,
+    last_edited_time TEXT,
+    page_json TEXT NOT NULL,
+    synced_at TEXT NOT NULL,
+    PRIMARY KEY(database_id, page_id)
+  )`);
+
+  await sqlite.execute(`CREATE TABLE IF NOT EXISTS ${SYNC_REBUILDS_TABLE} (
+    database_id TEXT PRIMARY KEY,
+    rebuilt_at TEXT NOT NULL
+  )`);
+}
+
+// Pull pages edited since the stored cursor into the mirror. Without a cursor, or once the last full query is
+// older than NOTION_SYNC_FULL_RESYNC_DAYS, the mirror is rebuilt from a full query so deleted pages drop out.
+export async function syncNotionDatabase(
+  databaseId: string,
+  token: string,
+  options: NotionRetryOptions = {},
+): Promise<SyncResult> {
+  await initNotionSyncSchema();
+  const cursor = await getSyncCursor(databaseId);
+  const rebuild = shouldRebuildMirror(cursor, await getLastRebuild(databaseId), new Date(), getFullResyncDays());
+  const pages = await fetchNotionPages<NotionPage>(databaseId, token, (startCursor) => ({
+    ...(rebuild || !cursor ? {} : { filter: buildLastEditedFilter(cursor) }),
+    sorts: [{ timestamp: "last_edited_time", direction: "ascending" }],
+    ...(startCursor ? { start_cursor: startCursor } : {}),
+  }), options);
+
+  const syncedAt = new Date().toISOString();
+  const queries = buildMirrorWriteQueries(databaseId, pages, syncedAt, rebuild);
+  const nextCursor = latestEditedTime(pages, cursor);
+  if (nextCursor && nextCursor !== cursor) {
+    queries.push({
+      sql: `INSERT OR REPLACE INTO ${SYNC_CURSORS_TABLE} (database_id, last_edited_time, synced_at) VALUES (?, ?, ?)`,
+      args: [databaseId, nextCursor, syncedAt],
+    });
+  }
+  if (rebuild) {
+    queries.push({
+      sql: `INSERT OR REPLACE INTO ${SYNC_REBUILDS_TABLE} (database_id, rebuilt_at) VALUES (?, ?)`,
+      args: [databaseId, syncedAt],
+    });
+  }
+  // One batch, so a failed write can't leave a half-rebuilt mirror or a cursor past pages that weren't stored.
+  await sqlite.batch(queries);
+
+  return { fetched: pages.length, rebuilt: rebuild, cursor: nextCursor };
+}
+
+export function shouldRebuildMirror(
+  cursor: string | null,
+  lastRebuild: string | null,
+  now: Date,
+  maxAgeDays = DEFAULT_FULL_RESYNC_DAYS,
+): boolean {
+  if (!cursor || !lastRebuild) return true;
+  return now.getTime() - Date.parse(lastRebuild) >= maxAgeDays * DAY_MS;
+}
+
+// Pages Notion reports as deleted (archived or in the trash) are removed from the mirror instead of stored.
+export function isRemovedPage(page: NotionPage): boolean {
+  return page.archived === true || page.in_trash === true;
+}
+
+// A rebuild clears the database's mirror first; every fetched page is then upserted or, if deleted, removed.
+export function buildMirrorWriteQueries(databaseId: string, pages: NotionPage[], syncedAt: string, rebuild: boolean) {
+  const queries: { sql: string; args: (string | null)[] }[] = [];
+  if (rebuild) queries.push({ sql: `DELETE FROM ${NOTION_MIRROR_TABLE} WHERE database_id = ?`, args: [databaseId] });
+  for (const page of pages) {
+    queries.push(
+      isRemovedPage(page)
+        ? { sql: `DELETE FROM ${NOTION_MIRROR_TABLE} WHERE database_id = ? AND page_id = ?`, args: [databaseId, page.id] }
+        : buildUpsertMirroredPageQuery(databaseId, page, syncedAt),
+    );
+  }
+  return queries;
+}
+
+// Sync, then return the full mirror for a database.
+export async function loadSyncedPages<T extends NotionPage>(databaseId: string, token: string): Promise<T[]> {
+  const sync = await syncNotionDatabase(databaseId, token);
+  console.log(
+    `Notion sync ${sync.rebuilt ? "rebuilt mirror" : "fetched changes"}: ${sync.fetched} page(s), cursor ${sync.cursor ?? "none"}`,
+  );
+  return await getMirroredPages<T>(databaseId);
+}
+
+export function buildUpsertMirroredPageQuery(databaseId: string, page: NotionPage, syncedAt: string) {
+  return {
+    sql: `INSERT OR REPLACE INTO ${NOTION_MIRROR_TABLE} (
+      database_id,
+      page_id,
+      last_edited_time,
+      page_json,
+      synced_at
+    ) VALUES (?, ?, ?, ?, ?)`,
+    args: [databaseId, page.id, page.last_edited_time ?? null, JSON.stringify(page), syncedAt],
+  };
+}
+
+export async function getSyncCursor(databaseId: string): Promise<string | null> {
+  const result = await sqlite.execute(
+    `SELECT last_edited_time FROM ${SYNC_CURSORS_TABLE} WHERE database_id = ?`,
+    [databaseId],
+  );
+  const value = result.rows.length ? rowValue(result.rows[0], 0, "last_edited_time") : null;
+  return typeof value === "string" ? value : null;
+}
+
+export async function getLastRebuild(databaseId: string): Promise<string | null> {
+  const result = await sqlite.execute(
+    `SELECT rebuilt_at FROM ${SYNC_REBUILDS_TABLE} WHERE database_id = ?`,
+    [databaseId],
+  );
+  const value = result.rows.length ? rowValue(result.rows[0], 0, "rebuilt_at") : null;
+  return typeof value === "string" ? value : null;
+}
+
+// Every mirrored page for a database; callers parse and filter to their own window.
+export async function getMirroredPages<T extends NotionPage>(databaseId: string): Promise<T[]> {
+  const result = await sqlite.execute(
+    `SELECT page_json FROM ${NOTION_MIRROR_TABLE} WHERE database_id = ?`,
+    [databaseId],
+  );
+  const pages: T[] = [];
+  for (const row of result.rows) {
+    const json = rowValue(row, 0, "page_json");
+    if (typeof json !== "string") continue;
+    try {
+      pages.push(JSON.parse(json) as T);
+    } catch {
+      console.warn(`Skipping unreadable mirrored page for ${databaseId}.`);
+    }
+  }
+  return pages;
+}
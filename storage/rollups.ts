@@ -1,9 +1,25 @@
-import { sqlite } from "./sqlite.ts";
+import { rowValue, sqlite } from "./sqlite.ts";
+import { type BadgeEvent } from "../shared/badge_history.ts";
 
 // Provides typed helpers for the val-scoped SQLite tables that back weekly rollups and badge history.
 
+export type { BadgeEvent };
+
 const WEEKLY_ROLLUPS_TABLE = "weekly_rollups_1";
 const BADGE_EVENTS_TABLE = "badge_events_1";
+const BADGE_EVENTS_PERIOD_INDEX = `${BADGE_EVENTS_TABLE}_period`;
+const ROLLUP_COLUMNS = [
+  "category",
+  "period_start",
+  "period_end",
+  "streak",
+  "completion_rate",
+  "xp",
+  "badges_json",
+  "stats_json",
+  "run_id",
+] as const;
+const BADGE_EVENT_COLUMNS = ["category", "badge", "period_start", "period_end", "awarded_at", "reason"] as const;
 
 export type WeeklyRollup = {
   category: string;
@@ -17,15 +33,6 @@ export type WeeklyRollup = {
   runId: string;
 };
 
-export type BadgeEvent = {
-  category: string;
-  badge: string;
-  periodStart: string; // YYYY-MM-DD
-  periodEnd: string; // YYYY-MM-DD
-  awardedAt: string; // ISO timestamp
-  reason?: string;
-};
-
 export async function initRollupSchema() {
   await sqlite.execute(`CREATE TABLE IF NOT EXISTS ${WEEKLY_ROLLUPS_TABLE} (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -52,6 +59,19 @@ export async function initRollupSchema() {
     awarded_at TEXT NOT NULL,
     reason TEXT
   )`);
+  // One event per badge per rollup period, so re-running a week can't record a badge twice. Tables from before
+  // the index may hold duplicates, so they are cleared once, when the index is first created.
+  const index = await sqlite.execute({
+    sql: "SELECT name FROM sqlite_master WHERE type = 'index' AND name = ?",
+    args: [BADGE_EVENTS_PERIOD_INDEX],
+  });
+  if (index.rows.length) return;
+  await sqlite.batch([
+    `DELETE FROM ${BADGE_EVENTS_TABLE} WHERE id NOT IN (
+      SELECT MIN(id) FROM ${BADGE_EVENTS_TABLE} GROUP BY category, badge, period_start
+    )`,
+    `CREATE UNIQUE INDEX IF NOT EXISTS ${BADGE_EVENTS_PERIOD_INDEX} ON ${BADGE_EVENTS_TABLE} (category, badge, period_start)`,
+  ]);
 }
 
 export async function upsertWeeklyRollup(rollup: WeeklyRollup) {
@@ -92,8 +112,14 @@ export function buildUpsertWeeklyRollupQuery(rollup: WeeklyRollup, createdAt: st
 
 export async function insertBadgeEvents(events: BadgeEvent[]) {
   for (const event of events) {
-    await sqlite.execute(
-      `INSERT INTO ${BADGE_EVENTS_TABLE} (
+    await sqlite.execute(buildInsertBadgeEventQuery(event));
+  }
+}
+
+// INSERT OR IGNORE keeps the first award (and its awarded_at) when a week is rolled up again.
+export function buildInsertBadgeEventQuery(event: BadgeEvent) {
+  return {
+    sql: `INSERT OR IGNORE INTO ${BADGE_EVENTS_TABLE} (
         category,
         badge,
         period_start,
@@ -101,16 +127,59 @@ export async function insertBadgeEvents(events: BadgeEvent[]) {
         awarded_at,
         reason
       ) VALUES (?, ?, ?, ?, ?, ?)`,
-      [
-        event.category,
-        event.badge,
-        event.periodStart,
-        event.periodEnd,
-        event.awardedAt,
-        event.reason ?? null,
-      ],
-    );
-  }
+    args: [
+      event.category,
+      event.badge,
+      event.periodStart,
+      event.periodEnd,
+      event.awardedAt,
+      event.reason ?? null,
+    ],
+  };
+}
+
+// Sync a rollup period's events with its badges: drop ones the re-run no longer earns, add new ones.
+// Both steps run in one batch, so a failure can't leave the week with its events deleted and none written back.
+export async function replaceBadgeEvents(category: string, periodStart: string, events: BadgeEvent[]) {
+  await sqlite.batch(buildReplaceBadgeEventsQueries(category, periodStart, events));
+}
+
+export function buildReplaceBadgeEventsQueries(category: string, periodStart: string, events: BadgeEvent[]) {
+  const badges = events.map((event) => event.badge);
+  return [
+    {
+      sql: `DELETE FROM ${BADGE_EVENTS_TABLE}
+       WHERE category = ? AND period_start = ?${badges.length ? ` AND badge NOT IN (${badges.map(() => "?").join(", ")})` : ""}`,
+      args: [category, periodStart, ...badges],
+    },
+    ...events.map(buildInsertBadgeEventQuery),
+  ];
+}
+
+// Every recorded badge event (oldest period first), optionally for one category.
+export async function getBadgeEvents(category?: string): Promise<BadgeEvent[]> {
+  const result = await sqlite.execute({
+    sql: `SELECT ${BADGE_EVENT_COLUMNS.join(", ")} FROM ${BADGE_EVENTS_TABLE}
+     ${category ? "WHERE category = ?" : ""}
+     ORDER BY period_start ASC, id ASC`,
+    args: category ? [category] : [],
+  });
+  return result.rows.map(parseBadgeEventRow);
+}
+
+// Convert a row selected with BADGE_EVENT_COLUMNS (array or object shape) into a typed event.
+export function parseBadgeEventRow(row: unknown): BadgeEvent {
+  const value = (column: typeof BADGE_EVENT_COLUMNS[number]) =>
+    rowValue(row, BADGE_EVENT_COLUMNS.indexOf(column), column);
+  const reason = value("reason");
+  return {
+    category: String(value("category")),
+    badge: String(value("badge")),
+    periodStart: String(value("period_start")),
+    periodEnd: String(value("period_end")),
+    awardedAt: String(value("awarded_at")),
+    ...(typeof reason === "string" ? { reason } : {}),
+  };
 }
 
 export async function getWeeklyRollups(category: string, start: string, end: string) {
@@ -124,3 +193,52 @@ export async function getWeeklyRollups(category: string, start: string, end: str
   );
   return result.rows;
 }
+
+// Every stored rollup ending on or before `through` (oldest first), optionally for one category.
+// Without `through`, every stored rollup is returned.
+export async function getRollupHistory(through?: string, category?: string): Promise<WeeklyRollup[]> {
+  const conditions = [...(through ? ["period_end <= ?"] : []), ...(category ? ["category = ?"] : [])];
+  const result = await sqlite.execute({
+    sql: `SELECT ${ROLLUP_COLUMNS.join(", ")} FROM ${WEEKLY_ROLLUPS_TABLE}
+     ${conditions.length ? `WHERE ${conditions.join(" AND ")}` : ""}
+     ORDER BY period_start ASC`,
+    args: [...(through ? [through] : []), ...(category ? [category] : [])],
+  });
+  return result.rows.map(parseWeeklyRollupRow);
+}
+
+// Convert a row selected with ROLLUP_COLUMNS (array or object shape) into a typed rollup.
+export function parseWeeklyRollupRow(row: unknown): WeeklyRollup {
+  const value = (column: typeof ROLLUP_COLUMNS[number]) => rowValue(row, ROLLUP_COLUMNS.indexOf(column), column);
+  return {
+    category: String(value("category")),
+    periodStart: String(value("period_start")),
+    periodEnd: String(value("period_end")),
+    streak: Number(value("streak") ?? 0),
+    completionRate: Number(value("completion_rate") ?? 0),
+    xp: Number(value("xp") ?? 0),
+    badges: safeParseJsonArray(value("badges_json")),
+    stats: safeParseJsonObject(value("stats_json")),
+    runId: String(value("run_id")),
+  };
+}
+
+function safeParseJsonArray(value: unknown): string[] {
+  const parsed = safeParseJson(value);
+  return Array.isArray(parsed) ? parsed.map(String) : [];
+}
+
+function safeParseJsonObject(value: unknown): Record<string, unknown> {
+  const parsed = safeParseJson(value);
+  return parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>) : {};
+}
+
+// Guard against invalid JSON in stored rollup columns.
+function safeParseJson(value: unknown) {
+  if (typeof value !== "string") return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
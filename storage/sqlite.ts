@@ -2,3 +2,10 @@ import sqlite from "https://esm.town/v/std/sqlite/main.ts";
 
 // Central import to keep DB client switches (std vs legacy) in one place.
 export { sqlite };
+
+// Read a column from a result row; the client returns either array or object rows depending on context.
+export function rowValue(row: unknown, index: number, column: string): unknown {
+  if (Array.isArray(row)) return row[index];
+  if (row && typeof row === "object") return (row as Record<string, unknown>)[column];
+  return undefined;
+}
@@ -0,0 +1,110 @@
+import {
+  type BadgeEvent,
+  buildBadgeEvents,
+  classifyBadgeAwards,
+  formatBadgeHighlight,
+  summarizeBadgeCase,
+} from "../shared/badge_history.ts";
+import { buildBloodSugarRollup, type Entry } from "../shared/blood_sugar_logic.ts";
+import { addDays } from "../shared/date.ts";
+import { buildReport } from "../shared/blood_sugar_report.ts";
+import { type Rollup } from "../shared/monthly_report.ts";
+import { BLOOD_SUGAR_REWARD_RULES } from "../shared/reward_rules.ts";
+import { assertEquals, assertStringIncludes } from "https://deno.land/std@0.224.0/assert/mod.ts";
+
+function event(badge: string, periodStart: string, periodEnd: string): BadgeEvent {
+  return { category: "blood_sugar", badge, periodStart, periodEnd, awardedAt: `${periodEnd}T12:00:00.000Z` };
+}
+
+const ROLLUP: Rollup = {
+  category: "blood_sugar",
+  periodStart: "2026-03-02",
+  periodEnd: "2026-03-08",
+  streak: 7,
+  completionRate: 100,
+  xp: 200,
+  badges: ["Mandy-Mode Consistency", "Cage Match: Full Week", "National Treasure: Healthy Average"],
+  stats: {},
+  runId: "blood_sugar-2026-03-02-2026-03-08",
+};
+
+const EVENTS = [
+  event("Mandy-Mode Consistency", "2026-02-23", "2026-03-01"),
+  event("National Treasure: Healthy Average", "2026-01-05", "2026-01-11"),
+  // This period itself (a re-run) and other categories don't count as history.
+  event("Cage Match: Full Week", "2026-03-02", "2026-03-08"),
+  { ...event("Cage Match: Full Week", "2026-01-05", "2026-01-11"), category: "food" },
+];
+
+Deno.test("classifyBadgeAwards finds first-ever, comeback, and repeat badges", () => {
+  assertEquals(classifyBadgeAwards(ROLLUP, EVENTS), [
+    { badge: "Mandy-Mode Consistency", kind: "repeat", lastEarned: "2026-03-01" },
+    { badge: "Cage Match: Full Week", kind: "first", lastEarned: null },
+    { badge: "National Treasure: Healthy Average", kind: "comeback", lastEarned: "2026-01-11" },
+  ]);
+});
+
+Deno.test("daily runs of a rolling week don't repeat first-ever awards or inflate the badge case", () => {
+  // The same badge earned by three overlapping windows, one day apart.
+  const daily = ["2026-03-02", "2026-03-03", "2026-03-04"].map((start) =>
+    event("Cage Match: Full Week", start, addDays(start, 6))
+  );
+  const next = { ...ROLLUP, periodStart: "2026-03-05", periodEnd: "2026-03-11", badges: ["Cage Match: Full Week"] };
+  assertEquals(classifyBadgeAwards(next, daily), [
+    { badge: "Cage Match: Full Week", kind: "repeat", lastEarned: "2026-03-10" },
+  ]);
+  // Re-running the first window still ignores its own event.
+  assertEquals(classifyBadgeAwards({ ...next, ...daily[0] }, daily)[0].kind, "first");
+
+  const later = event("Cage Match: Full Week", "2026-03-09", "2026-03-15");
+  const entry = summarizeBadgeCase("blood_sugar", BLOOD_SUGAR_REWARD_RULES, [...daily, later])
+    .find((row) => row.badge === "Cage Match: Full Week");
+  assertEquals([entry?.count, entry?.firstEarned, entry?.lastEarned], [2, "2026-03-08", "2026-03-15"]);
+});
+
+Deno.test("buildBadgeEvents records one event per badge with a reason", () => {
+  const awards = classifyBadgeAwards(ROLLUP, EVENTS);
+  const events = buildBadgeEvents(ROLLUP, awards, BLOOD_SUGAR_REWARD_RULES, "2026-03-08T12:00:00.000Z");
+  assertEquals(events.map((row) => row.reason), [
+    "Logged at least 7 readings this week.",
+    "First time: Logged at least 14 readings this week.",
+    "Comeback: Weekly average under 100 mg/dL.",
+  ]);
+  assertEquals(events[0].periodStart, "2026-03-02");
+  assertEquals(formatBadgeHighlight(awards[2]), "Comeback: National Treasure: Healthy Average (last earned 2026-01-11)");
+});
+
+Deno.test("summarizeBadgeCase lists every badge with counts and first/last dates", () => {
+  const history = [...EVENTS, event("Mandy-Mode Consistency", "2026-03-02", "2026-03-08"), event("Old", "2026-01-05", "2026-01-11")];
+  const shelf = summarizeBadgeCase("blood_sugar", BLOOD_SUGAR_REWARD_RULES, history);
+  assertEquals(shelf.map((entry) => [entry.badge, entry.count, entry.firstEarned, entry.lastEarned]), [
+    ["Mandy-Mode Consistency", 2, "2026-03-01", "2026-03-08"],
+    ["Cage Match: Full Week", 1, "2026-03-08", "2026-03-08"],
+    ["Cage Match: Double-Check Champion", 0, null, null],
+    ["National Treasure: Healthy Average", 1, "2026-01-11", "2026-01-11"],
+    ["Cage Marathon: 30-Day Streak", 0, null, null],
+    ["Cage Marathon: 100-Day Streak", 0, null, null],
+    ["Cage Marathon: 365-Day Streak", 0, null, null],
+    ["Old", 1, "2026-01-11", "2026-01-11"],
+  ]);
+  assertEquals(shelf.at(-1)?.description, "Retired badge.");
+});
+
+Deno.test("weekly email highlights newly earned badges", () => {
+  const entries: Entry[] = Array.from({ length: 7 }, (_, index) => ({
+    pageId: `p${index}`,
+    date: `2026-03-0${index + 2}`,
+    createdTime: "8:00 AM",
+    value: 120,
+  }));
+  const rollup = buildBloodSugarRollup(entries, "2026-03-02", "2026-03-08");
+  const awards = classifyBadgeAwards(rollup, []);
+  const report = buildReport(entries, "2026-03-02", "2026-03-08", rollup, { awards });
+  assertStringIncludes(report.text, "New badges:\n- First time: Mandy-Mode Consistency");
+  assertStringIncludes(report.html, "NEW · Mandy-Mode Consistency");
+
+  const repeat = buildReport(entries, "2026-03-02", "2026-03-08", rollup, {
+    awards: classifyBadgeAwards(rollup, [event("Mandy-Mode Consistency", "2026-02-23", "2026-03-01")]),
+  });
+  assertEquals(repeat.text.includes("New badges:"), false);
+});
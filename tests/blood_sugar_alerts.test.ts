@@ -0,0 +1,63 @@
+import {
+  buildAlertEmail,
+  DEFAULT_ALERT_THRESHOLDS,
+  detectAlerts,
+  mergeAlertThresholds,
+} from "../shared/blood_sugar_alerts.ts";
+import { type Entry } from "../shared/blood_sugar_logic.ts";
+import { buildRecordSentAlertQuery } from "../storage/alerts.ts";
+import { assertEquals, assertStringIncludes, assertThrows } from "https://deno.land/std@0.224.0/assert/mod.ts";
+
+function reading(pageId: string, value: number, recordedAt: string): Entry {
+  return { pageId, date: recordedAt.slice(0, 10), createdTime: null, value, recordedAt };
+}
+
+Deno.test("detectAlerts flags hypo and hyper readings once each", () => {
+  const readings = [
+    reading("a", 62, "2026-01-05T07:00:00.000Z"),
+    reading("b", 120, "2026-01-05T12:00:00.000Z"),
+    reading("c", 280, "2026-01-05T18:00:00.000Z"),
+  ];
+  const alerts = detectAlerts(readings, () => true);
+  assertEquals(alerts.map((alert) => [alert.pageId, alert.kind]), [["a", "hypo"], ["c", "hyper"]]);
+});
+
+Deno.test("detectAlerts finds high trends across earlier readings, in time order", () => {
+  const readings = [
+    // Fetched out of order; the backdated reading sorts by its own timestamp.
+    reading("new", 195, "2026-01-05T20:00:00.000Z"),
+    reading("old-1", 190, "2026-01-05T08:00:00.000Z"),
+    reading("old-2", 210, "2026-01-05T13:00:00.000Z"),
+  ];
+  const alerts = detectAlerts(readings, (entry) => entry.pageId === "new");
+  assertEquals(alerts.length, 1);
+  assertEquals(alerts[0].kind, "trend_high");
+  assertEquals(alerts[0].readings.map((entry) => entry.pageId), ["old-1", "old-2", "new"]);
+
+  const broken = [...readings, reading("mid", 150, "2026-01-05T15:00:00.000Z")];
+  assertEquals(detectAlerts(broken, (entry) => entry.pageId === "new"), []);
+  // Already alerted readings (not candidates) never alert again.
+  assertEquals(detectAlerts(readings, () => false), []);
+});
+
+Deno.test("mergeAlertThresholds validates overrides", () => {
+  assertEquals(mergeAlertThresholds({ low: 65, trendCount: 4 }, DEFAULT_ALERT_THRESHOLDS), {
+    low: 65,
+    high: 250,
+    trendHigh: 180,
+    trendCount: 4,
+  });
+  assertThrows(() => mergeAlertThresholds({ low: 300 }, DEFAULT_ALERT_THRESHOLDS));
+  assertThrows(() => mergeAlertThresholds({ trendCount: 1 }, DEFAULT_ALERT_THRESHOLDS));
+  assertThrows(() => mergeAlertThresholds({ hypo: 60 }, DEFAULT_ALERT_THRESHOLDS));
+});
+
+Deno.test("buildAlertEmail summarizes alerts and records them by page id", () => {
+  const [alert] = detectAlerts([reading("a", 55, "2026-01-05T07:00:00.000Z")], () => true);
+  const email = buildAlertEmail([alert], DEFAULT_ALERT_THRESHOLDS);
+  assertEquals(email.subject, "Blood Sugar Alert: Low reading");
+  assertStringIncludes(email.text, "Low reading: 55 mg/dL at 2026-01-05T07:00:00.000Z (below 70)");
+  const query = buildRecordSentAlertQuery(alert, "2026-01-05T07:15:00.000Z");
+  assertEquals(query.sql.startsWith("INSERT OR IGNORE"), true);
+  assertEquals(query.args, ["a", "hypo", 55, "2026-01-05T07:00:00.000Z", "2026-01-05T07:15:00.000Z"]);
+});
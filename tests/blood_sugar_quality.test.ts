@@ -0,0 +1,110 @@
+import {
+  DEFAULT_DATA_QUALITY_CONFIG,
+  formatQualityLine,
+  mergeDataQualityConfig,
+  reviewReadings,
+} from "../shared/blood_sugar_quality.ts";
+import { buildBloodSugarRollup, type Entry, parseMissingReading } from "../shared/blood_sugar_logic.ts";
+import { buildReport } from "../shared/blood_sugar_report.ts";
+import { assertPagesParsed, parsePages } from "../shared/notion_schema.ts";
+import { bloodSugarTracker } from "../trackers/blood_sugar.ts";
+import { assertEquals, assertStringIncludes, assertThrows } from "https://deno.land/std@0.224.0/assert/mod.ts";
+
+function buildEntry(pageId: string, recordedAt: string, createdTime: string, value: number): Entry {
+  return { pageId, date: recordedAt.slice(0, 10), createdTime, value, recordedAt };
+}
+
+const ENTRIES = [
+  buildEntry("a", "2026-01-05T13:00:00.000Z", "8:00 AM", 110),
+  buildEntry("b", "2026-01-05T13:03:00.000Z", "8:03 AM", 114),
+  buildEntry("c", "2026-01-05T13:04:00.000Z", "8:04 AM", 160),
+  buildEntry("d", "2026-01-06T01:00:00.000Z", "8:00 PM", 1120),
+];
+
+Deno.test("reviewReadings flags near-duplicates, implausible values, and missing values", () => {
+  const missing = [{ pageId: "e", date: "2026-01-04", createdTime: "9:00 PM" }];
+  const { entries, issues } = reviewReadings(ENTRIES, missing);
+  assertEquals(entries.map((entry) => entry.pageId), ["a", "c"]);
+  assertEquals(issues.map((issue) => [issue.pageId, issue.kind, issue.excluded]), [
+    ["e", "missing_value", false],
+    ["b", "duplicate", true],
+    ["d", "implausible", true],
+  ]);
+  assertEquals(
+    formatQualityLine(issues[1]),
+    "2026-01-05: 114 mg/dL at 8:03 AM looks like a repeat of 110 mg/dL at 8:00 AM (excluded from stats)",
+  );
+  assertEquals(formatQualityLine(issues[0]), "2026-01-04: No value entered at 9:00 PM");
+});
+
+Deno.test("reviewReadings keeps flagged readings when exclusion is turned off", () => {
+  const config = { ...DEFAULT_DATA_QUALITY_CONFIG, excludeDuplicates: false, excludeImplausible: false };
+  const { entries, issues } = reviewReadings(ENTRIES, [], config, "mmol/L");
+  assertEquals(entries.length, 4);
+  assertEquals(issues.every((issue) => !issue.excluded), true);
+  assertStringIncludes(issues[1].detail, "62.2 mmol/L at 8:00 PM is outside the plausible 1.1–33.3 mmol/L");
+});
+
+Deno.test("mergeDataQualityConfig converts glucose overrides and validates input", () => {
+  const config = mergeDataQualityConfig({ max: 30, duplicateMinutes: 10 }, DEFAULT_DATA_QUALITY_CONFIG, "mmol/L");
+  assertEquals(config.max, 540.5);
+  assertEquals(config.duplicateMinutes, 10);
+  assertThrows(
+    () => mergeDataQualityConfig({ excludeDuplicates: "no" }, DEFAULT_DATA_QUALITY_CONFIG),
+    Error,
+    "true or false",
+  );
+  assertThrows(() => mergeDataQualityConfig({ min: 700 }, DEFAULT_DATA_QUALITY_CONFIG), Error, "min < max");
+  assertThrows(() => mergeDataQualityConfig({ ceiling: 1 }, DEFAULT_DATA_QUALITY_CONFIG), Error, "unknown key");
+});
+
+Deno.test("parseMissingReading only returns dated pages without a value", () => {
+  const page = (value: number | null, timestamp?: string) => ({
+    id: "page-1",
+    properties: {
+      "Blood Sugar Level": { number: value },
+      ...(timestamp ? { "Created time": { created_time: timestamp } } : {}),
+    },
+  });
+  assertEquals(parseMissingReading(page(null, "2026-01-05T13:00:00.000Z")), {
+    pageId: "page-1",
+    date: "2026-01-05",
+    createdTime: "8:00 AM",
+  });
+  assertEquals(parseMissingReading(page(110, "2026-01-05T13:00:00.000Z")), null);
+  assertEquals(parseMissingReading(page(null)), null);
+});
+
+Deno.test("a week where every page is missing its value reports quality issues, not a schema error", () => {
+  const propertyMap = bloodSugarTracker.loadPropertyMap();
+  const pages = ["2026-01-05T13:00:00.000Z", "2026-01-06T13:00:00.000Z"].map((timestamp, index) => ({
+    id: `page-${index}`,
+    properties: { "Blood Sugar Level": { number: null }, "Created time": { created_time: timestamp } },
+  }));
+  const result = parsePages(
+    pages,
+    (page) => bloodSugarTracker.parseEntry(page, propertyMap),
+    (page) => bloodSugarTracker.isIncompleteEntry?.(page, propertyMap) ?? false,
+  );
+  assertEquals([result.entries.length, result.skipped, result.incomplete], [0, 0, 2]);
+  assertPagesParsed(result, "Blood Sugar");
+
+  const review = bloodSugarTracker.reviewEntries?.([], pages, propertyMap, { start: "2026-01-05", end: "2026-01-11" });
+  assertEquals(review?.issues.map((issue) => [issue.pageId, issue.kind]), [
+    ["page-0", "missing_value"],
+    ["page-1", "missing_value"],
+  ]);
+});
+
+Deno.test("weekly email lists data-quality issues", () => {
+  const { entries, issues } = reviewReadings(ENTRIES);
+  const rollup = buildBloodSugarRollup(entries, "2026-01-05", "2026-01-11");
+  const report = buildReport(entries, "2026-01-05", "2026-01-11", rollup, { quality: issues });
+  assertStringIncludes(report.text, "Data quality:\n- 2026-01-05: 114 mg/dL at 8:03 AM looks like a repeat");
+  assertStringIncludes(report.html, "<strong>Data quality:</strong>");
+  assertEquals(rollup.stats.totalEntries, 2);
+
+  const clean = buildReport(entries, "2026-01-05", "2026-01-11", rollup, { quality: [] });
+  assertStringIncludes(clean.text, "Data quality:\n- No issues found");
+  assertEquals(buildReport(entries, "2026-01-05", "2026-01-11", rollup).text.includes("Data quality"), false);
+});
@@ -0,0 +1,40 @@
+import { buildFinishCollectorRunQuery, buildReplaceNotionEntriesQueries } from "../storage/collector_runs.ts";
+import { buildRunId } from "../shared/date.ts";
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+
+Deno.test("buildRunId matches the rollup run id format", () => {
+  assertEquals(buildRunId("blood_sugar", "2026-01-01", "2026-01-07"), "blood_sugar-2026-01-01-2026-01-07");
+});
+
+// Finishing a run should update the row inserted at start (same run id + start time).
+Deno.test("buildFinishCollectorRunQuery records counts and targets the started run", () => {
+  const run = { category: "food", runId: "food-2026-01-01-2026-01-07", startedAt: "2026-01-08T00:00:00.000Z" };
+  const query = buildFinishCollectorRunQuery(
+    run,
+    { status: "success", pageCount: 12, entryCount: 10, parseFailures: 2 },
+    "2026-01-08T00:00:05.000Z",
+  );
+  assertEquals(query.sql.trim().startsWith("UPDATE"), true);
+  assertEquals(query.args, [
+    "2026-01-08T00:00:05.000Z",
+    "success",
+    null,
+    12,
+    10,
+    2,
+    run.runId,
+    run.startedAt,
+  ]);
+});
+
+Deno.test("buildReplaceNotionEntriesQueries clears the run's snapshot before inserting each page", () => {
+  const run = { category: "food", runId: "food-2026-01-01-2026-01-07", startedAt: "2026-01-08T00:00:00.000Z" };
+  const pages = [
+    { id: "p1", properties: {}, last_edited_time: "2026-01-07T10:00:00.000Z" },
+    { id: "p2", properties: {} },
+  ];
+  const queries = buildReplaceNotionEntriesQueries(run, pages);
+  assertEquals(queries.map((query) => query.sql.trim().split(" ")[0]), ["DELETE", "INSERT", "INSERT"]);
+  assertEquals(queries[0].args, [run.runId]);
+  assertEquals(queries[2].args, [run.runId, "food", "p2", null, JSON.stringify(pages[1]), run.startedAt]);
+});
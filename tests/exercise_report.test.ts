@@ -0,0 +1,78 @@
+import {
+  buildExerciseRollup,
+  calculateTargetCompletion,
+  DEFAULT_WEEKLY_TARGET_MINUTES,
+  type Entry,
+  parseEntry,
+} from "../shared/exercise_logic.ts";
+import { aggregateExerciseMonth } from "../shared/monthly_report.ts";
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+
+function buildEntry(date: string, durationMinutes: number, intensity: string | null = "Moderate"): Entry {
+  return { pageId: `page-${date}-${durationMinutes}`, date, activity: "Run", durationMinutes, intensity };
+}
+
+Deno.test("parseEntry reads activity, duration, intensity, and date", () => {
+  const entry = parseEntry({
+    id: "page-1",
+    properties: {
+      Activity: { title: [{ plain_text: "Morning run" }] },
+      "Duration (min)": { number: 35 },
+      Intensity: { select: { name: "Vigorous" } },
+      Date: { date: { start: "2026-01-03T07:15:00.000-05:00" } },
+    },
+  });
+  assertEquals(entry, {
+    pageId: "page-1",
+    date: "2026-01-03",
+    activity: "Morning run",
+    durationMinutes: 35,
+    intensity: "Vigorous",
+  });
+});
+
+Deno.test("parseEntry skips pages without a date and defaults missing fields", () => {
+  assertEquals(parseEntry({ id: "page-1", properties: { "Duration (min)": { number: 20 } } }), null);
+  const entry = parseEntry({ id: "page-2", properties: { Date: { date: { start: "2026-01-03" } } } });
+  assertEquals(entry?.activity, "Workout");
+  assertEquals(entry?.durationMinutes, 0);
+  assertEquals(entry?.intensity, null);
+});
+
+Deno.test("buildExerciseRollup totals minutes, sessions, and target completion", () => {
+  const entries = [
+    buildEntry("2026-01-05", 30),
+    buildEntry("2026-01-06", 45, "Vigorous"),
+    buildEntry("2026-01-07", 20),
+    buildEntry("2026-01-07", 10, null),
+  ];
+  const rollup = buildExerciseRollup(entries, "2026-01-01", "2026-01-07");
+  assertEquals(rollup.runId, "exercise-2026-01-01-2026-01-07");
+  assertEquals(rollup.stats.activeMinutes, 105);
+  assertEquals(rollup.stats.totalEntries, 4);
+  assertEquals(rollup.stats.activeDays, 3);
+  assertEquals(rollup.stats.targetMinutes, DEFAULT_WEEKLY_TARGET_MINUTES);
+  assertEquals(rollup.stats.minutesByDate["2026-01-07"], 30);
+  assertEquals(rollup.stats.minutesByIntensity, { Moderate: 50, Vigorous: 45, Unspecified: 10 });
+  assertEquals(rollup.streak, 3);
+  assertEquals(rollup.completionRate, 70);
+});
+
+Deno.test("calculateTargetCompletion caps at 100 percent", () => {
+  assertEquals(calculateTargetCompletion(300, 150), 100);
+  assertEquals(calculateTargetCompletion(75, 150), 50);
+  assertEquals(calculateTargetCompletion(10, 0), 0);
+});
+
+Deno.test("aggregateExerciseMonth scales the weekly target to the month", () => {
+  const rollups = [
+    buildExerciseRollup([buildEntry("2026-02-02", 60)], "2026-02-01", "2026-02-07", 120),
+    buildExerciseRollup([buildEntry("2026-02-09", 60), buildEntry("2026-02-10", 30)], "2026-02-08", "2026-02-14", 120),
+  ];
+  const summary = aggregateExerciseMonth(rollups, "2026-02-01", "2026-02-28");
+  assertEquals(summary.sessions, 3);
+  assertEquals(summary.activeMinutes, 150);
+  assertEquals(summary.targetMinutes, 480);
+  assertEquals(summary.completionRate, 31);
+  assertEquals(summary.minutesByIntensity, { Moderate: 150 });
+});
@@ -0,0 +1,75 @@
+import { classifyBadgeAwards } from "../shared/badge_history.ts";
+import { addDays } from "../shared/date.ts";
+import { buildFoodRollup, type Entry } from "../shared/food_enrich.ts";
+import { countGoalDays, DEFAULT_FOOD_GOALS, mergeFoodGoals } from "../shared/food_goals.ts";
+import { buildFoodEmail } from "../shared/food_report.ts";
+import { foodTracker } from "../trackers/food.ts";
+import { assertEquals, assertStringIncludes, assertThrows } from "https://deno.land/std@0.224.0/assert/mod.ts";
+
+const FULL_DAY = { calories: 500, protein: 60, carbs: 50, fat: 20, fiber: 30, sugar: 20, sodium: 1000 };
+
+// One entry a day for 2026-01-05 → 2026-01-11; day 6 is low on protein and day 7 has no sodium value.
+const ENTRIES: Entry[] = Array.from({ length: 7 }, (_, index) => {
+  const date = addDays("2026-01-05", index);
+  const macros: Entry["macros"] = { ...FULL_DAY };
+  if (index === 5) macros.protein = 30;
+  if (index === 6) delete macros.sodium;
+  return { pageId: `p${index}`, date, loggedAt: `${date}T12:00:00.000Z`, food: "bowl", macros };
+});
+
+Deno.test("countGoalDays needs complete data before a day counts as under a limit", () => {
+  const dates = ENTRIES.map((entry) => entry.date);
+  assertEquals(countGoalDays(ENTRIES, dates, DEFAULT_FOOD_GOALS), { protein: 6, fiber: 7, sugar: 7, sodium: 6 });
+  // A minimum can be met by adding up a day's entries.
+  const split = [
+    { ...ENTRIES[0], macros: { protein: 30 } },
+    { ...ENTRIES[0], pageId: "p0b", macros: { protein: 25 } },
+  ];
+  assertEquals(countGoalDays(split, [ENTRIES[0].date], { protein: { kind: "min", amount: 50 } }), { protein: 1 });
+});
+
+Deno.test("food rollups earn XP and badges for consistency, macros, and goals", () => {
+  const rollup = buildFoodRollup(ENTRIES, "2026-01-05", "2026-01-11");
+  assertEquals([rollup.stats.completeEntries, rollup.stats.completeRate], [6, 86]);
+  // (7 days × 10 + 6 complete × 2 + 26 goal days × 5) × 1.2 for logging every day.
+  assertEquals(rollup.xp, 254);
+  assertEquals(rollup.badges, [
+    "Con Air: Logged Every Day",
+    "The Rock: Protein Goal",
+    "Ghost Rider: Fiber Goal",
+    "Snake Eyes: Sodium in Check",
+    "Vampire's Kiss: Sugar in Check",
+  ]);
+
+  // Dropping a goal drops its badge.
+  const goals = mergeFoodGoals({ sugar: null, fiber: { min: 35 } }, DEFAULT_FOOD_GOALS);
+  const stricter = buildFoodRollup(ENTRIES, "2026-01-05", "2026-01-11", { goals });
+  assertEquals(stricter.stats.goalDays, { protein: 6, fiber: 0, sodium: 6 });
+  assertEquals(stricter.badges, ["Con Air: Logged Every Day", "The Rock: Protein Goal", "Snake Eyes: Sodium in Check"]);
+});
+
+Deno.test("mergeFoodGoals rejects malformed goals", () => {
+  assertThrows(() => mergeFoodGoals([], DEFAULT_FOOD_GOALS), Error, "JSON object");
+  assertThrows(() => mergeFoodGoals({ water: { min: 8 } }, DEFAULT_FOOD_GOALS), Error, 'unknown macro "water"');
+  assertThrows(() => mergeFoodGoals({ fiber: { min: -1 } }, DEFAULT_FOOD_GOALS), Error, "positive amount");
+  assertThrows(() => mergeFoodGoals({ fiber: { min: 20, max: 40 } }, DEFAULT_FOOD_GOALS), Error, "positive amount");
+});
+
+Deno.test("weekly food email and monthly card show goals, XP, and badges", () => {
+  const rollup = buildFoodRollup(ENTRIES, "2026-01-05", "2026-01-11");
+  const email = buildFoodEmail(ENTRIES, rollup, { awards: classifyBadgeAwards(rollup, []) });
+  assertEquals(email.subject, "Food Log Weekly Rollup (2026-01-05 → 2026-01-11)");
+  assertStringIncludes(email.text, "Complete macros: 6 of 7 entries (86%)");
+  assertStringIncludes(email.text, "- Sodium ≤ 2300 mg/day: 6 days of 7 logged");
+  assertStringIncludes(email.text, "XP earned: 254");
+  assertStringIncludes(email.text, "New badges:\n- First time: Con Air: Logged Every Day");
+  assertStringIncludes(email.text, "2026-01-10: 1 entries · 500 / 30 / 50 / 20");
+  assertStringIncludes(email.html, "NEW · Con Air: Logged Every Day");
+  assertStringIncludes(email.text, "you logged your meals nearly every day this week");
+
+  const section = foodTracker.summarizeMonth([rollup], "2026-01-01", "2026-01-31", {});
+  assertEquals(section.stats.find((stat) => stat.label === "XP")?.value, 254);
+  assertEquals(section.stats.find((stat) => stat.label === "Complete macros")?.value, "86%");
+  assertEquals(section.badges?.length, 5);
+  assertEquals(section.details?.[1].rows[1], { label: "Fiber ≥ 25 g/day", value: "7 days of 7 logged" });
+});
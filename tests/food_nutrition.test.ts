@@ -0,0 +1,89 @@
+import {
+  combineLookups,
+  hasEnrichmentUpdate,
+  type ItemLookup,
+  type NutritionEstimate,
+  parseFoodItems,
+  planEnrichment,
+} from "../shared/food_nutrition.ts";
+import { fetchFoodMatch, type FoodMatch } from "../shared/fatsecret.ts";
+import { type Entry } from "../shared/food_enrich.ts";
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import type { OpenAI } from "https://esm.town/v/std/openai";
+
+function buildMatch(name: string, macros: FoodMatch["macros"]): FoodMatch {
+  return { foodId: `${name}-id`, foodName: name, brandName: null, source: "food.get", macros };
+}
+
+function buildEntry(pageId: string, food: string, macros: Entry["macros"] = {}): Entry {
+  return { pageId, date: "2026-01-02", loggedAt: "2026-01-02T12:00:00.000Z", food, macros };
+}
+
+const CORE = { calories: 200, protein: 10, carbs: 20, fat: 5 };
+
+Deno.test("planEnrichment only estimates entries missing core macros", async () => {
+  const looked: string[] = [];
+  const estimate = (food: string): Promise<NutritionEstimate | null> => {
+    looked.push(food);
+    if (food === "mystery") return Promise.resolve({ items: [], fallback: null, macros: null });
+    const item: ItemLookup = { name: food, servings: 1, match: buildMatch(food, CORE), macros: CORE };
+    return Promise.resolve({ items: [item], fallback: null, macros: CORE });
+  };
+  const diffs = await planEnrichment([
+    buildEntry("p1", "oatmeal"),
+    buildEntry("p2", "salad", CORE),
+    buildEntry("p3", "Unknown"),
+    buildEntry("p4", "mystery"),
+  ], estimate);
+
+  assertEquals(looked, ["oatmeal", "mystery"]);
+  assertEquals(diffs.map((diff) => diff.pageId), ["p1", "p4"]);
+  assertEquals(diffs[0].properties.calories, { number: 200 });
+  assertEquals(diffs[0].properties.fats, { number: 5 });
+  assertEquals(diffs.map(hasEnrichmentUpdate), [true, false]);
+});
+
+Deno.test("combineLookups sums complete items and falls back to the whole entry otherwise", async () => {
+  const eggs: ItemLookup = { name: "eggs", servings: 2, match: buildMatch("eggs", CORE), macros: CORE };
+  const toast: ItemLookup = { name: "toast", servings: 1, match: buildMatch("toast", CORE), macros: CORE };
+  const summed = await combineLookups([eggs, toast], () => Promise.reject(new Error("unused")));
+  assertEquals(summed.macros, { calories: 400, protein: 20, carbs: 40, fat: 10 });
+  assertEquals(summed.fallback, null);
+
+  const missing: ItemLookup = { name: "jam", servings: 1, match: null, macros: null };
+  const fallback = buildMatch("eggs and toast with jam", { calories: 450 });
+  const result = await combineLookups([eggs, missing], () => Promise.resolve(fallback));
+  assertEquals(result.fallback, fallback);
+  assertEquals(result.macros, { calories: 450 });
+});
+
+Deno.test("parseFoodItems normalizes model output and falls back to the raw entry", async () => {
+  const respond = (content: string) =>
+    ({
+      chat: { completions: { create: () => Promise.resolve({ choices: [{ message: { content } }] }) } },
+    }) as unknown as OpenAI;
+  const items = await parseFoodItems("2 eggs and toast", respond('{"items":[{"name":" eggs ","servings":"2"},"toast"]}'));
+  assertEquals(items, [{ name: "eggs", servings: 2 }, { name: "toast", servings: 1 }]);
+  assertEquals(await parseFoodItems("soup", respond("not json")), [{ name: "soup", servings: 1 }]);
+});
+
+Deno.test("fetchFoodMatch reports the matched food and detailed nutrition", async () => {
+  const originalFetch = globalThis.fetch;
+  const responses = [
+    { foods: { food: { food_id: "42", food_name: "Shrimp Lo Mein", brand_name: "Panda" } } },
+    { food: { servings: { serving: { calories: "410", protein: "18.5", carbohydrate: "55", fat: "12" } } } },
+  ];
+  globalThis.fetch = (() => Promise.resolve(new Response(JSON.stringify(responses.shift())))) as typeof fetch;
+  try {
+    const match = await fetchFoodMatch("shrimp lo mein", "token");
+    assertEquals(match, {
+      foodId: "42",
+      foodName: "Shrimp Lo Mein",
+      brandName: "Panda",
+      source: "food.get",
+      macros: { calories: 410, protein: 18.5, carbs: 55, fat: 12 },
+    });
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
@@ -0,0 +1,81 @@
+import { buildBloodSugarRollup, type Entry } from "../shared/blood_sugar_logic.ts";
+import { buildReport } from "../shared/blood_sugar_report.ts";
+import {
+  buildEstimateHistory,
+  buildGlucoseEstimate,
+  buildGlucoseTrend,
+  calculateGmi,
+  estimateA1c,
+} from "../shared/glucose_estimate.ts";
+import { type Rollup } from "../shared/monthly_report.ts";
+import { bloodSugarTracker } from "../trackers/blood_sugar.ts";
+import { assertEquals, assertStringIncludes } from "https://deno.land/std@0.224.0/assert/mod.ts";
+
+function week(periodStart: string, periodEnd: string, avg: number, totalEntries = 14): Rollup {
+  return {
+    category: "blood_sugar",
+    periodStart,
+    periodEnd,
+    streak: 0,
+    completionRate: 100,
+    xp: 0,
+    badges: [],
+    stats: { avg, totalEntries, entriesByDate: { [periodStart]: 2, [periodEnd]: 2 } },
+    runId: `blood_sugar-${periodStart}-${periodEnd}`,
+  };
+}
+
+Deno.test("estimateA1c and calculateGmi use the published formulas", () => {
+  assertEquals(estimateA1c(154), 7);
+  assertEquals(calculateGmi(154), 7);
+  assertEquals(estimateA1c(126), 6);
+  assertEquals(calculateGmi(100), 5.7);
+});
+
+Deno.test("buildGlucoseEstimate weights weekly averages and skips overlapping re-runs", () => {
+  const rollups = [
+    week("2026-01-01", "2026-01-07", 100, 10),
+    week("2026-01-08", "2026-01-14", 160, 30),
+    // Re-run with a shifted window overlapping the week above; the newer one wins.
+    week("2026-01-05", "2026-01-11", 400, 14),
+  ];
+  const estimate = buildGlucoseEstimate(rollups, "2026-01-14");
+  assertEquals(estimate?.windowStart, "2025-10-17");
+  assertEquals(estimate?.mean, 145);
+  assertEquals(estimate?.readings, 40);
+  assertEquals(estimate?.limitedData, true);
+  assertEquals(buildGlucoseEstimate(rollups, "2025-12-31"), null);
+});
+
+Deno.test("buildGlucoseTrend compares against the previous 90 days", () => {
+  const trend = buildGlucoseTrend([week("2025-10-01", "2025-10-07", 154), week("2026-01-01", "2026-01-07", 126)], "2026-01-07");
+  assertEquals(trend.current?.a1c, 6);
+  assertEquals(trend.previous?.a1c, 7);
+  assertEquals(trend.a1cChange, -1);
+});
+
+Deno.test("buildReport shows the estimate next to the disclaimer", () => {
+  const entries: Entry[] = [{ date: "2026-01-02", createdTime: "8:00 AM", value: 126 }];
+  const rollup = buildBloodSugarRollup(entries, "2026-01-01", "2026-01-07");
+  const report = buildReport(entries, "2026-01-01", "2026-01-07", rollup, {
+    history: [week("2025-10-01", "2025-10-07", 154)],
+  });
+  assertStringIncludes(
+    report.text,
+    "Estimated A1C: 6% · GMI 6.3% (90-day mean 126 from 1 reading, limited data: 1 day) — down 1 vs previous 90 days\nDisclaimer:",
+  );
+  assertStringIncludes(report.html, "Estimated A1C (90 days)");
+  assertStringIncludes(buildReport(entries, "2026-01-01", "2026-01-07", rollup).text, "no previous 90 days to compare");
+});
+
+Deno.test("monthly card lists the estimate history with the disclaimer", () => {
+  const history = [week("2025-12-01", "2025-12-07", 154), week("2026-01-01", "2026-01-07", 126)];
+  assertEquals(buildEstimateHistory(history, "2026-01-31", 3).map((estimate) => estimate.windowEnd), [
+    "2025-12-31",
+    "2026-01-31",
+  ]);
+  const section = bloodSugarTracker.summarizeMonth([history[1]], "2026-01-01", "2026-01-31", { history });
+  assertEquals(section.stats.find((stat) => stat.label === "Est. A1C (90d)")?.value, "6.5%");
+  assertEquals(section.details?.at(-1)?.rows.length, 2);
+  assertStringIncludes(section.footnote ?? "", "Not medical advice");
+});
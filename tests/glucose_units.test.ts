@@ -0,0 +1,64 @@
+import { buildBloodSugarRollup, parseEntry } from "../shared/blood_sugar_logic.ts";
+import { buildNotionReport, buildReport } from "../shared/blood_sugar_report.ts";
+import { formatGlucose, formatReading, fromMgdl, parseGlucoseUnit, toMgdl } from "../shared/glucose_units.ts";
+import { DEFAULT_TIME_IN_RANGE_THRESHOLDS, mergeTimeInRangeThresholds } from "../shared/time_in_range.ts";
+import { assertEquals, assertStringIncludes } from "https://deno.land/std@0.224.0/assert/mod.ts";
+
+Deno.test("parseGlucoseUnit accepts common spellings", () => {
+  assertEquals(parseGlucoseUnit("mg/dL"), "mg/dL");
+  assertEquals(parseGlucoseUnit(" MGDL "), "mg/dL");
+  assertEquals(parseGlucoseUnit("mmol/l"), "mmol/L");
+  assertEquals(parseGlucoseUnit("mmol"), "mmol/L");
+  assertEquals(parseGlucoseUnit("grams"), null);
+  assertEquals(parseGlucoseUnit(null), null);
+});
+
+Deno.test("conversions round to each unit's usual precision", () => {
+  assertEquals(toMgdl(5.5, "mmol/L"), 99.1);
+  assertEquals(toMgdl(99, "mg/dL"), 99);
+  assertEquals(fromMgdl(99.1, "mmol/L"), 5.5);
+  assertEquals(fromMgdl(117.46, "mg/dL"), 117.5);
+  assertEquals(formatReading(99.1, "mg/dL"), "99");
+  assertEquals(formatReading(180, "mmol/L"), "10.0");
+  assertEquals(formatGlucose(70, "mmol/L"), "3.9");
+});
+
+Deno.test("parseEntry stores mmol/L readings as mg/dL", () => {
+  const page = (value: number, unit?: string) => ({
+    id: "page-1",
+    properties: {
+      "Blood Sugar Level": { number: value },
+      "Created time": { created_time: "2026-01-05T13:00:00.000Z" },
+      ...(unit ? { Unit: { select: { name: unit } } } : {}),
+    },
+  });
+  assertEquals(parseEntry(page(7, "mmol/L"))?.value, 126.1);
+  assertEquals(parseEntry(page(126, "mg/dL"), undefined, "mmol/L")?.value, 126);
+  // No Unit value: the configured input unit applies.
+  assertEquals(parseEntry(page(7), undefined, "mmol/L")?.value, 126.1);
+  assertEquals(parseEntry(page(126))?.value, 126);
+});
+
+Deno.test("threshold overrides are read in the display unit", () => {
+  const thresholds = mergeTimeInRangeThresholds({ low: 3.9, high: 10 }, DEFAULT_TIME_IN_RANGE_THRESHOLDS, "mmol/L");
+  assertEquals(thresholds, { veryLow: 54, low: 70.3, high: 180.2, veryHigh: 250 });
+});
+
+Deno.test("reports render stats, readings, and thresholds in the display unit", () => {
+  const entries = [
+    { date: "2026-01-01", createdTime: "8:00 AM", value: 90 },
+    { date: "2026-01-01", createdTime: "8:00 PM", value: 144 },
+  ];
+  const rollup = buildBloodSugarRollup(entries, "2026-01-01", "2026-01-07");
+  const report = buildReport(entries, "2026-01-01", "2026-01-07", rollup, { unit: "mmol/L" });
+  assertStringIncludes(report.text, "Units: mmol/L");
+  assertStringIncludes(report.text, "Average: 6.5\nMin: 5\nMax: 8");
+  assertStringIncludes(report.text, "Time in range (3.9–10): 100%");
+  assertStringIncludes(report.text, "2026-01-01 | 1st: 5.0 | 2nd: 8.0");
+  assertStringIncludes(report.html, "Time in range (3.9–10)");
+  // Stored rollup stays canonical.
+  assertEquals(report.rollup.stats.avg, 117);
+
+  const notion = buildNotionReport(entries, "2026-01-01", "2026-01-07", rollup, { unit: "mmol/L" });
+  assertEquals(notion.stats.Average, 6.5);
+});
@@ -0,0 +1,69 @@
+import {
+  buildVariability,
+  calculateMage,
+  formatVariabilityLines,
+  mergeVariability,
+  percentile,
+} from "../shared/glycemic_variability.ts";
+import { buildBloodSugarRollup, type Entry } from "../shared/blood_sugar_logic.ts";
+import { aggregateBloodSugarMonth, type Rollup } from "../shared/monthly_report.ts";
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+
+function buildEntry(date: string, time: string, value: number): Entry {
+  return { pageId: `${date}-${time}`, date, createdTime: time, value, recordedAt: `${date}T${time}:00.000Z` };
+}
+
+Deno.test("buildVariability reports sample SD, CV, and interpolated quartiles", () => {
+  const variability = buildVariability([100, 120, 140, 160]);
+  assertEquals(variability.count, 4);
+  assertEquals(variability.sum, 520);
+  assertEquals(variability.sumOfSquares, 69600);
+  assertEquals(variability.sd, 25.8);
+  assertEquals(variability.cv, 19.9);
+  assertEquals([variability.q1, variability.median, variability.q3, variability.iqr], [115, 130, 145, 30]);
+  assertEquals(percentile([], 0.5), 0);
+  assertEquals(buildVariability([110]).sd, 0);
+});
+
+Deno.test("calculateMage averages swings between peaks and nadirs larger than one SD", () => {
+  // Turning points 100 → 200 → 90 → 95 → 85 → 180: the 5 and 10 wiggles fall under the SD.
+  assertEquals(calculateMage([100, 150, 200, 90, 95, 85, 180], 40), { mage: 101.7, excursions: 3 });
+  assertEquals(calculateMage([100, 100, 100], 0), { mage: null, excursions: 0 });
+  assertEquals(calculateMage([100, 110, 105], 20), { mage: null, excursions: 0 });
+});
+
+Deno.test("mergeVariability matches computing over all readings at once", () => {
+  const first = [95, 180, 110, 70];
+  const second = [150, 130, 210, 88, 120];
+  const merged = mergeVariability([buildVariability(first), buildVariability(second)]);
+  const direct = buildVariability([...first, ...second]);
+  assertEquals(merged, direct);
+  // Old rollups without stored readings still merge SD and CV from their totals.
+  const legacy = mergeVariability([{ ...buildVariability(first), values: [] }, buildVariability(second)]);
+  assertEquals(legacy.sd, direct.sd);
+  assertEquals(legacy.cv, direct.cv);
+});
+
+Deno.test("rollup variability follows reading time and merges into the monthly summary", () => {
+  const entries = [
+    buildEntry("2026-01-05", "20:00", 180),
+    buildEntry("2026-01-05", "08:00", 90),
+    buildEntry("2026-01-06", "08:00", 100),
+  ];
+  const rollup = buildBloodSugarRollup(entries, "2026-01-05", "2026-01-11");
+  assertEquals(rollup.stats.variability.values, [90, 180, 100]);
+
+  const later = buildBloodSugarRollup([buildEntry("2026-01-12", "08:00", 140)], "2026-01-12", "2026-01-18");
+  const rollups: Rollup[] = [later, rollup];
+  const summary = aggregateBloodSugarMonth(rollups, "2026-01-01", "2026-01-31");
+  assertEquals(summary.variability.values, [90, 180, 100, 140]);
+  assertEquals(summary.variability.sd, 41.1);
+  assertEquals(summary.variability.cv, 32.3);
+});
+
+Deno.test("formatVariabilityLines explains each metric in the display unit", () => {
+  const lines = formatVariabilityLines(buildVariability([90, 180, 100, 140]), "mmol/L");
+  assertEquals(lines[0], "SD: 2.3 — Standard deviation: how far a typical reading lands from your average.");
+  assertEquals(lines[1].startsWith("CV: 32.3% — "), true);
+  assertEquals(formatVariabilityLines(buildVariability([100])), ["Variability: needs at least 2 readings"]);
+});
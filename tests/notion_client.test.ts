@@ -0,0 +1,139 @@
+import {
+  appendNotionBlocks,
+  calculateRetryDelay,
+  createNotionPage,
+  fetchNotionPages,
+  NotionApiError,
+  parseRetryAfter,
+  updateNotionPage,
+} from "../shared/notion.ts";
+import { assertEquals, assertRejects } from "https://deno.land/std@0.224.0/assert/mod.ts";
+
+// Replace fetch with a queue of canned responses for the duration of a test.
+async function withFetchResponses(responses: Response[], run: (calls: string[]) => Promise<void>) {
+  const originalFetch = globalThis.fetch;
+  const calls: string[] = [];
+  globalThis.fetch = ((input: string | URL | Request) => {
+    calls.push(String(input));
+    const next = responses.shift();
+    if (!next) throw new Error("Unexpected fetch call.");
+    return Promise.resolve(next);
+  }) as typeof fetch;
+  try {
+    await run(calls);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+}
+
+function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), { status, headers });
+}
+
+const noSleep = () => Promise.resolve();
+
+Deno.test("parseRetryAfter handles seconds and HTTP dates", () => {
+  assertEquals(parseRetryAfter("2"), 2000);
+  assertEquals(parseRetryAfter(null), null);
+  const now = Date.parse("2026-01-01T00:00:00.000Z");
+  assertEquals(parseRetryAfter("Thu, 01 Jan 2026 00:00:03 GMT", now), 3000);
+});
+
+Deno.test("calculateRetryDelay prefers Retry-After and caps backoff", () => {
+  const options = { baseDelayMs: 500, maxDelayMs: 4000 };
+  assertEquals(calculateRetryDelay(0, "1", options, () => 0), 1000);
+  assertEquals(calculateRetryDelay(0, null, options, () => 0), 250);
+  assertEquals(calculateRetryDelay(0, null, options, () => 1), 500);
+  assertEquals(calculateRetryDelay(10, null, options, () => 1), 4000);
+});
+
+Deno.test("fetchNotionPages retries rate limits and server errors", async () => {
+  const waits: number[] = [];
+  await withFetchResponses(
+    [
+      jsonResponse(429, { object: "error", code: "rate_limited", message: "Slow down" }, { "Retry-After": "1" }),
+      jsonResponse(502, { object: "error", code: "bad_gateway", message: "Oops" }),
+      jsonResponse(200, { results: [{ id: "page-1", properties: {} }], has_more: false, next_cursor: null }),
+    ],
+    async (calls) => {
+      const pages = await fetchNotionPages("db-1", "token", () => ({}), {
+        sleep: (ms) => {
+          waits.push(ms);
+          return Promise.resolve();
+        },
+        random: () => 0,
+      });
+      assertEquals(pages.length, 1);
+      assertEquals(calls.length, 3);
+    },
+  );
+  assertEquals(waits, [1000, 500]);
+});
+
+Deno.test("updateNotionPage surfaces a typed error without retrying client errors", async () => {
+  await withFetchResponses(
+    [jsonResponse(400, { object: "error", code: "validation_error", message: "bad", request_id: "req-1" })],
+    async (calls) => {
+      const error = await assertRejects(
+        () => updateNotionPage("page-1", "token", {}, { sleep: noSleep }),
+        NotionApiError,
+      );
+      assertEquals(error.status, 400);
+      assertEquals(error.code, "validation_error");
+      assertEquals(error.requestId, "req-1");
+      assertEquals(error.retries, 0);
+      assertEquals(calls.length, 1);
+    },
+  );
+});
+
+Deno.test("notion requests stop retrying once the time budget is spent", async () => {
+  await withFetchResponses(
+    [
+      jsonResponse(503, { object: "error", code: "service_unavailable", message: "down" }, { "Retry-After": "20" }),
+      jsonResponse(503, { object: "error", code: "service_unavailable", message: "down" }, { "Retry-After": "20" }),
+    ],
+    async (calls) => {
+      const error = await assertRejects(
+        () => fetchNotionPages("db-1", "token", () => ({}), { sleep: noSleep, maxRetryTimeMs: 30000 }),
+        NotionApiError,
+      );
+      assertEquals(error.status, 503);
+      assertEquals(error.retries, 1);
+      assertEquals(calls.length, 2);
+    },
+  );
+});
+
+Deno.test("createNotionPage retries rate limits but not server errors", async () => {
+  await withFetchResponses(
+    [
+      jsonResponse(429, { object: "error", code: "rate_limited", message: "Slow down" }, { "Retry-After": "1" }),
+      jsonResponse(502, { object: "error", code: "bad_gateway", message: "Oops" }),
+    ],
+    async (calls) => {
+      const error = await assertRejects(
+        () => createNotionPage("db-1", "token", {}, { sleep: noSleep }),
+        NotionApiError,
+      );
+      assertEquals(error.status, 502);
+      assertEquals(error.retries, 1);
+      assertEquals(calls.length, 2);
+    },
+  );
+});
+
+Deno.test("appendNotionBlocks does not retry server errors", async () => {
+  await withFetchResponses(
+    [jsonResponse(500, { object: "error", code: "internal_server_error", message: "Oops" })],
+    async (calls) => {
+      const error = await assertRejects(
+        () => appendNotionBlocks("page-1", "token", [{ object: "block", type: "divider" }], { sleep: noSleep }),
+        NotionApiError,
+      );
+      assertEquals(error.status, 500);
+      assertEquals(error.retries, 0);
+      assertEquals(calls.length, 1);
+    },
+  );
+});
@@ -0,0 +1,134 @@
+import {
+  buildReportProperties,
+  publishWeeklyReport,
+  tableBlock,
+  type WeeklyNotionReport,
+} from "../shared/notion_report.ts";
+import { appendNotionBlocks } from "../shared/notion.ts";
+import { buildNotionReport } from "../shared/blood_sugar_report.ts";
+import { buildBloodSugarRollup } from "../shared/blood_sugar_logic.ts";
+import { type Rollup } from "../shared/monthly_report.ts";
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+
+type Call = { method: string; url: string; body: Record<string, unknown> | null };
+
+// Replace fetch with a queue of canned JSON responses, recording method, path, and body.
+async function withNotion(responses: unknown[], run: (calls: Call[]) => Promise<void>) {
+  const originalFetch = globalThis.fetch;
+  const calls: Call[] = [];
+  globalThis.fetch = ((input: string | URL | Request, init?: RequestInit) => {
+    const url = String(input).replace("https://api.notion.com/v1", "");
+    calls.push({ method: init?.method ?? "GET", url, body: init?.body ? JSON.parse(String(init.body)) : null });
+    if (!responses.length) throw new Error(`Unexpected fetch call: ${url}`);
+    return Promise.resolve(new Response(JSON.stringify(responses.shift()), { status: 200 }));
+  }) as typeof fetch;
+  try {
+    await run(calls);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+}
+
+const DATABASE = {
+  id: "reports-db",
+  properties: {
+    Name: { type: "title" },
+    "Run ID": { type: "rich_text" },
+    Week: { type: "date" },
+    Category: { type: "select" },
+    Completion: { type: "number" },
+    Average: { type: "rich_text" },
+  },
+};
+
+const ROLLUP: Rollup = {
+  category: "blood_sugar",
+  periodStart: "2026-01-01",
+  periodEnd: "2026-01-07",
+  streak: 3,
+  completionRate: 50,
+  xp: 84,
+  badges: [],
+  stats: {},
+  runId: "blood_sugar-2026-01-01-2026-01-07",
+};
+
+const REPORT: WeeklyNotionReport = {
+  title: "Blood Sugar 2026-01-01 → 2026-01-07",
+  stats: { Completion: 50, Streak: 3, Average: 101 },
+  blocks: [{ object: "block", type: "paragraph", paragraph: { rich_text: [] } }],
+};
+
+Deno.test("buildReportProperties only writes stats the database has as number columns", () => {
+  const properties = buildReportProperties(ROLLUP, REPORT, DATABASE);
+  assertEquals(Object.keys(properties).sort(), ["Category", "Completion", "Name", "Run ID", "Week"]);
+  assertEquals(properties.Week, { date: { start: "2026-01-01", end: "2026-01-07" } });
+  assertEquals(properties.Completion, { number: 50 });
+});
+
+Deno.test("tableBlock adds a header row and sizes the table", () => {
+  const block = tableBlock(["Date", "First"], [["2026-01-01", "98"]]);
+  const table = block.table as { table_width: number; children: unknown[] };
+  assertEquals(table.table_width, 2);
+  assertEquals(table.children.length, 2);
+});
+
+Deno.test("blood sugar Notion report has a row per day and rollup stats", () => {
+  const entries = [{ date: "2026-01-02", createdTime: "Jan 2, 2026, 8:00 AM", value: 98 }];
+  const rollup = buildBloodSugarRollup(entries, "2026-01-01", "2026-01-07");
+  const report = buildNotionReport(entries, "2026-01-01", "2026-01-07", rollup);
+  assertEquals(report.stats.Entries, 1);
+  assertEquals(report.stats.Average, 98);
+  const table = report.blocks[1].table as { children: Array<{ table_row: { cells: unknown[] } }> };
+  assertEquals(table.children.length, 8);
+  assertEquals(table.children[2].table_row.cells[1], [{ type: "text", text: { content: "98" } }]);
+});
+
+Deno.test("publishWeeklyReport creates a page when the run id is new", async () => {
+  await withNotion([
+    DATABASE,
+    { results: [], has_more: false, next_cursor: null },
+    { id: "page-1", properties: {} },
+    {},
+  ], async (calls) => {
+    const result = await publishWeeklyReport({ token: "token", databaseId: "reports-db" }, ROLLUP, REPORT);
+    assertEquals(result, { pageId: "page-1", created: true });
+    assertEquals(calls.map((call) => `${call.method} ${call.url}`), [
+      "GET /databases/reports-db",
+      "POST /databases/reports-db/query",
+      "POST /pages",
+      "PATCH /blocks/page-1/children",
+    ]);
+    assertEquals(calls[1].body?.filter, { property: "Run ID", rich_text: { equals: ROLLUP.runId } });
+  });
+});
+
+Deno.test("publishWeeklyReport replaces the body of an existing report page", async () => {
+  await withNotion([
+    DATABASE,
+    { results: [{ id: "page-1", properties: {} }], has_more: false, next_cursor: null },
+    {},
+    { results: [{ id: "block-1" }, { id: "block-2" }], has_more: false, next_cursor: null },
+    {},
+    {},
+    {},
+  ], async (calls) => {
+    const result = await publishWeeklyReport({ token: "token", databaseId: "reports-db" }, ROLLUP, REPORT);
+    assertEquals(result, { pageId: "page-1", created: false });
+    assertEquals(calls.slice(2).map((call) => `${call.method} ${call.url}`), [
+      "PATCH /pages/page-1",
+      "GET /blocks/page-1/children",
+      "PATCH /blocks/page-1/children",
+      "DELETE /blocks/block-1",
+      "DELETE /blocks/block-2",
+    ]);
+  });
+});
+
+Deno.test("appendNotionBlocks batches children in groups of 100", async () => {
+  const blocks = Array.from({ length: 150 }, () => ({ object: "block", type: "divider", divider: {} }));
+  await withNotion([{}, {}], async (calls) => {
+    await appendNotionBlocks("page-1", "token", blocks);
+    assertEquals(calls.map((call) => (call.body?.children as unknown[]).length), [100, 50]);
+  });
+});
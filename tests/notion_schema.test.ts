@@ -0,0 +1,74 @@
+import {
+  assertPagesParsed,
+  formatSchemaIssues,
+  NotionSchemaError,
+  parsePages,
+  validateDatabaseSchema,
+} from "../shared/notion_schema.ts";
+import { buildExpectedProperties as buildBloodSugarProperties, parseEntry } from "../shared/blood_sugar_logic.ts";
+import { buildExpectedProperties as buildFoodProperties } from "../shared/food_enrich.ts";
+import { assertEquals, assertThrows } from "https://deno.land/std@0.224.0/assert/mod.ts";
+
+Deno.test("validateDatabaseSchema accepts the documented blood sugar database", () => {
+  const issues = validateDatabaseSchema(
+    {
+      id: "db-1",
+      properties: {
+        Entry: { type: "title" },
+        "Created time": { type: "created_time" },
+        "Blood Sugar Level": { type: "number" },
+      },
+    },
+    buildBloodSugarProperties(),
+  );
+  assertEquals(issues, []);
+});
+
+Deno.test("validateDatabaseSchema reports missing and mis-typed properties", () => {
+  const issues = validateDatabaseSchema(
+    {
+      id: "db-2",
+      properties: {
+        food: { type: "title" },
+        "Created time": { type: "created_time" },
+        calories: { type: "rich_text" },
+        protein: { type: "number" },
+        carbs: { type: "number" },
+        fiber: { type: "number" },
+        sugar: { type: "number" },
+        sodium: { type: "number" },
+      },
+    },
+    buildFoodProperties(),
+  );
+  assertEquals(formatSchemaIssues(issues), [
+    'Property "calories" is rich_text (expected number).',
+    'Missing property "fats" (expected number).',
+  ]);
+});
+
+Deno.test("validateDatabaseSchema only type-checks optional properties when present", () => {
+  const expected = [{ name: "Notes", types: ["rich_text"], required: false }];
+  assertEquals(validateDatabaseSchema({ id: "db-3", properties: {} }, expected), []);
+  assertEquals(validateDatabaseSchema({ id: "db-3", properties: { Notes: { type: "number" } } }, expected).length, 1);
+});
+
+Deno.test("parsePages counts skipped pages and fails when every page is skipped", () => {
+  const pages = [
+    {
+      id: "page-1",
+      properties: {
+        "Blood Sugar Level": { number: 95 },
+        "Created time": { created_time: "2026-01-02T14:00:00.000Z" },
+      },
+    },
+    { id: "page-2", properties: { "Blood Sugar": { number: 101 } } },
+  ];
+  const result = parsePages(pages, parseEntry);
+  assertEquals(result.entries.length, 1);
+  assertEquals(result.skipped, 1);
+  assertPagesParsed(result, "Blood sugar");
+
+  const broken = parsePages([pages[1]], parseEntry);
+  assertThrows(() => assertPagesParsed(broken, "Blood sugar"), NotionSchemaError, "all 1 Notion pages");
+});
@@ -0,0 +1,64 @@
+import { buildLastEditedFilter, latestEditedTime } from "../shared/notion.ts";
+import { filterEntriesInRange } from "../shared/date.ts";
+import { buildMirrorWriteQueries, buildUpsertMirroredPageQuery, shouldRebuildMirror } from "../storage/notion_sync.ts";
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+
+Deno.test("buildLastEditedFilter queries pages edited since the cursor", () => {
+  assertEquals(buildLastEditedFilter("2026-01-05T10:00:00.000Z"), {
+    timestamp: "last_edited_time",
+    last_edited_time: { on_or_after: "2026-01-05T10:00:00.000Z" },
+  });
+});
+
+Deno.test("latestEditedTime only moves the cursor forward", () => {
+  const pages = [
+    { id: "a", properties: {}, last_edited_time: "2026-01-05T10:00:00.000Z" },
+    { id: "b", properties: {}, last_edited_time: "2026-01-06T08:00:00.000Z" },
+    { id: "c", properties: {} },
+  ];
+  assertEquals(latestEditedTime(pages, null), "2026-01-06T08:00:00.000Z");
+  assertEquals(latestEditedTime(pages, "2026-01-07T00:00:00.000Z"), "2026-01-07T00:00:00.000Z");
+  assertEquals(latestEditedTime([], null), null);
+});
+
+// Re-syncing the same page should replace its mirror row, not duplicate it.
+Deno.test("buildUpsertMirroredPageQuery replaces by database and page id", () => {
+  const page = { id: "page-1", properties: {}, last_edited_time: "2026-01-05T10:00:00.000Z" };
+  const query = buildUpsertMirroredPageQuery("db-1", page, "2026-01-05T11:00:00.000Z");
+  assertEquals(query.sql.trim().startsWith("INSERT OR REPLACE"), true);
+  assertEquals(query.args.slice(0, 3), ["db-1", "page-1", "2026-01-05T10:00:00.000Z"]);
+  assertEquals(JSON.parse(String(query.args[3])), page);
+});
+
+Deno.test("filterEntriesInRange keeps mirrored entries inside the report window", () => {
+  const entries = [{ date: "2025-12-31" }, { date: "2026-01-01" }, { date: "2026-01-07" }, { date: "2026-01-08" }];
+  assertEquals(filterEntriesInRange(entries, "2026-01-01", "2026-01-07"), [
+    { date: "2026-01-01" },
+    { date: "2026-01-07" },
+  ]);
+});
+
+// A reading deleted in Notion must stop counting in incremental rollups.
+Deno.test("buildMirrorWriteQueries removes deleted pages and clears the mirror on a rebuild", () => {
+  const pages = [
+    { id: "kept", properties: {}, last_edited_time: "2026-01-05T10:00:00.000Z" },
+    { id: "archived", properties: {}, archived: true },
+    { id: "trashed", properties: {}, in_trash: true },
+  ];
+  const incremental = buildMirrorWriteQueries("db-1", pages, "2026-01-05T11:00:00.000Z", false);
+  assertEquals(incremental.map((query) => query.sql.trim().split(" ")[0]), ["INSERT", "DELETE", "DELETE"]);
+  assertEquals(incremental.slice(1).map((query) => query.args), [["db-1", "archived"], ["db-1", "trashed"]]);
+
+  const rebuild = buildMirrorWriteQueries("db-1", pages.slice(0, 1), "2026-01-05T11:00:00.000Z", true);
+  assertEquals(rebuild[0], { sql: "DELETE FROM notion_mirror_1 WHERE database_id = ?", args: ["db-1"] });
+  assertEquals(rebuild.length, 2);
+});
+
+Deno.test("shouldRebuildMirror runs a full resync when the last one is too old", () => {
+  const now = new Date("2026-01-10T00:00:00.000Z");
+  assertEquals(shouldRebuildMirror(null, "2026-01-09T00:00:00.000Z", now), true);
+  assertEquals(shouldRebuildMirror("2026-01-09T00:00:00.000Z", null, now), true);
+  assertEquals(shouldRebuildMirror("2026-01-09T00:00:00.000Z", "2026-01-04T00:00:00.000Z", now), false);
+  assertEquals(shouldRebuildMirror("2026-01-09T00:00:00.000Z", "2026-01-03T00:00:00.000Z", now), true);
+  assertEquals(shouldRebuildMirror("2026-01-09T00:00:00.000Z", "2026-01-09T00:00:00.000Z", now, 1), true);
+});
@@ -1,8 +1,6 @@
 import {
-  buildBadges,
   buildEncouragement,
   buildBloodSugarRollup,
-  calculateXp,
   formatCreatedTime,
   formatGroupedEntryLine,
   groupEntriesByDate,
@@ -10,6 +8,7 @@ import {
   type Entry,
 } from "../shared/blood_sugar_logic.ts";
 import { calculateCurrentStreak, countEntriesByDate, listDateRange } from "../shared/date.ts";
+import { awardBadges, BLOOD_SUGAR_REWARD_RULES, calculateRuleXp } from "../shared/reward_rules.ts";
 import { assertEquals, assertStringIncludes } from "https://deno.land/std@0.224.0/assert/mod.ts";
 
 Deno.test("listDateRange returns inclusive dates", () => {
@@ -40,26 +39,8 @@ Deno.test("countEntriesByDate aggregates by date", () => {
   assertEquals(countEntriesByDate(entries), { "2026-01-01": 2, "2026-01-02": 1 });
 });
 
-Deno.test("buildBadges awards consistency and healthy average", () => {
-  const range = [
-    "2026-01-01",
-    "2026-01-02",
-    "2026-01-03",
-    "2026-01-04",
-    "2026-01-05",
-    "2026-01-06",
-    "2026-01-07",
-  ];
-  const counts = {
-    "2026-01-01": 2,
-    "2026-01-02": 2,
-    "2026-01-03": 2,
-    "2026-01-04": 2,
-    "2026-01-05": 2,
-    "2026-01-06": 2,
-    "2026-01-07": 2,
-  };
-  const badges = buildBadges(range, counts, 14, 95, true);
+Deno.test("default badge rules award consistency and healthy average", () => {
+  const badges = awardBadges(BLOOD_SUGAR_REWARD_RULES.badges, { totalEntries: 14, avg: 95, perfectWeek: true });
   assertEquals(badges.includes("Cage Match: Double-Check Champion"), true);
   assertEquals(badges.includes("National Treasure: Healthy Average"), true);
 });
@@ -91,22 +72,20 @@ Deno.test("hasPerfectWeekStreak requires two entries per day", () => {
   assertEquals(hasPerfectWeekStreak(range, counts), false);
 });
 
-Deno.test("calculateXp applies streak and healthy average bonuses", () => {
-  const xp = calculateXp(14, 95, true);
+Deno.test("default XP rules apply streak and healthy average bonuses", () => {
+  const xp = calculateRuleXp(BLOOD_SUGAR_REWARD_RULES.xp, { totalEntries: 14, avg: 95, perfectWeek: true });
   assertEquals(xp, 242);
 });
 
 // Boundary check: average at threshold should not get the healthy bonus.
-Deno.test("calculateXp does not apply healthy bonus at threshold", () => {
-  const xp = calculateXp(10, 100, true);
+Deno.test("default XP rules do not apply healthy bonus at threshold", () => {
+  const xp = calculateRuleXp(BLOOD_SUGAR_REWARD_RULES.xp, { totalEntries: 10, avg: 100, perfectWeek: true });
   assertEquals(xp, 144);
 });
 
 // Ensure minimum thresholds gate badges.
-Deno.test("buildBadges respects minimum thresholds", () => {
-  const range = ["2026-01-01", "2026-01-02", "2026-01-03", "2026-01-04", "2026-01-05", "2026-01-06", "2026-01-07"];
-  const counts = Object.fromEntries(range.map((date) => [date, 2]));
-  const badges = buildBadges(range, counts, 6, 110, false);
+Deno.test("default badge rules respect minimum thresholds", () => {
+  const badges = awardBadges(BLOOD_SUGAR_REWARD_RULES.badges, { totalEntries: 6, avg: 110, perfectWeek: false });
   assertEquals(badges.includes("Mandy-Mode Consistency"), false);
   assertEquals(badges.includes("Cage Match: Double-Check Champion"), false);
 });
@@ -0,0 +1,157 @@
+import {
+  buildDateRangeFilter,
+  buildPreferredDateRangeFilter,
+  buildTextPropertyValue,
+  mergePropertyMap,
+  readNumberProperty,
+  readTimestampProperty,
+} from "../shared/property_mapping.ts";
+import { DEFAULT_PROPERTY_MAP, parseEntry } from "../shared/blood_sugar_logic.ts";
+import { buildNutritionProperties, DEFAULT_PROPERTY_MAP as FOOD_PROPERTY_MAP } from "../shared/food_enrich.ts";
+import { assertEquals, assertThrows } from "https://deno.land/std@0.224.0/assert/mod.ts";
+
+Deno.test("mergePropertyMap accepts column names and typed mappings", () => {
+  const propertyMap = mergePropertyMap(
+    { value: "Glucose", timestamp: { name: "Measured", type: "date" } },
+    DEFAULT_PROPERTY_MAP,
+  );
+  assertEquals(propertyMap.value, { name: "Glucose", type: "number" });
+  assertEquals(propertyMap.timestamp, { name: "Measured", type: "date" });
+});
+
+Deno.test("mergePropertyMap rejects unknown fields and incompatible types", () => {
+  assertThrows(() => mergePropertyMap({ glucose: "Glucose" }, DEFAULT_PROPERTY_MAP), Error, "unknown field");
+  assertThrows(
+    () => mergePropertyMap({ value: { name: "Glucose", type: "date" } }, DEFAULT_PROPERTY_MAP),
+    Error,
+    "cannot read a date property",
+  );
+});
+
+Deno.test("readNumberProperty handles number, formula, and text values", () => {
+  assertEquals(readNumberProperty({ number: 98 }), 98);
+  assertEquals(readNumberProperty({ formula: { type: "number", number: 104 } }), 104);
+  assertEquals(readNumberProperty({ rich_text: [{ plain_text: " 112 " }] }), 112);
+  assertEquals(readNumberProperty({ rich_text: [{ plain_text: "high" }] }), null);
+});
+
+Deno.test("readTimestampProperty handles created time, date, and formula values", () => {
+  assertEquals(readTimestampProperty({ created_time: "2026-01-02T10:00:00.000Z" }), "2026-01-02T10:00:00.000Z");
+  assertEquals(readTimestampProperty({ date: { start: "2026-01-02" } }), "2026-01-02");
+  assertEquals(readTimestampProperty({ formula: { type: "date", date: { start: "2026-01-03" } } }), "2026-01-03");
+  assertEquals(readTimestampProperty({ date: null }), null);
+});
+
+Deno.test("buildDateRangeFilter matches the mapped property type", () => {
+  assertEquals(buildDateRangeFilter({ name: "Measured", type: "date" }, "2026-01-01", "2026-01-07"), {
+    and: [
+      { property: "Measured", date: { on_or_after: "2026-01-01" } },
+      { property: "Measured", date: { on_or_before: "2026-01-07" } },
+    ],
+  });
+  const textFilter = buildDateRangeFilter({ name: "When", type: "rich_text" }, "2026-01-01", "2026-01-07");
+  assertEquals((textFilter.and as unknown[])[0], {
+    timestamp: "created_time",
+    created_time: { on_or_after: "2026-01-01" },
+  });
+});
+
+Deno.test("parseEntry reads custom blood sugar columns", () => {
+  const propertyMap = mergePropertyMap(
+    { value: { name: "Glucose", type: "formula" }, timestamp: { name: "Taken", type: "date" } },
+    DEFAULT_PROPERTY_MAP,
+  );
+  const entry = parseEntry(
+    {
+      id: "page-1",
+      properties: {
+        Glucose: { formula: { type: "number", number: 101 } },
+        Taken: { date: { start: "2026-01-05T13:15:00.000Z" } },
+      },
+    },
+    propertyMap,
+  );
+  assertEquals(entry?.value, 101);
+  assertEquals(entry?.date, "2026-01-05");
+});
+
+Deno.test("buildNutritionProperties writes to renamed macro columns", () => {
+  const propertyMap = mergePropertyMap({ fat: "Fat (g)" }, FOOD_PROPERTY_MAP);
+  assertEquals(buildNutritionProperties({ fat: 4, calories: 120 }, propertyMap), {
+    calories: { number: 120 },
+    "Fat (g)": { number: 4 },
+  });
+});
+
+Deno.test("buildPreferredDateRangeFilter falls back to created time when the override is empty", () => {
+  const filter = buildPreferredDateRangeFilter(
+    DEFAULT_PROPERTY_MAP.measuredAt,
+    DEFAULT_PROPERTY_MAP.timestamp,
+    "2026-01-01",
+    "2026-01-07",
+  );
+  assertEquals(filter, {
+    or: [
+      {
+        and: [
+          { property: "Measured at", date: { on_or_after: "2026-01-01" } },
+          { property: "Measured at", date: { on_or_before: "2026-01-07" } },
+        ],
+      },
+      {
+        and: [
+          { property: "Measured at", date: { is_empty: true } },
+          { property: "Created time", created_time: { on_or_after: "2026-01-01" } },
+          { property: "Created time", created_time: { on_or_before: "2026-01-07" } },
+        ],
+      },
+    ],
+  });
+  const textOverride = buildPreferredDateRangeFilter(
+    { name: "When", type: "rich_text" },
+    DEFAULT_PROPERTY_MAP.timestamp,
+    "2026-01-01",
+    "2026-01-07",
+  );
+  assertEquals(textOverride, buildDateRangeFilter(DEFAULT_PROPERTY_MAP.timestamp, "2026-01-01", "2026-01-07"));
+});
+
+Deno.test("parseEntry dates backdated readings by Measured at", () => {
+  const createdNextMorning = { created_time: "2026-01-06T13:00:00.000Z" };
+  const backdated = parseEntry({
+    id: "page-1",
+    properties: {
+      "Blood Sugar Level": { number: 130 },
+      "Created time": createdNextMorning,
+      "Measured at": { date: { start: "2026-01-05T21:30:00.000-05:00" } },
+    },
+  });
+  assertEquals(backdated?.date, "2026-01-05");
+  assertEquals(backdated?.createdTime, "9:30 PM");
+
+  const dateOnly = parseEntry({
+    id: "page-2",
+    properties: {
+      "Blood Sugar Level": { number: 95 },
+      "Created time": createdNextMorning,
+      "Measured at": { date: { start: "2026-01-05" } },
+    },
+  });
+  assertEquals(dateOnly?.date, "2026-01-05");
+  assertEquals(dateOnly?.createdTime, null);
+
+  const unset = parseEntry({
+    id: "page-3",
+    properties: { "Blood Sugar Level": { number: 99 }, "Created time": createdNextMorning, "Measured at": { date: null } },
+  });
+  assertEquals(unset?.date, "2026-01-06");
+});
+
+Deno.test("buildTextPropertyValue writes the payload for the column's type", () => {
+  const content = [{ type: "text", text: { content: "Missing value" } }];
+  assertEquals(buildTextPropertyValue("rich_text", "Missing value"), { rich_text: content });
+  assertEquals(buildTextPropertyValue("title", "Missing value"), { title: content });
+  assertEquals(buildTextPropertyValue("select", "Missing value"), { select: { name: "Missing value" } });
+  assertEquals(buildTextPropertyValue("title", ""), { title: [] });
+  assertEquals(buildTextPropertyValue("select", ""), { select: null });
+});
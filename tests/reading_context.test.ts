@@ -0,0 +1,103 @@
+import { buildBloodSugarRollup, type Entry, parseEntry } from "../shared/blood_sugar_logic.ts";
+import { buildReport } from "../shared/blood_sugar_report.ts";
+import { aggregateBloodSugarMonth, type Rollup } from "../shared/monthly_report.ts";
+import {
+  DEFAULT_CONTEXT_TARGETS,
+  mergeContextStats,
+  mergeContextTargets,
+  parseReadingContext,
+  summarizeContexts,
+} from "../shared/reading_context.ts";
+import { assertEquals, assertStringIncludes, assertThrows } from "https://deno.land/std@0.224.0/assert/mod.ts";
+
+Deno.test("parseReadingContext normalizes select names and ignores unknown tags", () => {
+  assertEquals(parseReadingContext("Pre-meal"), "pre_meal");
+  assertEquals(parseReadingContext(" post meal "), "post_meal");
+  assertEquals(parseReadingContext("BEDTIME"), "bedtime");
+  assertEquals(parseReadingContext("After workout"), null);
+  assertEquals(parseReadingContext(null), null);
+});
+
+Deno.test("parseEntry reads the optional Context select", () => {
+  const entry = parseEntry({
+    id: "page-1",
+    properties: {
+      "Blood Sugar Level": { number: 98 },
+      "Created time": { created_time: "2026-01-05T13:00:00.000Z" },
+      Context: { select: { name: "Fasting" } },
+    },
+  });
+  assertEquals(entry?.context, "fasting");
+  const untagged = parseEntry({
+    id: "page-2",
+    properties: { "Blood Sugar Level": { number: 98 }, "Created time": { created_time: "2026-01-05T13:00:00.000Z" } },
+  });
+  assertEquals(untagged?.context, null);
+});
+
+Deno.test("mergeContextTargets overrides single bounds and rejects bad ranges", () => {
+  const targets = mergeContextTargets({ fasting: { high: 100 }, "post-meal": { low: 70, high: 160 } }, DEFAULT_CONTEXT_TARGETS);
+  assertEquals(targets.fasting, { low: 80, high: 100 });
+  assertEquals(targets.post_meal, { low: 70, high: 160 });
+  assertEquals(targets.bedtime, DEFAULT_CONTEXT_TARGETS.bedtime);
+  assertThrows(() => mergeContextTargets({ lunch: { low: 70, high: 140 } }, DEFAULT_CONTEXT_TARGETS));
+  assertThrows(() => mergeContextTargets({ fasting: { low: 140, high: 100 } }, DEFAULT_CONTEXT_TARGETS));
+});
+
+Deno.test("buildBloodSugarRollup adds per-context stats against each target", () => {
+  const entries: Entry[] = [
+    { date: "2026-01-01", createdTime: "7:00 AM", value: 95, context: "fasting" },
+    { date: "2026-01-02", createdTime: "7:00 AM", value: 140, context: "fasting" },
+    { date: "2026-01-02", createdTime: "1:00 PM", value: 170, context: "post_meal" },
+    { date: "2026-01-03", createdTime: "9:00 PM", value: 120 },
+  ];
+  const rollup = buildBloodSugarRollup(entries, "2026-01-01", "2026-01-07");
+  assertEquals(rollup.stats.byContext.fasting, {
+    count: 2,
+    total: 235,
+    avg: 117.5,
+    min: 95,
+    max: 140,
+    inRange: 1,
+    inRangeRate: 50,
+    target: { low: 80, high: 130 },
+  });
+  assertEquals(rollup.stats.byContext.post_meal?.inRangeRate, 100);
+  assertEquals(rollup.stats.byContext.random, undefined);
+
+  const strict = buildBloodSugarRollup(entries, "2026-01-01", "2026-01-07", {
+    contextTargets: { ...DEFAULT_CONTEXT_TARGETS, post_meal: { low: 80, high: 160 } },
+  });
+  assertEquals(strict.stats.byContext.post_meal?.inRange, 0);
+
+  const report = buildReport(entries, "2026-01-01", "2026-01-07", rollup);
+  assertStringIncludes(report.text, "Fasting: avg 117.5 (95–140), 1/2 in 80–130 (50%)");
+  assertStringIncludes(report.html, "By reading context");
+});
+
+Deno.test("aggregateBloodSugarMonth merges per-context stats across weeks", () => {
+  const week = (periodStart: string, periodEnd: string, values: number[]): Rollup => ({
+    category: "blood_sugar",
+    periodStart,
+    periodEnd,
+    streak: 0,
+    completionRate: 0,
+    xp: 0,
+    badges: [],
+    stats: {
+      totalEntries: values.length,
+      byContext: summarizeContexts(values.map((value) => ({ value, context: "bedtime" as const }))),
+    },
+    runId: `blood_sugar-${periodStart}-${periodEnd}`,
+  });
+  const summary = aggregateBloodSugarMonth(
+    [week("2026-01-01", "2026-01-07", [100, 160]), week("2026-01-08", "2026-01-14", [120])],
+    "2026-01-01",
+    "2026-01-31",
+  );
+  assertEquals(summary.byContext.bedtime?.count, 3);
+  assertEquals(summary.byContext.bedtime?.avg, 126.7);
+  assertEquals(summary.byContext.bedtime?.inRange, 2);
+  assertEquals(summary.byContext.bedtime?.max, 160);
+  assertEquals(mergeContextStats([]), {});
+});
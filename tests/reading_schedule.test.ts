@@ -0,0 +1,123 @@
+import {
+  assignSlots,
+  findSlotIndex,
+  formatSlotLabel,
+  parseReadingSchedule,
+  type ReadingSchedule,
+} from "../shared/reading_schedule.ts";
+import {
+  buildBloodSugarRollup,
+  type Entry,
+  formatGroupedEntryLine,
+  groupEntriesByDate,
+  hasPerfectWeekStreak,
+} from "../shared/blood_sugar_logic.ts";
+import { buildReport } from "../shared/blood_sugar_report.ts";
+import { aggregateBloodSugarMonth, type Rollup } from "../shared/monthly_report.ts";
+import { listDateRange } from "../shared/date.ts";
+import { assertEquals, assertStringIncludes, assertThrows } from "https://deno.land/std@0.224.0/assert/mod.ts";
+
+const FOUR_SLOTS: ReadingSchedule = parseReadingSchedule([
+  { label: "Fasting", start: "05:00", end: "09:00" },
+  { label: "Post-breakfast", start: "09:00", end: "12:00" },
+  { label: "Post-lunch", start: "13:00", end: "16:00" },
+  { label: "Bedtime", start: "21:00", end: "01:00" },
+]);
+
+function buildEntry(date: string, createdTime: string | null, value: number): Entry {
+  return { pageId: `${date}-${createdTime}`, date, createdTime, value };
+}
+
+Deno.test("parseReadingSchedule validates labels and time windows", () => {
+  assertEquals(FOUR_SLOTS[0], { label: "Fasting", start: 300, end: 540 });
+  assertEquals(parseReadingSchedule(["Morning", { label: "Evening" }]), [{ label: "Morning" }, { label: "Evening" }]);
+  assertThrows(() => parseReadingSchedule([]), Error, "non-empty");
+  assertThrows(() => parseReadingSchedule(["A", "A"]), Error, "unique");
+  assertThrows(() => parseReadingSchedule([{ label: "A", start: "25:00", end: "26:00" }]), Error, "HH:MM");
+  assertThrows(
+    () => parseReadingSchedule([{ label: "A", start: "05:00", end: "09:00" }, { label: "B" }]),
+    Error,
+    "all have times",
+  );
+});
+
+Deno.test("timed slots wrap past midnight and leave gaps unscheduled", () => {
+  assertEquals(findSlotIndex(23 * 60, FOUR_SLOTS), 3);
+  assertEquals(findSlotIndex(30, FOUR_SLOTS), 3);
+  assertEquals(findSlotIndex(12 * 60 + 30, FOUR_SLOTS), null);
+  assertEquals(formatSlotLabel(FOUR_SLOTS[3]), "Bedtime (21:00–01:00)");
+  const { slots, unscheduled } = assignSlots([420, 450, 750], (minutes) => minutes, FOUR_SLOTS);
+  assertEquals(slots, [[420, 450], [], [], []]);
+  assertEquals(unscheduled, [750]);
+});
+
+Deno.test("rollup counts filled slots for completion, missing slots, and perfect weeks", () => {
+  const entries = [
+    buildEntry("2026-01-05", "6:30 AM", 110),
+    buildEntry("2026-01-05", "7:15 AM", 120),
+    buildEntry("2026-01-05", "10:00 AM", 150),
+    buildEntry("2026-01-05", "12:30 PM", 140),
+    buildEntry("2026-01-06", "9:30 PM", 130),
+  ];
+  const rollup = buildBloodSugarRollup(entries, "2026-01-05", "2026-01-06", { schedule: FOUR_SLOTS });
+  assertEquals(rollup.stats.expected, 8);
+  assertEquals(rollup.stats.missing, 5);
+  assertEquals(rollup.completionRate, 38);
+  assertEquals(rollup.stats.slotsByDate, { "2026-01-05": 2, "2026-01-06": 1 });
+  assertEquals(rollup.stats.missingBySlot, { Fasting: 1, "Post-breakfast": 1, "Post-lunch": 2, Bedtime: 1 });
+
+  const groups = groupEntriesByDate(entries, ["2026-01-05"], FOUR_SLOTS);
+  assertEquals(
+    formatGroupedEntryLine(groups[0], "mg/dL", FOUR_SLOTS),
+    "2026-01-05 | Fasting: 110 (+1) | Post-breakfast: 150 | Post-lunch: — | Bedtime: — | Other: 140",
+  );
+
+  const week = listDateRange("2026-01-05", "2026-01-11");
+  assertEquals(hasPerfectWeekStreak(week, Object.fromEntries(week.map((date) => [date, 4])), 4), true);
+  assertEquals(hasPerfectWeekStreak(week, Object.fromEntries(week.map((date) => [date, 3])), 4), false);
+});
+
+Deno.test("email table columns follow the schedule", () => {
+  const entries = [buildEntry("2026-01-05", "6:30 AM", 110), buildEntry("2026-01-05", "12:30 PM", 140)];
+  const rollup = buildBloodSugarRollup(entries, "2026-01-05", "2026-01-05", { schedule: FOUR_SLOTS });
+  const report = buildReport(entries, "2026-01-05", "2026-01-05", rollup, { schedule: FOUR_SLOTS });
+  assertStringIncludes(report.text, "Missed slots: Post-breakfast 1 day, Post-lunch 1 day, Bedtime 1 day");
+  assertStringIncludes(report.html, "Fasting (05:00–09:00)</th>");
+  assertStringIncludes(report.html, ">Other</th>");
+});
+
+Deno.test("monthly completion uses filled slots and caps older rollups at the daily slots", () => {
+  const rollups: Rollup[] = [
+    {
+      category: "blood_sugar",
+      periodStart: "2026-02-02",
+      periodEnd: "2026-02-08",
+      streak: 0,
+      completionRate: 0,
+      xp: 0,
+      badges: [],
+      stats: { entriesByDate: { "2026-02-02": 3 } },
+      runId: "legacy",
+    },
+    {
+      category: "blood_sugar",
+      periodStart: "2026-02-09",
+      periodEnd: "2026-02-15",
+      streak: 0,
+      completionRate: 0,
+      xp: 0,
+      badges: [],
+      stats: {
+        entriesByDate: { "2026-02-09": 3 },
+        slotsByDate: { "2026-02-09": 1 },
+        missingBySlot: { "1st": 6, "2nd": 7 },
+      },
+      runId: "slots",
+    },
+  ];
+  const summary = aggregateBloodSugarMonth(rollups, "2026-02-01", "2026-02-28", { expectedPerDay: 2 });
+  assertEquals(summary.totalEntries, 6);
+  // (2 + 1) filled of 56 expected slots.
+  assertEquals(summary.completionRate, 5);
+  assertEquals(summary.missingBySlot, { "1st": 6, "2nd": 7 });
+});
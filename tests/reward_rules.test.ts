@@ -0,0 +1,102 @@
+import { buildBloodSugarRollup, type Entry } from "../shared/blood_sugar_logic.ts";
+import { buildExerciseRollup } from "../shared/exercise_logic.ts";
+import { buildFoodRollup } from "../shared/food_enrich.ts";
+import {
+  BLOOD_SUGAR_REWARD_RULES,
+  calculateRuleXp,
+  collectRewardFacts,
+  evaluateRewards,
+  mergeRewardRules,
+  type RewardRules,
+} from "../shared/reward_rules.ts";
+import { assertEquals, assertThrows } from "https://deno.land/std@0.224.0/assert/mod.ts";
+
+Deno.test("default blood sugar rules keep the original XP and badges", () => {
+  assertEquals(calculateRuleXp(BLOOD_SUGAR_REWARD_RULES.xp, { totalEntries: 14, avg: 95, perfectWeek: true }), 242);
+  assertEquals(
+    evaluateRewards(BLOOD_SUGAR_REWARD_RULES, { totalEntries: 14, avg: 95, perfectWeek: true }).badges,
+    [
+      "Mandy-Mode Consistency",
+      "Cage Match: Full Week",
+      "Cage Match: Double-Check Champion",
+      "National Treasure: Healthy Average",
+    ],
+  );
+  // A week without readings has avg 0, which never counts as healthy.
+  assertEquals(evaluateRewards(BLOOD_SUGAR_REWARD_RULES, { totalEntries: 0, avg: 0, perfectWeek: false }), {
+    xp: 0,
+    badges: [],
+  });
+});
+
+Deno.test("collectRewardFacts flattens nested stats and skips arrays", () => {
+  const facts = collectRewardFacts(
+    {
+      streak: 3,
+      completionRate: 50,
+      stats: { totalEntries: 4, timeInRange: { percents: { inRange: 75 } }, variability: { values: [1, 2] } },
+    },
+    { perfectWeek: false },
+  );
+  assertEquals(facts, {
+    streak: 3,
+    completionRate: 50,
+    totalEntries: 4,
+    "timeInRange.percents.inRange": 75,
+    perfectWeek: false,
+  });
+});
+
+Deno.test("rule overrides add and rename badges without code changes", () => {
+  const rules = mergeRewardRules(
+    {
+      badges: [
+        { name: "Steady Hands", description: "Mostly in range.", when: [{ fact: "timeInRange.percents.inRange", op: ">=", value: 50 }] },
+      ],
+    },
+    BLOOD_SUGAR_REWARD_RULES,
+    "blood_sugar",
+  );
+  assertEquals(rules.xp, BLOOD_SUGAR_REWARD_RULES.xp);
+  const entries: Entry[] = [
+    { pageId: "a", date: "2026-01-05", createdTime: "8:00 AM", value: 110 },
+    { pageId: "b", date: "2026-01-05", createdTime: "8:00 PM", value: 150 },
+  ];
+  const rollup = buildBloodSugarRollup(entries, "2026-01-05", "2026-01-11", { rewardRules: rules });
+  assertEquals(rollup.badges, ["Steady Hands"]);
+  assertEquals(rollup.xp, 24);
+});
+
+Deno.test("food and exercise rollups are scored by the same engine", () => {
+  const rules: RewardRules = {
+    xp: { points: [{ fact: "activeMinutes", points: 1 }], multipliers: [] },
+    badges: [{ name: "Moved", description: "", when: [{ fact: "activeDays", op: ">=", value: 1 }] }],
+  };
+  const exercise = buildExerciseRollup(
+    [{ pageId: "w", date: "2026-01-05", activity: "Walk", durationMinutes: 30, intensity: null }],
+    "2026-01-05",
+    "2026-01-11",
+    150,
+    rules,
+  );
+  assertEquals([exercise.xp, exercise.badges], [30, ["Moved"]]);
+  // An empty week earns nothing under the default food rules.
+  const food = buildFoodRollup([], "2026-01-05", "2026-01-11");
+  assertEquals([food.xp, food.badges], [0, []]);
+});
+
+Deno.test("mergeRewardRules rejects malformed rules", () => {
+  const defaults = BLOOD_SUGAR_REWARD_RULES;
+  assertThrows(() => mergeRewardRules({ bonus: 1 }, defaults), Error, "unknown key");
+  assertThrows(() => mergeRewardRules({ badges: [{ name: "A", when: [] }] }, defaults), Error, "non-empty");
+  assertThrows(
+    () => mergeRewardRules({ badges: [{ name: "A", when: [{ fact: "avg", op: "~", value: 1 }] }] }, defaults),
+    Error,
+    "op one of",
+  );
+  assertThrows(
+    () => mergeRewardRules({ xp: { multipliers: [{ factor: 0, when: [{ fact: "avg", op: "<", value: 1 }] }] } }, defaults),
+    Error,
+    "positive",
+  );
+});
@@ -1,4 +1,11 @@
-import { buildUpsertWeeklyRollupQuery, type WeeklyRollup } from "../storage/rollups.ts";
+import {
+  buildInsertBadgeEventQuery,
+  buildReplaceBadgeEventsQueries,
+  buildUpsertWeeklyRollupQuery,
+  parseBadgeEventRow,
+  parseWeeklyRollupRow,
+  type WeeklyRollup,
+} from "../storage/rollups.ts";
 import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
 
 // Ensures persistence overwrites by runId instead of inserting duplicates.
@@ -20,3 +27,67 @@ Deno.test("buildUpsertWeeklyRollupQuery uses INSERT OR REPLACE with runId", () =
   assertEquals(query.args[8], rollup.runId);
   assertEquals(query.args[9], createdAt);
 });
+
+Deno.test("parseWeeklyRollupRow reads array and object rows", () => {
+  const values = ["food", "2026-01-01", "2026-01-07", 3, 57, 12, '["A"]', '{"totalEntries":4}', "food-run"];
+  const fromArray = parseWeeklyRollupRow(values);
+  assertEquals(fromArray.badges, ["A"]);
+  assertEquals(fromArray.stats, { totalEntries: 4 });
+  const fromObject = parseWeeklyRollupRow({
+    category: "food",
+    period_start: "2026-01-01",
+    period_end: "2026-01-07",
+    streak: 3,
+    completion_rate: 57,
+    xp: 12,
+    badges_json: "not json",
+    stats_json: '{"totalEntries":4}',
+    run_id: "food-run",
+  });
+  assertEquals(fromObject.badges, []);
+  assertEquals(fromObject.periodEnd, "2026-01-07");
+  assertEquals(fromObject.completionRate, 57);
+});
+
+// Re-running a week must not record the same badge twice.
+Deno.test("badge events insert idempotently and parse back", () => {
+  const event = {
+    category: "blood_sugar",
+    badge: "Cage Match: Full Week",
+    periodStart: "2026-01-05",
+    periodEnd: "2026-01-11",
+    awardedAt: "2026-01-11T12:00:00.000Z",
+  };
+  const query = buildInsertBadgeEventQuery(event);
+  assertEquals(query.sql.startsWith("INSERT OR IGNORE"), true);
+  assertEquals(query.args[5], null);
+  assertEquals(parseBadgeEventRow(query.args), event);
+  assertEquals(
+    parseBadgeEventRow({
+      category: "food",
+      badge: "A",
+      period_start: "2026-01-05",
+      period_end: "2026-01-11",
+      awarded_at: "2026-01-11T12:00:00.000Z",
+      reason: "First time",
+    }).reason,
+    "First time",
+  );
+});
+
+Deno.test("buildReplaceBadgeEventsQueries deletes stale badges and inserts in one batch", () => {
+  const event = {
+    category: "food",
+    badge: "Con Air: Logged Every Day",
+    periodStart: "2026-01-05",
+    periodEnd: "2026-01-11",
+    awardedAt: "2026-01-11T12:00:00.000Z",
+  };
+  const [remove, insert, ...rest] = buildReplaceBadgeEventsQueries("food", "2026-01-05", [event]);
+  assertEquals(remove.sql.includes("badge NOT IN (?)"), true);
+  assertEquals(remove.args, ["food", "2026-01-05", "Con Air: Logged Every Day"]);
+  assertEquals(insert, buildInsertBadgeEventQuery(event));
+  assertEquals(rest, []);
+  // A week that no longer earns anything just clears its events.
+  assertEquals(buildReplaceBadgeEventsQueries("food", "2026-01-05", []).map((query) => query.args), [["food", "2026-01-05"]]);
+});
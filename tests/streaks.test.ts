@@ -0,0 +1,99 @@
+import { buildBloodSugarRollup, type Entry } from "../shared/blood_sugar_logic.ts";
+import { buildReport } from "../shared/blood_sugar_report.ts";
+import { addDays } from "../shared/date.ts";
+import { buildExerciseRollup } from "../shared/exercise_logic.ts";
+import { type Rollup } from "../shared/monthly_report.ts";
+import { DEFAULT_REWARD_RULES } from "../shared/reward_rules.ts";
+import { buildStreakSection, calculateAllTimeStreaks } from "../shared/streaks.ts";
+import { exerciseTracker } from "../trackers/exercise.ts";
+import { assertEquals, assertStringIncludes } from "https://deno.land/std@0.224.0/assert/mod.ts";
+
+// One entry on each of `days` consecutive days from `start`.
+function daily(start: string, days: number): Record<string, number> {
+  return Object.fromEntries(Array.from({ length: days }, (_, index) => [addDays(start, index), 1]));
+}
+
+function week(category: string, periodStart: string, entriesByDate: Record<string, number>): Rollup {
+  const periodEnd = addDays(periodStart, 6);
+  return {
+    category,
+    periodStart,
+    periodEnd,
+    streak: 0,
+    completionRate: 0,
+    xp: 0,
+    badges: [],
+    stats: { entriesByDate },
+    runId: `${category}-${periodStart}-${periodEnd}`,
+  };
+}
+
+// Four full weeks of exercise, 2026-01-05 through 2026-02-01.
+const HISTORY = [0, 7, 14, 21].map((offset) => week("exercise", addDays("2026-01-05", offset), daily(addDays("2026-01-05", offset), 7)));
+
+Deno.test("calculateAllTimeStreaks carries the streak across weekly rollups", () => {
+  assertEquals(calculateAllTimeStreaks(HISTORY, daily("2026-02-02", 7), "2026-02-02", "2026-02-08"), {
+    current: 35,
+    longest: 35,
+    beforeWeek: 28,
+  });
+  // A missed last day ends the current streak but the longest one is kept.
+  assertEquals(calculateAllTimeStreaks(HISTORY, daily("2026-02-02", 5), "2026-02-02", "2026-02-08"), {
+    current: 0,
+    longest: 33,
+    beforeWeek: 28,
+  });
+  // Rollups from this week or later (e.g. an earlier run of it) are ignored.
+  const rerun = [...HISTORY, week("exercise", "2026-02-02", daily("2026-02-02", 7))];
+  assertEquals(calculateAllTimeStreaks(rerun, { "2026-02-08": 1 }, "2026-02-02", "2026-02-08").current, 1);
+});
+
+Deno.test("streak milestone badges fire only in the week the streak reaches them", () => {
+  const entries = [1, 2].map((day) => ({
+    pageId: `p${day}`,
+    date: addDays("2026-02-01", day),
+    activity: "Run",
+    durationMinutes: 30,
+    intensity: null,
+  }));
+  const rules = DEFAULT_REWARD_RULES.exercise;
+  const crossing = buildExerciseRollup(entries, "2026-02-02", "2026-02-03", 150, rules, HISTORY);
+  assertEquals([crossing.streak, crossing.stats.longestStreak, crossing.stats.streakBeforeWeek], [30, 30, 28]);
+  assertEquals(crossing.badges, ["Cage Marathon: 30-Day Streak"]);
+  // The monthly card shows the milestone alongside the month's XP.
+  const section = exerciseTracker.summarizeMonth([crossing], "2026-02-01", "2026-02-28", { includePartialWeeks: true });
+  assertEquals(section.badges, ["Cage Marathon: 30-Day Streak"]);
+  assertEquals(section.stats.find((stat) => stat.label === "XP")?.value, crossing.xp);
+
+  const longer = [...HISTORY, week("exercise", "2026-02-02", daily("2026-02-02", 7))];
+  const next = buildExerciseRollup(
+    [{ ...entries[0], date: "2026-02-09" }],
+    "2026-02-09",
+    "2026-02-09",
+    150,
+    rules,
+    longer,
+  );
+  assertEquals([next.streak, next.badges], [36, []]);
+});
+
+Deno.test("weekly email and monthly page report all-time streaks", () => {
+  const history = HISTORY.map((rollup) => ({ ...rollup, category: "blood_sugar" }));
+  const entries: Entry[] = [{ pageId: "a", date: "2026-02-02", createdTime: "8:00 AM", value: 110 }];
+  const rollup = buildBloodSugarRollup(entries, "2026-02-02", "2026-02-02", { history });
+  const report = buildReport(entries, "2026-02-02", "2026-02-02", rollup);
+  assertStringIncludes(report.text, "Current streak: 29 days\nLongest streak (all-time): 29 days");
+  assertStringIncludes(report.html, "Longest: 29 days");
+
+  const section = buildStreakSection([...HISTORY, week("food", "2026-01-05", { "2026-01-06": 2 })], "2026-01-31", [
+    { category: "exercise", label: "Exercise" },
+    { category: "food", label: "Food" },
+    { category: "blood_sugar", label: "Blood Sugar" },
+  ]);
+  // Exercise is stored through the week ending 2026-01-25; food's last day logged was 2026-01-11.
+  assertEquals(section.stats.map((stat) => stat.value), ["21 days", "0 days", "0 days"]);
+  assertEquals(section.details?.[0].rows, [
+    { label: "Exercise", value: "21 days" },
+    { label: "Food", value: "1 day" },
+  ]);
+});
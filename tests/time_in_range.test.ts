@@ -0,0 +1,85 @@
+import { buildBloodSugarRollup, type Entry } from "../shared/blood_sugar_logic.ts";
+import { buildReport } from "../shared/blood_sugar_report.ts";
+import { aggregateBloodSugarMonth, type Rollup } from "../shared/monthly_report.ts";
+import {
+  buildTimeInRange,
+  calculateBandPercents,
+  classifyReading,
+  DEFAULT_TIME_IN_RANGE_THRESHOLDS,
+  mergeTimeInRangeThresholds,
+} from "../shared/time_in_range.ts";
+import { assertEquals, assertStringIncludes, assertThrows } from "https://deno.land/std@0.224.0/assert/mod.ts";
+
+Deno.test("classifyReading puts boundary values in the milder band", () => {
+  const thresholds = DEFAULT_TIME_IN_RANGE_THRESHOLDS;
+  assertEquals([53, 54, 69, 70, 180, 181, 250, 251].map((value) => classifyReading(value, thresholds)), [
+    "veryLow",
+    "low",
+    "low",
+    "inRange",
+    "inRange",
+    "high",
+    "high",
+    "veryHigh",
+  ]);
+});
+
+Deno.test("calculateBandPercents always adds up to 100", () => {
+  const percents = calculateBandPercents({ veryLow: 0, low: 1, inRange: 1, high: 1, veryHigh: 0 });
+  assertEquals(percents.low + percents.inRange + percents.high, 100);
+  assertEquals(calculateBandPercents({ veryLow: 0, low: 0, inRange: 0, high: 0, veryHigh: 0 }).inRange, 0);
+});
+
+Deno.test("mergeTimeInRangeThresholds validates ordering and keys", () => {
+  assertEquals(mergeTimeInRangeThresholds({ low: 80, high: 160 }, DEFAULT_TIME_IN_RANGE_THRESHOLDS), {
+    veryLow: 54,
+    low: 80,
+    high: 160,
+    veryHigh: 250,
+  });
+  assertThrows(() => mergeTimeInRangeThresholds({ high: 300 }, DEFAULT_TIME_IN_RANGE_THRESHOLDS));
+  assertThrows(() => mergeTimeInRangeThresholds({ target: 100 }, DEFAULT_TIME_IN_RANGE_THRESHOLDS));
+});
+
+Deno.test("buildBloodSugarRollup stores time-in-range counts and renders the bar", () => {
+  const entries: Entry[] = [50, 100, 120, 200].map((value, index) => ({
+    date: `2026-01-0${index + 1}`,
+    createdTime: "8:00 AM",
+    value,
+  }));
+  const rollup = buildBloodSugarRollup(entries, "2026-01-01", "2026-01-07");
+  assertEquals(rollup.stats.timeInRange.counts, { veryLow: 1, low: 0, inRange: 2, high: 1, veryHigh: 0 });
+  assertEquals(rollup.stats.timeInRange.percents.inRange, 50);
+
+  const custom = buildBloodSugarRollup(entries, "2026-01-01", "2026-01-07", {
+    timeInRangeThresholds: { ...DEFAULT_TIME_IN_RANGE_THRESHOLDS, high: 110 },
+  });
+  assertEquals(custom.stats.timeInRange.counts.inRange, 1);
+
+  const report = buildReport(entries, "2026-01-01", "2026-01-07", rollup);
+  assertStringIncludes(report.text, "Time in range (70–180): 50% · below 25% (very low 25%) · above 25% (very high 0%)");
+  assertStringIncludes(report.html, "width: 50%");
+});
+
+Deno.test("aggregateBloodSugarMonth sums counts instead of averaging weekly percents", () => {
+  const week = (periodStart: string, values: number[]): Rollup => ({
+    category: "blood_sugar",
+    periodStart,
+    periodEnd: periodStart.replace(/\d{2}$/, (day) => String(Number(day) + 6).padStart(2, "0")),
+    streak: 0,
+    completionRate: 0,
+    xp: 0,
+    badges: [],
+    stats: { totalEntries: values.length, timeInRange: buildTimeInRange(values) },
+    runId: `blood_sugar-${periodStart}`,
+  });
+  // 1/1 in range, then 1/3 in range: 2 of 4 overall, not the 67% a percent average would give.
+  const summary = aggregateBloodSugarMonth(
+    [week("2026-01-01", [100]), week("2026-01-08", [100, 200, 60])],
+    "2026-01-01",
+    "2026-01-31",
+  );
+  assertEquals(summary.timeInRange.total, 4);
+  assertEquals(summary.timeInRange.percents.inRange, 50);
+  assertEquals(summary.timeInRange.percents.high, 25);
+});
@@ -0,0 +1,79 @@
+import {
+  buildHourBuckets,
+  collectPatternBuckets,
+  detectPatterns,
+  formatPatternLine,
+  mergeHourBuckets,
+} from "../shared/time_of_day.ts";
+import { buildBloodSugarRollup, type Entry, getReadingHour } from "../shared/blood_sugar_logic.ts";
+import { type Rollup } from "../shared/monthly_report.ts";
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+
+function buildEntry(date: string, createdTime: string | null, value: number): Entry {
+  return { pageId: `${date}-${createdTime}`, date, createdTime, value };
+}
+
+function buildWeek(start: string, end: string, byHour: Record<string, number[]>): Rollup {
+  return {
+    category: "blood_sugar",
+    periodStart: start,
+    periodEnd: end,
+    streak: 0,
+    completionRate: 0,
+    xp: 0,
+    badges: [],
+    stats: { byHour },
+    runId: `blood_sugar:${start}:${end}`,
+  };
+}
+
+Deno.test("getReadingHour reads the local hour and skips date-only readings", () => {
+  assertEquals(getReadingHour("7:45 AM"), 7);
+  assertEquals(getReadingHour("12:10 AM"), 0);
+  assertEquals(getReadingHour("9:05 PM"), 21);
+  assertEquals(getReadingHour(null), null);
+});
+
+Deno.test("rollups bucket readings by hour and merge across weeks", () => {
+  const rollup = buildBloodSugarRollup([
+    buildEntry("2026-01-05", "7:10 AM", 140),
+    buildEntry("2026-01-05", "7:50 AM", 150),
+    buildEntry("2026-01-05", "8:30 PM", 190),
+    buildEntry("2026-01-06", null, 100),
+  ], "2026-01-05", "2026-01-11");
+  assertEquals(rollup.stats.byHour, { "7": [140, 150], "20": [190] });
+  assertEquals(mergeHourBuckets([rollup.stats.byHour, { "7": [120] }]), { "7": [140, 150, 120], "20": [190] });
+  assertEquals(buildHourBuckets([{ hour: null, value: 90 }]), {});
+});
+
+Deno.test("detectPatterns reports recurring highs and lows with supporting readings", () => {
+  const patterns = detectPatterns({
+    "2": [65, 110, 68],
+    "6": [135, 142],
+    "7": [128, 150],
+    "20": [190, 170],
+  });
+  assertEquals(patterns.map((pattern) => [pattern.rule.id, pattern.supporting, pattern.readings]), [
+    ["dawn_phenomenon", 3, 4],
+    ["overnight_low", 2, 3],
+  ]);
+  assertEquals(
+    formatPatternLine(patterns[0]),
+    "Early-morning highs (dawn phenomenon): 3 of 4 readings 04:00–08:59 were above 130 mg/dL (avg 138.8 mg/dL)",
+  );
+  assertEquals(
+    formatPatternLine(patterns[0], "mmol/L"),
+    "Early-morning highs (dawn phenomenon): 3 of 4 readings 04:00–08:59 were above 7.2 mmol/L (avg 7.7 mmol/L)",
+  );
+  // Two post-dinner highs would need a third before it counts as a pattern.
+  assertEquals(detectPatterns({ "20": [190, 200] }), []);
+});
+
+Deno.test("collectPatternBuckets only looks at the recent window", () => {
+  const buckets = collectPatternBuckets([
+    buildWeek("2025-12-01", "2025-12-07", { "6": [200] }),
+    buildWeek("2026-01-05", "2026-01-11", { "6": [140] }),
+    buildWeek("2026-01-12", "2026-01-18", { "6": [150] }),
+  ], "2026-01-18");
+  assertEquals(buckets, { "6": [150, 140] });
+});
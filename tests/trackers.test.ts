@@ -0,0 +1,55 @@
+import { getTracker, TRACKERS } from "../trackers/registry.ts";
+import { bloodSugarTracker } from "../trackers/blood_sugar.ts";
+import { foodTracker } from "../trackers/food.ts";
+import { DEFAULT_PROPERTY_MAP as BLOOD_SUGAR_PROPERTY_MAP } from "../shared/blood_sugar_logic.ts";
+import { DEFAULT_PROPERTY_MAP as FOOD_PROPERTY_MAP } from "../shared/food_enrich.ts";
+import { assert, assertEquals, assertStringIncludes } from "https://deno.land/std@0.224.0/assert/mod.ts";
+
+Deno.test("registry has one tracker per category", () => {
+  const categories = TRACKERS.map((tracker) => tracker.category);
+  assertEquals(new Set(categories).size, categories.length);
+  assertEquals(getTracker("food"), foodTracker);
+  assertEquals(getTracker("unknown"), undefined);
+});
+
+Deno.test("blood sugar tracker parses, rolls up, and emails a week", () => {
+  const page = {
+    id: "page-1",
+    properties: {
+      "Blood Sugar Level": { number: 98 },
+      "Created time": { created_time: "2026-01-02T08:00:00.000Z" },
+    },
+  };
+  const entry = bloodSugarTracker.parseEntry(page, BLOOD_SUGAR_PROPERTY_MAP);
+  assertEquals(entry?.pageId, "page-1");
+  assertEquals(entry?.value, 98);
+
+  const rollup = bloodSugarTracker.buildRollup(entry ? [entry] : [], "2026-01-01", "2026-01-07");
+  assertEquals(rollup.category, bloodSugarTracker.category);
+  const email = bloodSugarTracker.buildEmail?.(entry ? [entry] : [], rollup, {
+    start: "2026-01-01",
+    end: "2026-01-07",
+  });
+  assert(email);
+  assertStringIncludes(email.text, "2026-01-01");
+});
+
+Deno.test("summarizeMonth builds monthly cards from rollups", () => {
+  const rollup = foodTracker.buildRollup(
+    [{ pageId: "p1", date: "2026-01-02", loggedAt: "2026-01-02T12:00:00.000Z", food: "eggs", macros: { protein: 12 } }],
+    "2026-01-01",
+    "2026-01-07",
+  );
+  const section = foodTracker.summarizeMonth([rollup], "2026-01-01", "2026-01-31", { includePartialWeeks: true });
+  assertEquals(section.title, "Food Log");
+  assertEquals(section.stats.find((stat) => stat.label === "Entries")?.value, 1);
+  assertEquals(section.details?.[0].rows, [{ label: "protein", value: 12 }]);
+
+  const empty = bloodSugarTracker.summarizeMonth([], "2026-01-01", "2026-01-31", {});
+  assertEquals(empty.badges, []);
+  assertEquals(empty.stats.find((stat) => stat.label === "Completion")?.value, "0%");
+});
+
+Deno.test("food tracker queries its mapped timestamp column", () => {
+  assertEquals(foodTracker.dateProperty(FOOD_PROPERTY_MAP), FOOD_PROPERTY_MAP.loggedAt);
+});
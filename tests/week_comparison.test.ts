@@ -0,0 +1,66 @@
+import { buildBloodSugarRollup, type Entry } from "../shared/blood_sugar_logic.ts";
+import { buildReport } from "../shared/blood_sugar_report.ts";
+import { type Rollup } from "../shared/monthly_report.ts";
+import { buildWeekComparison, formatComparisonLine, formatDelta } from "../shared/week_comparison.ts";
+import { assertEquals, assertStringIncludes } from "https://deno.land/std@0.224.0/assert/mod.ts";
+
+function week(periodStart: string, periodEnd: string, avg: number, extra: Partial<Rollup> = {}): Rollup {
+  return {
+    category: "blood_sugar",
+    periodStart,
+    periodEnd,
+    streak: 7,
+    completionRate: 80,
+    xp: 100,
+    badges: [],
+    stats: { avg, min: avg - 40, max: avg + 60, totalEntries: 14 },
+    runId: `blood_sugar-${periodStart}-${periodEnd}`,
+    ...extra,
+  };
+}
+
+const HISTORY = [
+  // Ends before the 4-week window, so it is ignored.
+  week("2025-12-22", "2025-12-28", 300),
+  week("2025-12-29", "2026-01-04", 140),
+  week("2026-01-05", "2026-01-11", 120),
+  week("2026-01-12", "2026-01-18", 150),
+  week("2026-01-19", "2026-01-25", 124, { completionRate: 85, xp: 120, streak: 3 }),
+];
+
+Deno.test("buildWeekComparison compares against last week and the 4-week baseline", () => {
+  const current = week("2026-01-26", "2026-02-01", 130, { completionRate: 90, xp: 150, streak: 10 });
+  const comparison = buildWeekComparison(current, HISTORY);
+  assertEquals(comparison.baselineWeeks, 4);
+  const [avg, , , completion, xp, streak] = comparison.metrics;
+  assertEquals(avg, { metric: "avg", current: 130, lastWeek: 124, baseline: 133.5, lastWeekDelta: 6, baselineDelta: -3.5 });
+  assertEquals(formatComparisonLine(avg), "Average: 130 (▲ 6 vs last week, ▼ 3.5 vs 4-week avg)");
+  assertEquals(formatComparisonLine(completion), "Completion: 90% (▲ 5 pts vs last week, ▲ 8.7 pts vs 4-week avg)");
+  assertEquals(xp.lastWeekDelta, 30);
+  assertEquals(formatComparisonLine(streak), "Streak: 10 days (▲ 7 days vs last week, ▲ 4 days vs 4-week avg)");
+});
+
+Deno.test("buildWeekComparison handles gaps and weeks without readings", () => {
+  const current = week("2026-02-02", "2026-02-08", 0, { stats: { totalEntries: 0 } });
+  const comparison = buildWeekComparison(current, HISTORY.slice(0, 4));
+  // The newest stored week ended more than 7 days before this one.
+  assertEquals(comparison.metrics[0].lastWeek, null);
+  assertEquals(comparison.baselineWeeks, 2);
+  assertEquals(formatComparisonLine(comparison.metrics[0]), "Average: — (no data last week, — vs 4-week avg)");
+  assertEquals(formatDelta("min", -18, "mmol/L"), "▼ 1");
+  assertEquals(formatDelta("xp", 0), "= 0");
+});
+
+Deno.test("weekly email shows week-over-week deltas in text and HTML", () => {
+  const entries: Entry[] = [
+    { pageId: "a", date: "2026-01-26", createdTime: "8:00 AM", value: 120 },
+    { pageId: "b", date: "2026-01-26", createdTime: "8:00 PM", value: 140 },
+  ];
+  const rollup = buildBloodSugarRollup(entries, "2026-01-26", "2026-02-01");
+  const report = buildReport(entries, "2026-01-26", "2026-02-01", rollup, { history: HISTORY });
+  assertStringIncludes(report.text, "Compared with last week and the 4-week average:\n- Average: 130 (▲ 6 vs last week");
+  assertStringIncludes(report.html, "vs 4-week avg</th>");
+
+  const first = buildReport(entries, "2026-01-26", "2026-02-01", rollup);
+  assertStringIncludes(first.text, "- No earlier weeks stored yet");
+});
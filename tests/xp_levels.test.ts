@@ -0,0 +1,80 @@
+import { buildBloodSugarRollup, type Entry } from "../shared/blood_sugar_logic.ts";
+import { buildReport } from "../shared/blood_sugar_report.ts";
+import { type Rollup } from "../shared/monthly_report.ts";
+import {
+  buildLevelSection,
+  buildLevelUpdate,
+  buildXpProgress,
+  formatLevelLine,
+  sumLifetimeXp,
+} from "../shared/xp_levels.ts";
+import { assertEquals, assertStringIncludes } from "https://deno.land/std@0.224.0/assert/mod.ts";
+
+function week(category: string, periodStart: string, periodEnd: string, xp: number): Rollup {
+  return {
+    category,
+    periodStart,
+    periodEnd,
+    streak: 0,
+    completionRate: 0,
+    xp,
+    badges: [],
+    stats: {},
+    runId: `${category}-${periodStart}-${periodEnd}`,
+  };
+}
+
+const HISTORY = [
+  week("blood_sugar", "2026-01-05", "2026-01-11", 242),
+  // A re-run with a shifted window; the newer, overlapping rollup is the one counted.
+  week("blood_sugar", "2026-01-08", "2026-01-14", 200),
+  week("blood_sugar", "2026-01-15", "2026-01-21", 240),
+  week("exercise", "2026-01-15", "2026-01-21", 100),
+];
+
+Deno.test("buildXpProgress places XP on the level ladder", () => {
+  const progress = buildXpProgress(750);
+  assertEquals([progress.current.level, progress.next?.level, progress.xpToNext, progress.progressPercent], [3, 4, 450, 25]);
+  assertEquals(formatLevelLine(progress), "Level 3 · Face/Off Apprentice — 750 XP (450 XP to Level 4)");
+  assertEquals(formatLevelLine(buildXpProgress(9000)), "Level 8 · Massive Talent — 9000 XP (top level)");
+  assertEquals(buildXpProgress(0).current.name, "Cage Rookie");
+});
+
+Deno.test("sumLifetimeXp counts overlapping re-runs once per category", () => {
+  assertEquals(sumLifetimeXp(HISTORY), 540);
+  assertEquals(sumLifetimeXp(HISTORY, "2026-01-14"), 200);
+});
+
+Deno.test("buildLevelUpdate detects category and overall level-ups", () => {
+  const update = buildLevelUpdate(week("blood_sugar", "2026-01-22", "2026-01-28", 80), HISTORY, "Blood Sugar");
+  assertEquals([update.category.before.totalXp, update.category.after.totalXp, update.category.leveledUp], [440, 520, false]);
+  assertEquals([update.overall.before.totalXp, update.overall.after.totalXp, update.overall.leveledUp], [540, 620, true]);
+});
+
+Deno.test("buildLevelUpdate counts other categories' runs for the same week", () => {
+  // Blood sugar already ran for this week; the food run that follows must start from that total.
+  const persisted = [...HISTORY, week("blood_sugar", "2026-01-22", "2026-01-28", 80)];
+  const update = buildLevelUpdate(week("food", "2026-01-22", "2026-01-28", 50), persisted, "Food Log");
+  assertEquals([update.overall.before.totalXp, update.overall.after.totalXp, update.overall.leveledUp], [620, 670, false]);
+  assertEquals(update.overall.after.totalXp, sumLifetimeXp([...persisted, week("food", "2026-01-22", "2026-01-28", 50)]));
+  // Re-running blood sugar for the same week replaces its earlier result instead of adding to it.
+  const rerun = buildLevelUpdate(week("blood_sugar", "2026-01-22", "2026-01-28", 90), persisted, "Blood Sugar");
+  assertEquals([rerun.category.before.totalXp, rerun.overall.before.totalXp, rerun.overall.after.totalXp], [440, 540, 630]);
+});
+
+Deno.test("weekly email and monthly page call out level-ups", () => {
+  const entries: Entry[] = [{ pageId: "a", date: "2026-01-22", createdTime: "8:00 AM", value: 110 }];
+  const rollup = buildBloodSugarRollup(entries, "2026-01-22", "2026-01-28");
+  const levels = buildLevelUpdate({ ...rollup, xp: 80 }, HISTORY, "Blood Sugar");
+  const report = buildReport(entries, "2026-01-22", "2026-01-28", rollup, { levels });
+  assertStringIncludes(report.text, "Blood Sugar level: Level 2 · Con Air Cadet — 520 XP (80 XP to Level 3)");
+  assertStringIncludes(report.text, "Level up! All trackers reached Level 3 · Face/Off Apprentice");
+  assertStringIncludes(report.html, "🎉 Level up! All trackers");
+
+  const section = buildLevelSection(HISTORY, "2026-01-01", "2026-01-31", [
+    { category: "blood_sugar", label: "Blood Sugar" },
+    { category: "exercise", label: "Exercise" },
+  ]);
+  assertEquals(section.stats.map((stat) => stat.value), ["440 XP", "100 XP", "540 XP"]);
+  assertEquals(section.details?.[1].rows.map((row) => row.label), ["Blood Sugar", "All trackers"]);
+});
@@ -0,0 +1,160 @@
+import {
+  buildBloodSugarRollup,
+  buildExpectedProperties,
+  loadBloodSugarPropertyMap,
+  type MissingReading,
+  parseEntry,
+  parseMissingReading,
+} from "../shared/blood_sugar_logic.ts";
+import { loadDataQualityConfig, reviewReadings } from "../shared/blood_sugar_quality.ts";
+import { buildNotionReport, buildReport, DISCLAIMER } from "../shared/blood_sugar_report.ts";
+import { buildEstimateHistory } from "../shared/glucose_estimate.ts";
+import { formatMage, VARIABILITY_EXPLANATIONS } from "../shared/glycemic_variability.ts";
+import { detectPatterns, formatHourWindow } from "../shared/time_of_day.ts";
+import { formatGlucose, formatGlucoseRange, loadDisplayUnit, loadInputUnit } from "../shared/glucose_units.ts";
+import { aggregateBloodSugarMonth } from "../shared/monthly_report.ts";
+import { CONTEXT_LABELS, loadContextTargets, READING_CONTEXTS } from "../shared/reading_context.ts";
+import { loadReadingSchedule } from "../shared/reading_schedule.ts";
+import { loadRewardRules } from "../shared/reward_rules.ts";
+import {
+  loadTimeInRangeThresholds,
+  TIME_IN_RANGE_BANDS,
+  TIME_IN_RANGE_COLORS,
+  TIME_IN_RANGE_LABELS,
+} from "../shared/time_in_range.ts";
+import { defineTracker, formatDays } from "../shared/tracker.ts";
+
+// Blood sugar readings: scheduled daily checks (two by default), weekly email, XP and Praise Cage badges.
+export const bloodSugarTracker = defineTracker({
+  category: "blood_sugar",
+  label: "Blood Sugar",
+  databaseEnv: "NOTION_BLOOD_SUGAR_DB_ID",
+  loadPropertyMap: loadBloodSugarPropertyMap,
+  expectedProperties: buildExpectedProperties,
+  dateProperty: (propertyMap) => propertyMap.timestamp,
+  preferredDateProperty: (propertyMap) => propertyMap.measuredAt,
+  parseEntry: (page, propertyMap) => parseEntry(page, propertyMap, loadInputUnit()),
+  isIncompleteEntry: (page, propertyMap) => !!parseMissingReading(page, propertyMap),
+  reviewEntries: (entries, unparsedPages, propertyMap, { start, end }) =>
+    reviewReadings(
+      entries,
+      unparsedPages
+        .map((page) => parseMissingReading(page, propertyMap))
+        .filter((reading): reading is MissingReading => !!reading && reading.date >= start && reading.date <= end),
+      loadDataQualityConfig(),
+      loadDisplayUnit(),
+    ),
+  qualityFlagProperty: (propertyMap) => propertyMap.qualityFlag,
+  buildRollup: (entries, start, end, history) =>
+    buildBloodSugarRollup(entries, start, end, {
+      contextTargets: loadContextTargets(),
+      timeInRangeThresholds: loadTimeInRangeThresholds(),
+      schedule: loadReadingSchedule(),
+      rewardRules: loadRewardRules("blood_sugar"),
+      history,
+    }),
+  summarizeMonth: (rollups, monthStart, monthEnd, options) => {
+    const summary = aggregateBloodSugarMonth(rollups, monthStart, monthEnd, {
+      ...options,
+      expectedPerDay: loadReadingSchedule().length,
+    });
+    const estimates = buildEstimateHistory(options.history ?? rollups, monthEnd);
+    const latest = estimates.at(-1);
+    const unit = loadDisplayUnit();
+    const { thresholds } = summary.timeInRange;
+    return {
+      title: "Blood Sugar",
+      stats: [
+        { label: "Entries", value: summary.totalEntries },
+        { label: `Average (${unit})`, value: formatGlucose(summary.average, unit) },
+        { label: "Min", value: formatGlucose(summary.min, unit) },
+        { label: "Max", value: formatGlucose(summary.max, unit) },
+        { label: "Time in range", value: summary.timeInRange.total ? `${summary.timeInRange.percents.inRange}%` : "—" },
+        { label: "Completion", value: `${summary.completionRate}%` },
+        { label: "Streak", value: formatDays(summary.streak) },
+        { label: "XP", value: summary.xp },
+        { label: "Est. A1C (90d)", value: latest?.windowEnd === monthEnd ? `${latest.a1c}%` : "—" },
+      ],
+      badges: summary.badges,
+      bars: [
+        {
+          title: `Time in range (${formatGlucoseRange(thresholds.low, thresholds.high, unit)} ${unit})`,
+          segments: summary.timeInRange.total
+            ? TIME_IN_RANGE_BANDS.map((band) => ({
+              label: TIME_IN_RANGE_LABELS[band],
+              percent: summary.timeInRange.percents[band],
+              color: TIME_IN_RANGE_COLORS[band],
+            }))
+            : [],
+          emptyText: "No readings yet.",
+        },
+      ],
+      details: [
+        {
+          title: "By reading context",
+          rows: READING_CONTEXTS.flatMap((context) => {
+            const stats = summary.byContext[context];
+            if (!stats) return [];
+            return [{
+              label: CONTEXT_LABELS[context],
+              value: `avg ${formatGlucose(stats.avg, unit)} · ${stats.inRangeRate}% in ` +
+                formatGlucoseRange(stats.target.low, stats.target.high, unit),
+            }];
+          }),
+          emptyText: "No tagged readings yet.",
+        },
+        {
+          title: "Missed slots",
+          rows: Object.entries(summary.missingBySlot)
+            .filter(([, days]) => days > 0)
+            .map(([label, days]) => ({ label, value: formatDays(days) })),
+          emptyText: "Every scheduled slot was logged.",
+        },
+        {
+          title: "Variability",
+          rows: summary.variability.count < 2 ? [] : [
+            { label: "SD", value: `${formatGlucose(summary.variability.sd, unit)} ${unit}`, hint: VARIABILITY_EXPLANATIONS.sd },
+            { label: "CV", value: `${summary.variability.cv}%`, hint: VARIABILITY_EXPLANATIONS.cv },
+            {
+              label: "IQR",
+              value: `${formatGlucoseRange(summary.variability.q1, summary.variability.q3, unit)} ${unit}`,
+              hint: VARIABILITY_EXPLANATIONS.iqr,
+            },
+            { label: "Avg swing", value: formatMage(summary.variability, unit), hint: VARIABILITY_EXPLANATIONS.mage },
+          ],
+          emptyText: "Needs at least 2 readings.",
+        },
+        {
+          title: "Patterns noticed",
+          rows: detectPatterns(summary.byHour).map((pattern) => ({
+            label: pattern.rule.label,
+            value: `${pattern.supporting} of ${pattern.readings} readings`,
+            hint: `${formatHourWindow(pattern.rule)}: ${pattern.share}% ${pattern.rule.direction} ` +
+              `${formatGlucose(pattern.rule.threshold, unit)} ${unit}, avg ${formatGlucose(pattern.average, unit)}`,
+          })),
+          emptyText: "No recurring time-of-day patterns this month.",
+        },
+        {
+          title: "Estimated A1C / GMI (90-day, by month end)",
+          rows: estimates.map((estimate) => ({
+            label: estimate.windowEnd,
+            value: `A1C ${estimate.a1c}% · GMI ${estimate.gmi}%${estimate.limitedData ? " (limited data)" : ""}`,
+          })),
+          emptyText: "Not enough history yet.",
+        },
+      ],
+      footnote: `A1C/GMI are estimates from weekly averages, not lab results. ${DISCLAIMER}`,
+    };
+  },
+  buildEmail: (entries, rollup, { start, end, history, quality, awards, levels }) =>
+    buildReport(entries, start, end, rollup, {
+      history,
+      quality,
+      awards,
+      levels,
+      unit: loadDisplayUnit(),
+      schedule: loadReadingSchedule(),
+    }),
+  buildNotionReport: (entries, rollup, { start, end }) =>
+    buildNotionReport(entries, start, end, rollup, { unit: loadDisplayUnit(), schedule: loadReadingSchedule() }),
+});
@@ -0,0 +1,46 @@
+import {
+  buildExerciseRollup,
+  buildExpectedProperties,
+  getWeeklyTargetMinutes,
+  loadExercisePropertyMap,
+  parseEntry,
+} from "../shared/exercise_logic.ts";
+import { aggregateExerciseMonth } from "../shared/monthly_report.ts";
+import { loadRewardRules } from "../shared/reward_rules.ts";
+import { defineTracker, formatDays } from "../shared/tracker.ts";
+
+// Workout log: sessions and active minutes measured against a weekly target.
+export const exerciseTracker = defineTracker({
+  category: "exercise",
+  label: "Exercise",
+  databaseEnv: "NOTION_EXERCISE_DB_ID",
+  loadPropertyMap: loadExercisePropertyMap,
+  expectedProperties: buildExpectedProperties,
+  dateProperty: (propertyMap) => propertyMap.date,
+  parseEntry,
+  buildRollup: (entries, start, end, history) =>
+    buildExerciseRollup(entries, start, end, getWeeklyTargetMinutes(), loadRewardRules("exercise"), history),
+  summarizeMonth: (rollups, monthStart, monthEnd, options) => {
+    const summary = aggregateExerciseMonth(rollups, monthStart, monthEnd, options);
+    return {
+      title: "Exercise",
+      stats: [
+        { label: "Sessions", value: summary.sessions },
+        { label: "Active minutes", value: summary.activeMinutes },
+        { label: "Active days", value: summary.activeDays },
+        { label: "Target", value: `${summary.targetMinutes} min` },
+        { label: "Completion", value: `${summary.completionRate}%` },
+        { label: "Streak", value: formatDays(summary.streak) },
+        { label: "XP", value: summary.xp },
+      ],
+      badges: summary.badges,
+      details: [
+        {
+          title: "Minutes by intensity",
+          rows: Object.entries(summary.minutesByIntensity).map(([label, value]) => ({ label, value })),
+          emptyText: "No workouts logged yet.",
+        },
+      ],
+    };
+  },
+});
@@ -0,0 +1,63 @@
+import {
+  buildExpectedProperties,
+  buildFoodRollup,
+  loadFoodPropertyMap,
+  type MacroKey,
+  parseEntry,
+} from "../shared/food_enrich.ts";
+import { type FoodGoal, formatFoodGoal, loadFoodGoals } from "../shared/food_goals.ts";
+import { buildFoodEmail, buildFoodNotionReport } from "../shared/food_report.ts";
+import { aggregateFoodMonth } from "../shared/monthly_report.ts";
+import { loadRewardRules } from "../shared/reward_rules.ts";
+import { defineTracker, formatDays } from "../shared/tracker.ts";
+
+// Food log: one or more entries per day, macros enriched by the food collector.
+export const foodTracker = defineTracker({
+  category: "food",
+  label: "Food Log",
+  databaseEnv: "NOTION_FOOD_DB_ID",
+  loadPropertyMap: loadFoodPropertyMap,
+  expectedProperties: buildExpectedProperties,
+  dateProperty: (propertyMap) => propertyMap.loggedAt,
+  parseEntry,
+  buildRollup: (entries, start, end, history) =>
+    buildFoodRollup(entries, start, end, { rewardRules: loadRewardRules("food"), history, goals: loadFoodGoals() }),
+  summarizeMonth: (rollups, monthStart, monthEnd, options) => {
+    const summary = aggregateFoodMonth(rollups, monthStart, monthEnd, options);
+    return {
+      title: "Food Log",
+      stats: [
+        { label: "Entries", value: summary.totalEntries },
+        { label: "Unique days", value: summary.uniqueDays },
+        { label: "Avg/day", value: summary.avgEntriesPerDay },
+        { label: "Min/day", value: summary.minEntriesPerDay },
+        { label: "Max/day", value: summary.maxEntriesPerDay },
+        { label: "Completion", value: `${summary.completionRate}%` },
+        { label: "Streak", value: formatDays(summary.streak) },
+        {
+          label: "Complete macros",
+          value: summary.totalEntries ? `${Math.round((summary.completeEntries / summary.totalEntries) * 100)}%` : "—",
+        },
+        { label: "XP", value: summary.xp },
+      ],
+      badges: summary.badges,
+      details: [
+        {
+          title: "Macro averages (per entry)",
+          rows: Object.entries(summary.macroSummary).map(([key, value]) => ({ label: key, value: value.avg })),
+          emptyText: "No macro data yet.",
+        },
+        {
+          title: "Daily goals met",
+          rows: (Object.entries(summary.goals) as [MacroKey, FoodGoal][]).map(([macro, goal]) => ({
+            label: formatFoodGoal(macro, goal),
+            value: `${formatDays(summary.goalDays[macro] ?? 0)} of ${summary.uniqueDays} logged`,
+          })),
+          emptyText: "No daily goals set.",
+        },
+      ],
+    };
+  },
+  buildEmail: (entries, rollup, { awards, levels }) => buildFoodEmail(entries, rollup, { awards, levels }),
+  buildNotionReport: buildFoodNotionReport,
+});
@@ -0,0 +1,11 @@
+import { type AnyTracker } from "../shared/tracker.ts";
+import { bloodSugarTracker } from "./blood_sugar.ts";
+import { exerciseTracker } from "./exercise.ts";
+import { foodTracker } from "./food.ts";
+
+// Every Notion-backed category, in the order it appears on the monthly page.
+export const TRACKERS: AnyTracker[] = [bloodSugarTracker, foodTracker, exerciseTracker];
+
+export function getTracker(category: string): AnyTracker | undefined {
+  return TRACKERS.find((tracker) => tracker.category === category);
+}